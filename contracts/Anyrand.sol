@@ -75,7 +75,7 @@ contract Anyrand is
 
     /// @notice See {ITypeAndVersion-typeAndVersion}
     function typeAndVersion() external pure returns (string memory) {
-        return "Anyrand 1.0.0";
+        return "Anyrand 1.1.0";
     }
 
     /// @notice Compute keccak256 of a request
@@ -294,6 +294,74 @@ contract Anyrand is
         // valid for the given pubkey.
         IDrandBeacon($.beacons[pubKeyHash]).verifyBeaconRound(round, signature);
 
+        _deliverRandomness(requestId, requester, callbackGasLimit, signature);
+    }
+
+    /// @notice Fulfill randomness requests in bulk (for beacon keepers),
+    ///     verifying each round's signature only once for all of the requests
+    ///     that target it.
+    /// @notice Requests that are no longer pending (e.g. because another
+    ///     keeper got to them first) are skipped, so that the rest of the
+    ///     batch can still be fulfilled. As with {fulfillRandomness}, a failing
+    ///     callback does not revert the fulfilment.
+    /// @param fulfilments Requests grouped by the beacon round they target,
+    ///     along with the signature of that round.
+    function fulfillRandomnessBatch(
+        RoundFulfilment[] calldata fulfilments
+    ) external nonReentrant {
+        MainStorage storage $ = _getMainStorage();
+
+        for (uint256 i; i < fulfilments.length; ++i) {
+            RoundFulfilment calldata fulfilment = fulfilments[i];
+            IDrandBeacon($.beacons[fulfilment.pubKeyHash]).verifyBeaconRound(
+                fulfilment.round,
+                fulfilment.signature
+            );
+
+            for (uint256 j; j < fulfilment.requests.length; ++j) {
+                BatchedRequest calldata request = fulfilment.requests[j];
+                if (
+                    $.requestStates[request.requestId] != RequestState.Pending
+                ) {
+                    continue;
+                }
+
+                bytes32 reqHash = _hashRequest(
+                    request.requestId,
+                    request.requester,
+                    fulfilment.pubKeyHash,
+                    fulfilment.round,
+                    request.callbackGasLimit
+                );
+                if ($.requests[request.requestId] != reqHash) {
+                    revert InvalidRequestHash(reqHash);
+                }
+                $.requests[request.requestId] = bytes32(0);
+
+                _deliverRandomness(
+                    request.requestId,
+                    request.requester,
+                    request.callbackGasLimit,
+                    fulfilment.signature
+                );
+            }
+        }
+    }
+
+    /// @notice Derive the randomness for a request from a verified beacon
+    ///     signature, call back the requester and record the outcome.
+    /// @param requestId The request identifier
+    /// @param requester Address of account that initiated the request.
+    /// @param callbackGasLimit Gas limit for callback
+    /// @param signature Verified beacon signature of the request's round
+    function _deliverRandomness(
+        uint256 requestId,
+        address requester,
+        uint256 callbackGasLimit,
+        uint256[2] calldata signature
+    ) private {
+        MainStorage storage $ = _getMainStorage();
+
         // Derive randomness from the signature
         uint256 randomness = uint256(
             keccak256(
@@ -14,6 +14,30 @@ interface IAnyrand {
         Failed
     }
 
+    /// @notice A request to fulfil as part of a batch, see
+    ///     {Anyrand-fulfillRandomnessBatch}
+    struct BatchedRequest {
+        /// @notice Which request id to fulfill
+        uint256 requestId;
+        /// @notice Address of account that initiated the request
+        address requester;
+        /// @notice Gas limit for callback
+        uint256 callbackGasLimit;
+    }
+
+    /// @notice Requests that target the same beacon round, fulfilled with a
+    ///     single signature
+    struct RoundFulfilment {
+        /// @notice Hash of the beacon's public key
+        bytes32 pubKeyHash;
+        /// @notice Target round of the drand beacon
+        uint256 round;
+        /// @notice Beacon signature of the round
+        uint256[2] signature;
+        /// @notice Requests that target this round
+        BatchedRequest[] requests;
+    }
+
     event RandomnessRequested(
         uint256 indexed requestId,
         address indexed requester,
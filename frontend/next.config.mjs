@@ -1,7 +1,18 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  env: {
+    // Lets the root DRAND_URL (e.g. a local drand simulator) configure the frontend too
+    NEXT_PUBLIC_DRAND_URL: process.env.NEXT_PUBLIC_DRAND_URL || process.env.DRAND_URL || '',
+  },
   experimental: {
     optimizePackageImports: ['lucide-react'],
+    // Allow importing code shared with the hardhat project from ../lib
+    externalDir: true,
   },
   webpack: (config, { isServer, webpack }) => {
     // Externalize problematic packages for client-side builds
@@ -9,6 +20,10 @@ const nextConfig = {
       config.externals.push('pino-pretty', 'lokijs', 'encoding');
     }
 
+    // Resolve dependencies of ../lib and ../sdk from this package first, so that
+    // shared code uses the same copies of e.g. viem and noble-bn254-drand as the frontend
+    config.resolve.modules = [path.resolve(__dirname, 'node_modules'), 'node_modules'];
+
     // Add fallbacks for node modules
     config.resolve.fallback = {
       ...config.resolve.fallback,
@@ -4,9 +4,18 @@ import React, { useState, useCallback } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useToast } from '../../../components/ui/toast'
 import { useRequestsQuery } from '../../../hooks/anyrand/use-requests-query'
+import { useLiveRequests } from '../../../hooks/anyrand/use-live-requests'
+import { useRequestDetail } from '../../../hooks/anyrand/use-request-detail'
+import { LiveIndicator } from '../../../components/anyrand/live-indicator'
 import { FulfillmentForm } from '../../../components/anyrand/fulfillment-form'
-import { RandomnessRequest, RequestStatus, canFulfillRequest } from '../../../types/anyrand/randomness-request'
-import { FulfillRequestResult, ContractError } from '../../../types/anyrand/frontend-api'
+import { BatchFulfillmentPanel } from '../../../components/anyrand/batch-fulfillment-panel'
+import { RandomnessRequest, RequestStatus } from '../../../types/anyrand/randomness-request'
+import {
+  BatchFulfillmentItem,
+  FulfillRequestResult,
+  ContractError
+} from '../../../types/anyrand/frontend-api'
+import { getSecondsUntilFulfillable } from '@/lib/beacon-time'
 
 export default function FulfillPage() {
   const router = useRouter()
@@ -14,41 +23,99 @@ export default function FulfillPage() {
   const requestIdParam = searchParams.get('requestId')
   const { addToast } = useToast()
 
-  const {
-    requests,
-    blockInfo,
-    currentBlockPage,
-    goToNextBlockPage,
-    goToPreviousBlockPage,
-    goToBlockPage
-  } = useRequestsQuery()
+  const { requests, syncStatus } = useRequestsQuery({
+    filters: { status: [RequestStatus.Pending] },
+    pageSize: 100
+  })
+  const [isLive, setIsLive] = useState(true)
+  const live = useLiveRequests(isLive)
   const [selectedRequest, setSelectedRequest] = useState<RandomnessRequest | null>(null)
+  // Requests ticked for batch fulfilment
+  const [batchIds, setBatchIds] = useState<Set<string>>(new Set())
   const [recentFulfillment, setRecentFulfillment] = useState<FulfillRequestResult | null>(null)
   const [fulfillmentError, setFulfillmentError] = useState<ContractError | null>(null)
-  const [isBlockPageChanging, setIsBlockPageChanging] = useState(false)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [now, setNow] = useState(() => BigInt(Math.floor(Date.now() / 1000)))
 
-  // Auto-select request if requestId provided in URL
+  // Tick every second so that countdowns stay current
   React.useEffect(() => {
+    const interval = setInterval(() => setNow(BigInt(Math.floor(Date.now() / 1000))), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Auto-select request if requestId provided in URL, once its round is
+  // published (e.g. when linked to straight after submitting it)
+  const autoSelectedRef = React.useRef(false)
+  React.useEffect(() => {
+    if (autoSelectedRef.current) return
     if (requestIdParam && requests.data.length > 0) {
       const request = requests.data.find(r => r.id.toString() === requestIdParam)
-      if (request && canFulfillRequest(request)) {
+      if (request?.status === RequestStatus.Pending && getSecondsUntilFulfillable(request, now) === 0) {
+        autoSelectedRef.current = true
         setSelectedRequest(request)
       }
     }
-  }, [requestIdParam, requests.data])
+  }, [requestIdParam, requests.data, now])
+
+  // The selected request with its status on chain, so that the form stops
+  // offering to fulfil it once it's fulfilled (e.g. by another operator). The
+  // list only holds the newest pending requests, so it can't tell whether a
+  // request that dropped out of it was fulfilled. Live events settle the
+  // detail straight away, and refetch it
+  const { detail: selectedDetail } = useRequestDetail(selectedRequest?.id ?? null)
+  const liveSelectedRequest = selectedRequest && (
+    selectedDetail?.request.id === selectedRequest.id
+      ? { ...selectedRequest, status: selectedDetail.onChainStatus }
+      : selectedRequest
+  )
 
-  // Filter fulfillable requests (deadline passed)
+  // Filter fulfillable requests (round published)
   const fulfillableRequests = requests.data.filter(request =>
-    canFulfillRequest(request) &&
-    request.deadline < BigInt(Math.floor(Date.now() / 1000))
+    request.status === RequestStatus.Pending &&
+    getSecondsUntilFulfillable(request, now) === 0
   )
 
-  // Filter pending requests with countdown (deadline not yet passed)
+  // Filter pending requests with countdown (round not yet published)
   const pendingRequests = requests.data.filter(request =>
     request.status === RequestStatus.Pending &&
-    request.deadline >= BigInt(Math.floor(Date.now() / 1000))
+    getSecondsUntilFulfillable(request, now) > 0
   )
 
+  const batchRequests = fulfillableRequests.filter(request => batchIds.has(request.id.toString()))
+
+  const handleBatchToggle = useCallback((request: RandomnessRequest) => {
+    setBatchIds(prev => {
+      const next = new Set(prev)
+      const id = request.id.toString()
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }, [])
+
+  const handleBatchSelectAll = useCallback(() => {
+    setBatchIds(prev => prev.size === fulfillableRequests.length
+      ? new Set()
+      : new Set(fulfillableRequests.map(request => request.id.toString())))
+  }, [fulfillableRequests])
+
+  const handleBatchComplete = useCallback((items: BatchFulfillmentItem[]) => {
+    const confirmed = items.filter(item => item.status === 'confirmed').length
+    const failed = items.length - confirmed
+    addToast({
+      type: failed === 0 ? 'success' : 'error',
+      title: failed === 0 ? 'Batch Fulfilled Successfully!' : 'Batch Partially Fulfilled',
+      message: `Fulfilled ${confirmed} of ${items.length} requests${failed > 0 ? `, ${failed} failed` : ''}`,
+      autoClose: failed === 0
+    })
+    // Keep the failed requests selected so that they can be retried
+    setBatchIds(new Set(items.filter(item => item.status === 'failed').map(item => item.requestId.toString())))
+    requests.refetch()
+  }, [addToast, requests])
+
   const handleRequestSelect = useCallback((request: RandomnessRequest) => {
     setSelectedRequest(request)
     setRecentFulfillment(null)
@@ -96,35 +163,25 @@ export default function FulfillPage() {
     setFulfillmentError(null)
   }, [])
 
-  // Wrapper functions for pagination that trigger loading state
-  const handleGoToNextBlockPage = useCallback(() => {
-    setIsBlockPageChanging(true)
-    goToNextBlockPage()
-  }, [goToNextBlockPage])
-
-  const handleGoToPreviousBlockPage = useCallback(() => {
-    setIsBlockPageChanging(true)
-    goToPreviousBlockPage()
-  }, [goToPreviousBlockPage])
-
-  const handleGoToBlockPage = useCallback((page: number) => {
-    setIsBlockPageChanging(true)
-    goToBlockPage(page)
-  }, [goToBlockPage])
+  // Sync the index up to the latest block, showing progress while it runs
+  const handleRefresh = useCallback(() => {
+    setIsRefreshing(true)
+    requests.refetch()
+  }, [requests])
 
   // Combined loading state
-  const isLoading = requests.isLoading || isBlockPageChanging
+  const isLoading = requests.isLoading || isRefreshing
 
   // Reset local loading state when requests finish loading
   React.useEffect(() => {
-    if (!requests.isLoading && isBlockPageChanging) {
+    if (!requests.isLoading && isRefreshing) {
       // Add a small delay to ensure smooth transition
       const timer = setTimeout(() => {
-        setIsBlockPageChanging(false)
+        setIsRefreshing(false)
       }, 300)
       return () => clearTimeout(timer)
     }
-  }, [requests.isLoading, isBlockPageChanging])
+  }, [requests.isLoading, isRefreshing])
 
   const formatTransactionHash = (hash: string | undefined) => {
     if (!hash) return 'N/A'
@@ -155,7 +212,7 @@ export default function FulfillPage() {
             Earn rewards by providing verifiable randomness to pending requests using DRAND beacon data.
           </p>
 
-          {/* Block Range Info & Pagination */}
+          {/* Indexer Sync Status */}
           <div className={`mt-4 p-4 border rounded-lg transition-all duration-200 ${
             isLoading
               ? 'bg-blue-100 dark:bg-blue-900/40 border-blue-300 dark:border-blue-700'
@@ -165,8 +222,9 @@ export default function FulfillPage() {
               <div className="flex-1">
                 <div className="flex items-center space-x-2 mb-2">
                   <h3 className="text-sm font-semibold text-blue-900 dark:text-blue-200">
-                    Blockchain Search Range
+                    Request Index
                   </h3>
+                  <LiveIndicator live={live} enabled={isLive} onToggle={() => setIsLive(!isLive)} />
                   {isLoading && (
                     <div className="flex items-center space-x-1">
                       <svg className="animate-spin h-4 w-4 text-blue-600" fill="none" viewBox="0 0 24 24">
@@ -174,42 +232,24 @@ export default function FulfillPage() {
                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                       </svg>
                       <span className="text-xs text-blue-600 dark:text-blue-400 font-medium">
-                        Searching...
+                        Syncing...
                       </span>
                     </div>
                   )}
                 </div>
-                {blockInfo ? (
+                {syncStatus ? (
                   <div className={`space-y-1 text-xs transition-opacity duration-200 ${
                     isLoading ? 'text-blue-700 dark:text-blue-400' : 'text-blue-800 dark:text-blue-300'
                   }`}>
                     <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
                       <div>
-                        <span className="font-medium">Current Block:</span> #{blockInfo.currentBlock.toString()}
-                      </div>
-                      <div>
-                        <span className="font-medium">Searching:</span> #{blockInfo.fromBlock.toString()} - #{blockInfo.toBlock.toString()}
-                      </div>
-                      <div>
-                        <span className="font-medium">Range:</span> {blockInfo.blockRange.toLocaleString()} blocks (~2h)
+                        <span className="font-medium">Indexed:</span> #{syncStatus.deployBlock.toString()} - #{syncStatus.indexedBlock.number.toString()}
                       </div>
-                    </div>
-                    <div className="flex items-center space-x-4 mt-2">
                       <div>
-                        <span className="font-medium">Page:</span> {currentBlockPage + 1}
+                        <span className="font-medium">Last Synced:</span> {new Date(Number(syncStatus.indexedBlock.timestamp) * 1000).toLocaleTimeString()}
                       </div>
                       <div className={`transition-all duration-200 ${isLoading ? 'opacity-50' : ''}`}>
-                        <span className="font-medium">Requests Found:</span> {isLoading ? '...' : requests.data.length}
-                      </div>
-                      <div className="flex items-center space-x-1">
-                        <span className="font-medium">Status:</span>
-                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
-                          isLoading
-                            ? 'bg-blue-200 text-blue-800 dark:bg-blue-800 dark:text-blue-200'
-                            : 'bg-green-200 text-green-800 dark:bg-green-800 dark:text-green-200'
-                        }`}>
-                          {isLoading ? 'Loading' : 'Ready'}
-                        </span>
+                        <span className="font-medium">Pending Requests:</span> {isLoading ? '...' : requests.totalItems}
                       </div>
                     </div>
                   </div>
@@ -219,111 +259,22 @@ export default function FulfillPage() {
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    <span>Loading blockchain data...</span>
+                    <span>Indexing requests since deployment...</span>
                   </div>
                 )}
               </div>
 
-              {/* Block Pagination Controls */}
-              <div className="flex items-center space-x-2">
-                <button
-                  onClick={handleGoToPreviousBlockPage}
-                  disabled={currentBlockPage === 0 || isLoading}
-                  className={`px-3 py-1 text-xs rounded transition-all duration-200 ${
-                    isLoading
-                      ? 'bg-gray-400 text-gray-200 cursor-not-allowed'
-                      : currentBlockPage === 0
-                      ? 'bg-gray-400 text-gray-200 cursor-not-allowed'
-                      : 'bg-blue-600 text-white hover:bg-blue-700'
-                  }`}
-                >
-                  {isLoading ? (
-                    <span className="flex items-center space-x-1">
-                      <svg className="animate-spin h-3 w-3" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                      </svg>
-                      <span>← Newer</span>
-                    </span>
-                  ) : (
-                    '← Newer'
-                  )}
-                </button>
-                <span className={`text-xs px-2 transition-opacity duration-200 ${
-                  isLoading ? 'text-blue-600 dark:text-blue-400' : 'text-blue-800 dark:text-blue-300'
-                }`}>
-                  Page {currentBlockPage + 1}
-                </span>
-                <button
-                  onClick={handleGoToNextBlockPage}
-                  disabled={isLoading}
-                  className={`px-3 py-1 text-xs rounded transition-all duration-200 ${
-                    isLoading
-                      ? 'bg-gray-400 text-gray-200 cursor-not-allowed'
-                      : 'bg-blue-600 text-white hover:bg-blue-700'
-                  }`}
-                >
-                  {isLoading ? (
-                    <span className="flex items-center space-x-1">
-                      <span>Older →</span>
-                      <svg className="animate-spin h-3 w-3" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                      </svg>
-                    </span>
-                  ) : (
-                    'Older →'
-                  )}
-                </button>
-              </div>
-            </div>
-
-            {/* Quick Jump Controls */}
-            <div className={`mt-3 pt-3 border-t transition-opacity duration-200 ${
-              isLoading ? 'border-blue-300 dark:border-blue-700' : 'border-blue-200 dark:border-blue-800'
-            }`}>
-              <div className="flex items-center space-x-2 text-xs">
-                <span className={`transition-opacity duration-200 ${
-                  isLoading ? 'text-blue-600 dark:text-blue-400' : 'text-blue-800 dark:text-blue-300'
-                }`}>
-                  Quick jump:
-                </span>
-                <button
-                  onClick={() => handleGoToBlockPage(0)}
-                  disabled={currentBlockPage === 0 || isLoading}
-                  className={`px-2 py-1 rounded transition-all duration-200 ${
-                    isLoading
-                      ? 'bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400 cursor-not-allowed'
-                      : currentBlockPage === 0
-                      ? 'bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400 cursor-not-allowed'
-                      : 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 hover:bg-blue-200 dark:hover:bg-blue-800'
-                  }`}
-                >
-                  Latest
-                </button>
-                <button
-                  onClick={() => handleGoToBlockPage(12)}
-                  disabled={isLoading}
-                  className={`px-2 py-1 rounded transition-all duration-200 ${
-                    isLoading
-                      ? 'bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400 cursor-not-allowed'
-                      : 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 hover:bg-blue-200 dark:hover:bg-blue-800'
-                  }`}
-                >
-                  1 Day Ago
-                </button>
-                <button
-                  onClick={() => handleGoToBlockPage(84)}
-                  disabled={isLoading}
-                  className={`px-2 py-1 rounded transition-all duration-200 ${
-                    isLoading
-                      ? 'bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400 cursor-not-allowed'
-                      : 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 hover:bg-blue-200 dark:hover:bg-blue-800'
-                  }`}
-                >
-                  1 Week Ago
-                </button>
-              </div>
+              <button
+                onClick={handleRefresh}
+                disabled={isLoading}
+                className={`px-3 py-1 text-xs rounded transition-all duration-200 ${
+                  isLoading
+                    ? 'bg-gray-400 text-gray-200 cursor-not-allowed'
+                    : 'bg-blue-600 text-white hover:bg-blue-700'
+                }`}
+              >
+                Refresh
+              </button>
             </div>
           </div>
         </div>
@@ -429,6 +380,19 @@ export default function FulfillPage() {
                 <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
                   Requests past their deadline that can be fulfilled for rewards
                 </p>
+                {fulfillableRequests.length > 1 && (
+                  <label className="mt-3 flex items-center text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={batchIds.size === fulfillableRequests.length}
+                      onChange={handleBatchSelectAll}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-2">
+                      Select all to fulfill in one batch ({batchRequests.length} selected)
+                    </span>
+                  </label>
+                )}
               </div>
 
               <div className="p-6">
@@ -453,39 +417,14 @@ export default function FulfillPage() {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
                     </svg>
                     <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-white">
-                      No fulfillable requests in current range
+                      No fulfillable requests
                     </h3>
                     <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
                       {requests.data.length === 0
-                        ? "No requests found in the current block range. Try searching older blocks using pagination above."
-                        : `Found ${requests.data.length} request(s) but none are past their deadline yet.`
+                        ? 'There are no pending requests.'
+                        : `Found ${requests.data.length} pending request(s) but none are past their deadline yet.`
                       }
                     </p>
-                    {requests.data.length === 0 && (
-                      <div className="mt-4">
-                        <button
-                          onClick={handleGoToNextBlockPage}
-                          disabled={isLoading}
-                          className={`inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-all duration-200 ${
-                            isLoading
-                              ? 'text-gray-400 bg-gray-300 cursor-not-allowed'
-                              : 'text-white bg-blue-600 hover:bg-blue-700'
-                          }`}
-                        >
-                          {isLoading ? (
-                            <span className="flex items-center space-x-2">
-                              <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
-                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                              </svg>
-                              <span>Searching...</span>
-                            </span>
-                          ) : (
-                            'Search Older Blocks'
-                          )}
-                        </button>
-                      </div>
-                    )}
                   </div>
                 ) : (
                   <div className="space-y-4">
@@ -500,9 +439,19 @@ export default function FulfillPage() {
                         onClick={() => handleRequestSelect(request)}
                       >
                         <div className="flex justify-between items-start mb-3">
-                          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                            Request #{request.id.toString()}
-                          </h3>
+                          <div className="flex items-center space-x-3">
+                            <input
+                              type="checkbox"
+                              aria-label={`Add request #${request.id.toString()} to batch`}
+                              checked={batchIds.has(request.id.toString())}
+                              onChange={() => handleBatchToggle(request)}
+                              onClick={(e) => e.stopPropagation()}
+                              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                            />
+                            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                              Request #{request.id.toString()}
+                            </h3>
+                          </div>
                           <div className="flex items-center space-x-2">
                             <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
                               Fulfillable
@@ -520,7 +469,7 @@ export default function FulfillPage() {
                           <div>
                             <span className="text-gray-500 dark:text-gray-400">Deadline Passed:</span>
                             <p className="text-gray-900 dark:text-white">
-                              {Math.floor((Date.now() / 1000 - Number(request.deadline)) / 60)}m ago
+                              {Math.floor(Number(now - request.deadline) / 60)}m ago
                             </p>
                           </div>
                         </div>
@@ -553,7 +502,7 @@ export default function FulfillPage() {
                   </span>
                 </h2>
                 <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                  Requests waiting for their deadline to pass
+                  Requests waiting for their DRAND round to be published
                 </p>
               </div>
 
@@ -564,22 +513,23 @@ export default function FulfillPage() {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                     </svg>
                     <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-white">
-                      No pending requests in current range
+                      No pending requests
                     </h3>
                     <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
                       {requests.data.length === 0
-                        ? "No requests found in the current block range."
-                        : "All requests in this range have either been fulfilled or deadlines have passed."
+                        ? 'There are no pending requests.'
+                        : 'All pending requests can already be fulfilled.'
                       }
                     </p>
                   </div>
                 ) : (
                   <div className="space-y-4">
                     {pendingRequests.map((request) => {
-                      const now = Math.floor(Date.now() / 1000)
-                      const timeUntilDeadline = Number(request.deadline) - now
+                      const timeUntilDeadline = getSecondsUntilFulfillable(request, now)
                       const minutes = Math.floor(timeUntilDeadline / 60)
                       const seconds = timeUntilDeadline % 60
+                      // Progress from the request being made to its round being published
+                      const waitTime = Number(request.deadline - request.timestamp)
 
                       return (
                         <div
@@ -616,7 +566,7 @@ export default function FulfillPage() {
                             <div
                               className="bg-yellow-500 h-2 rounded-full transition-all duration-1000"
                               style={{
-                                width: `${Math.max(0, Math.min(100, ((120 - timeUntilDeadline) / 120) * 100))}%`
+                                width: `${waitTime > 0 ? Math.max(0, Math.min(100, ((waitTime - timeUntilDeadline) / waitTime) * 100)) : 100}%`
                               }}
                             ></div>
                           </div>
@@ -636,7 +586,7 @@ export default function FulfillPage() {
               <div className="space-y-2 text-sm text-blue-800 dark:text-blue-300">
                 <div className="flex items-start space-x-2">
                   <div className="w-1.5 h-1.5 bg-blue-400 rounded-full mt-2 flex-shrink-0"></div>
-                  <p>Select a request that has passed its deadline</p>
+                  <p>Select a request that has passed its deadline, or tick several to fulfill them in one batch</p>
                 </div>
                 <div className="flex items-start space-x-2">
                   <div className="w-1.5 h-1.5 bg-blue-400 rounded-full mt-2 flex-shrink-0"></div>
@@ -656,14 +606,29 @@ export default function FulfillPage() {
 
           {/* Right Column - Fulfillment Form */}
           <div>
-            {selectedRequest ? (
-              <FulfillmentForm
-                request={selectedRequest}
-                onFulfillSuccess={handleFulfillSuccess}
-                onFulfillError={handleFulfillError}
-                onCancel={handleCancelFulfillment}
-                disabled={!!recentFulfillment}
+            {batchRequests.length > 1 ? (
+              <BatchFulfillmentPanel
+                requests={batchRequests}
+                onComplete={handleBatchComplete}
+                onError={handleFulfillError}
+                onClearSelection={() => setBatchIds(new Set())}
               />
+            ) : liveSelectedRequest ? (
+              <>
+                {liveSelectedRequest.status !== RequestStatus.Pending && !recentFulfillment && (
+                  <div className="mb-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 text-sm text-yellow-800 dark:text-yellow-200">
+                    Request #{liveSelectedRequest.id.toString()} has already been fulfilled
+                    {liveSelectedRequest.status === RequestStatus.Failed ? ', but its callback failed.' : '.'}
+                  </div>
+                )}
+                <FulfillmentForm
+                  request={liveSelectedRequest}
+                  onFulfillSuccess={handleFulfillSuccess}
+                  onFulfillError={handleFulfillError}
+                  onCancel={handleCancelFulfillment}
+                  disabled={!!recentFulfillment}
+                />
+              </>
             ) : (
               <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-8">
                 <div className="text-center">
@@ -5,12 +5,16 @@ import { useAccount } from 'wagmi'
 import { NetworkStats } from '../../components/anyrand/network-stats'
 import { RequestList } from '../../components/anyrand/request-list'
 import { useRequestsQuery } from '../../hooks/anyrand/use-requests-query'
+import { useLiveRequests } from '../../hooks/anyrand/use-live-requests'
+import { LiveIndicator } from '../../components/anyrand/live-indicator'
 import { RequestStatus } from '../../types/anyrand/randomness-request'
 import Link from 'next/link'
 
 export default function AnyrandDashboard() {
   const { address, isConnected } = useAccount()
   const { requests } = useRequestsQuery()
+  const [isLive, setIsLive] = useState(true)
+  const live = useLiveRequests(isLive)
   const [activeView, setActiveView] = useState<'overview' | 'my-requests' | 'pending'>('overview')
 
   // Get user's recent requests
@@ -28,9 +32,12 @@ export default function AnyrandDashboard() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Header */}
         <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
-            Anyrand Dashboard
-          </h1>
+          <div className="flex items-center space-x-3">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Anyrand Dashboard
+            </h1>
+            <LiveIndicator live={live} enabled={isLive} onToggle={() => setIsLive(!isLive)} />
+          </div>
           <p className="mt-2 text-gray-600 dark:text-gray-400">
             Decentralized verifiable randomness for your applications
           </p>
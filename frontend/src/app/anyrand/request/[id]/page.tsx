@@ -0,0 +1,294 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { useChainId } from 'wagmi'
+import { formatEther, formatGwei, toHex } from 'viem'
+import { useRequestDetail } from '../../../../hooks/anyrand/use-request-detail'
+import { useProofExport } from '../../../../hooks/anyrand/use-proof-export'
+import { CallbackDiagnostics } from '../../../../components/anyrand/callback-diagnostics'
+import { LoadingSpinner } from '../../../../components/ui/loading'
+import { RequestStatus, getStatusText } from '../../../../types/anyrand/randomness-request'
+import { getFulfillmentEfficiency } from '../../../../types/anyrand/randomness-fulfillment'
+import { buildRequestLifecycle, LifecycleStepStatus } from '@/lib/request-lifecycle'
+import { getSecondsUntilFulfillable } from '@/lib/beacon-time'
+import { SUPPORTED_CHAINS } from '@/lib/constants'
+import { copyToClipboard, truncateAddress } from '@/lib/utils'
+
+const statusStyles: Record<RequestStatus, string> = {
+  [RequestStatus.Nonexistent]: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  [RequestStatus.Pending]: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  [RequestStatus.Fulfilled]: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  [RequestStatus.Failed]: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+}
+
+const stepStyles: Record<LifecycleStepStatus, string> = {
+  done: 'bg-green-500',
+  current: 'bg-blue-500 animate-pulse',
+  upcoming: 'bg-gray-300 dark:bg-gray-600',
+  failed: 'bg-red-500'
+}
+
+function parseRequestId(id: string | string[] | undefined) {
+  return typeof id === 'string' && /^\d+$/.test(id) ? BigInt(id) : null
+}
+
+function formatTimestamp(timestamp: bigint) {
+  return new Date(Number(timestamp) * 1000).toLocaleString()
+}
+
+function formatDuration(seconds: number) {
+  const minutes = Math.floor(seconds / 60)
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-sm text-gray-500 dark:text-gray-400">{label}</dt>
+      <dd className="mt-1 text-sm text-gray-900 dark:text-white break-all">{children}</dd>
+    </div>
+  )
+}
+
+// Shareable page for a single request, with its lifecycle from request to callback
+export default function RequestDetailPage() {
+  const router = useRouter()
+  const params = useParams<{ id: string }>()
+  const requestId = parseRequestId(params?.id)
+  const chainId = useChainId()
+  const { detail, isLoading, error, refetch } = useRequestDetail(requestId)
+  const proofExport = useProofExport()
+  const [copied, setCopied] = useState(false)
+  const [now, setNow] = useState(() => BigInt(Math.floor(Date.now() / 1000)))
+
+  // Tick every second so that the round countdown stays current
+  React.useEffect(() => {
+    const interval = setInterval(() => setNow(BigInt(Math.floor(Date.now() / 1000))), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const lifecycle = useMemo(
+    () => detail && buildRequestLifecycle(detail.request, detail.onChainStatus, now),
+    [detail, now]
+  )
+  const explorerUrl = SUPPORTED_CHAINS.find((chain) => chain.id === chainId)?.blockExplorers.default.url
+
+  const txLink = (hash: string) =>
+    explorerUrl ? (
+      <a
+        href={`${explorerUrl}/tx/${hash}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+      >
+        {hash}
+      </a>
+    ) : (
+      <span className="font-mono">{hash}</span>
+    )
+
+  const handleCopyLink = async () => {
+    if (await copyToClipboard(window.location.href)) {
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    }
+  }
+
+  const request = detail?.request
+  const fulfillment = request?.fulfillment
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <button
+            onClick={() => router.push('/anyrand')}
+            className="inline-flex items-center text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 mb-4"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Dashboard
+          </button>
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center space-x-3">
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+                Request #{params?.id}
+              </h1>
+              {lifecycle && (
+                <span className={`px-3 py-1 text-sm font-medium rounded-full ${statusStyles[lifecycle.status]}`}>
+                  {getStatusText(lifecycle.status)}
+                </span>
+              )}
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={handleCopyLink}
+                className="px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                {copied ? 'Copied!' : 'Copy Link'}
+              </button>
+              <button
+                onClick={refetch}
+                disabled={isLoading}
+                className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Refresh
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {requestId === null ? (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6 text-red-700 dark:text-red-300">
+            &quot;{params?.id}&quot; isn&apos;t a valid request ID.
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-16">
+            <LoadingSpinner size="lg" className="text-blue-600" />
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6 text-red-700 dark:text-red-300">
+            {error.message}
+          </div>
+        ) : !request || !lifecycle ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 text-gray-600 dark:text-gray-400">
+            Request #{requestId.toString()} doesn&apos;t exist on this network.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {lifecycle.isIndexBehind && (
+              <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 text-sm text-yellow-800 dark:text-yellow-200">
+                The request is {getStatusText(lifecycle.status).toLowerCase()} on chain, but the
+                local index still has it as {getStatusText(request.status).toLowerCase()}. Refresh
+                to pick up the latest blocks.
+              </div>
+            )}
+
+            {/* Timeline */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Lifecycle</h2>
+              <ol className="space-y-4">
+                {lifecycle.steps.map((step) => (
+                  <li key={step.key} className="flex items-start space-x-3">
+                    <span className={`mt-1.5 flex-shrink-0 w-3 h-3 rounded-full ${stepStyles[step.status]}`} />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap justify-between gap-2">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">{step.label}</p>
+                        {typeof step.timestamp !== 'undefined' && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {formatTimestamp(step.timestamp)}
+                          </p>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">{step.description}</p>
+                      {step.transactionHash && (
+                        <p className="text-xs break-all">{txLink(step.transactionHash)}</p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+
+              {lifecycle.status === RequestStatus.Pending && lifecycle.isRoundPublished && (
+                <button
+                  onClick={() => router.push(`/anyrand/fulfill?requestId=${request.id.toString()}`)}
+                  className="mt-6 px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700"
+                >
+                  Fulfill Request
+                </button>
+              )}
+            </div>
+
+            {/* Commitment */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Request</h2>
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Field label="Requester">
+                  <span className="font-mono">{request.requester}</span>
+                </Field>
+                <Field label="Beacon Public Key Hash">
+                  <span className="font-mono">{request.pubKeyHash}</span>
+                </Field>
+                <Field label="Callback Gas Limit">{request.callbackGasLimit.toLocaleString()}</Field>
+                <Field label="Fee Paid">
+                  {formatEther(request.feePaid)} ETH ({formatGwei(request.effectiveFeePerGas)} gwei/gas)
+                </Field>
+                <Field label="DRAND Round">{request.round.toString()}</Field>
+                <Field label="Round Scheduled For">
+                  {formatTimestamp(lifecycle.roundAvailableAt)}{' '}
+                  {lifecycle.isRoundPublished ? (
+                    <span className="text-green-600 dark:text-green-400">(published)</span>
+                  ) : (
+                    <span className="text-yellow-600 dark:text-yellow-400">
+                      (in {formatDuration(getSecondsUntilFulfillable(request, now))})
+                    </span>
+                  )}
+                </Field>
+                <div className="md:col-span-2">
+                  <Field label="Request Transaction">{txLink(request.transactionHash)}</Field>
+                </div>
+              </dl>
+            </div>
+
+            {/* Fulfilment */}
+            {fulfillment && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Fulfillment</h2>
+                  <button
+                    onClick={() => proofExport.exportProof(request)}
+                    disabled={proofExport.isExporting}
+                    title="Download a proof that anyone can re-check offline at /anyrand/verify"
+                    className="px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                  >
+                    {proofExport.isExporting ? 'Exporting...' : 'Export Proof'}
+                  </button>
+                </div>
+                {proofExport.error && (
+                  <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3 text-sm text-red-700 dark:text-red-300">
+                    {proofExport.error.message}
+                  </div>
+                )}
+                <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Field label="Fulfiller">
+                    <span className="font-mono" title={fulfillment.operator}>
+                      {truncateAddress(fulfillment.operator)}
+                    </span>
+                  </Field>
+                  <Field label="Fulfilled At">{formatTimestamp(fulfillment.timestamp)}</Field>
+                  <div className="md:col-span-2">
+                    <Field label="Fulfillment Transaction">{txLink(fulfillment.transactionHash)}</Field>
+                  </div>
+                  <div className="md:col-span-2">
+                    <Field label="Randomness">
+                      <span className="font-mono text-xs">{toHex(fulfillment.randomness, { size: 32 })}</span>
+                    </Field>
+                  </div>
+                  <div className="md:col-span-2">
+                    <Field label="Callback Gas Used">
+                      {fulfillment.actualGasUsed.toLocaleString()} / {request.callbackGasLimit.toLocaleString()} (
+                      {getFulfillmentEfficiency(request.callbackGasLimit, fulfillment.actualGasUsed)}%)
+                      <div className="mt-2 w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                        <div
+                          className={`h-2 rounded-full ${fulfillment.callbackSuccess ? 'bg-green-500' : 'bg-red-500'}`}
+                          style={{
+                            width: `${Math.min(getFulfillmentEfficiency(request.callbackGasLimit, fulfillment.actualGasUsed), 100)}%`
+                          }}
+                        ></div>
+                      </div>
+                    </Field>
+                  </div>
+                </dl>
+                {lifecycle.status === RequestStatus.Failed && <CallbackDiagnostics request={request} />}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,10 +2,15 @@
 
 import React, { useState, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
+import { formatEther, formatGwei } from 'viem'
 import { useToast } from '../../../components/ui/toast'
 import { RequestSubmissionForm } from '../../../components/anyrand/request-submission-form'
 import { SubmitRequestResult, ContractError } from '../../../types/anyrand/frontend-api'
 
+function getFulfillUrl(requestId: bigint) {
+  return `/anyrand/fulfill?requestId=${requestId.toString()}`
+}
+
 export default function RequestPage() {
   const router = useRouter()
   const { addToast } = useToast()
@@ -24,9 +29,9 @@ export default function RequestPage() {
       duration: 5000
     })
 
-    // Redirect to dashboard after 3 seconds
+    // Redirect to the request on the fulfil page after 3 seconds
     setTimeout(() => {
-      router.push(`/anyrand?highlight=${result.requestId}`)
+      router.push(getFulfillUrl(result.requestId))
     }, 3000)
   }, [router, addToast])
 
@@ -111,16 +116,24 @@ export default function RequestPage() {
                       </button>
                     </div>
                     <div>
-                      <strong>Fee Paid:</strong> {(Number(recentSubmission.feePaid) / 1e18).toFixed(6)} ETH
+                      <strong>Fee Paid:</strong> {formatEther(recentSubmission.request.feePaid)} ETH
+                      {' '}({formatGwei(recentSubmission.request.effectiveFeePerGas)} gwei/gas)
                     </div>
                     <div>
-                      <strong>Deadline:</strong> {new Date(Number(recentSubmission.deadline) * 1000).toLocaleString()}
+                      <strong>DRAND Round:</strong> {recentSubmission.request.round.toString()}
+                      {' '}(available {new Date(Number(recentSubmission.request.deadline) * 1000).toLocaleString()})
                     </div>
                   </div>
                 </div>
                 <div className="mt-4">
                   <p className="text-sm text-green-600 dark:text-green-400">
-                    Redirecting to dashboard in 5 seconds to view your request...
+                    Redirecting to your request in 3 seconds...{' '}
+                    <button
+                      onClick={() => router.push(getFulfillUrl(recentSubmission.requestId))}
+                      className="underline hover:text-green-500 dark:hover:text-green-300"
+                    >
+                      View request #{recentSubmission.requestId.toString()}
+                    </button>
                   </p>
                 </div>
               </div>
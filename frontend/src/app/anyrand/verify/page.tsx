@@ -0,0 +1,187 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toHex } from 'viem'
+import {
+  parseProofBundle,
+  verifyProofBundle,
+  type ProofBundle,
+  type ProofVerification
+} from '@anyrand/lib/proof'
+import { SUPPORTED_CHAINS } from '@/lib/constants'
+
+type Result =
+  | { bundle: ProofBundle; verification: ProofVerification }
+  | { error: string }
+
+function Check({ label, passed, children }: { label: string; passed: boolean; children: React.ReactNode }) {
+  return (
+    <li className="flex items-start space-x-3">
+      <span
+        className={`mt-0.5 flex-shrink-0 w-5 h-5 rounded-full text-xs font-bold text-white flex items-center justify-center ${
+          passed ? 'bg-green-500' : 'bg-red-500'
+        }`}
+      >
+        {passed ? '✓' : '✗'}
+      </span>
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-gray-900 dark:text-white">{label}</p>
+        <p className="text-sm text-gray-600 dark:text-gray-400 break-all">{children}</p>
+      </div>
+    </li>
+  )
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-sm text-gray-500 dark:text-gray-400">{label}</dt>
+      <dd className="mt-1 text-sm text-gray-900 dark:text-white break-all">{children}</dd>
+    </div>
+  )
+}
+
+// Re-checks a proof bundle exported from a request's page, entirely in the
+// browser: nothing is fetched from the chain or drand
+export default function VerifyProofPage() {
+  const router = useRouter()
+  const [input, setInput] = useState('')
+  const [result, setResult] = useState<Result | null>(null)
+
+  const verify = (json: string) => {
+    try {
+      const bundle = parseProofBundle(json)
+      setResult({ bundle, verification: verifyProofBundle(bundle) })
+    } catch (err) {
+      setResult({ error: err instanceof Error ? err.message : String(err) })
+    }
+  }
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    const json = await file.text()
+    setInput(json)
+    verify(json)
+  }
+
+  const chainName = (chainId: string) =>
+    SUPPORTED_CHAINS.find((chain) => chain.id.toString() === chainId)?.name ?? `Chain ${chainId}`
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <button
+            onClick={() => router.push('/anyrand')}
+            className="inline-flex items-center text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 mb-4"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Dashboard
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Verify Proof</h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Check that a request&apos;s randomness came from its drand round. Export a proof from a
+            fulfilled request&apos;s page, or re-check one offline with{' '}
+            <code className="font-mono text-sm">yarn verify-proof proof.json</code>.
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+            <label htmlFor="proof" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Proof bundle (JSON)
+            </label>
+            <textarea
+              id="proof"
+              rows={10}
+              value={input}
+              onChange={(event) => setInput(event.target.value)}
+              placeholder='{ "version": 1, "chainId": "534351", ... }'
+              className="w-full px-3 py-2 font-mono text-xs border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-900 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="mt-4 flex flex-wrap items-center gap-4">
+              <button
+                onClick={() => verify(input)}
+                disabled={!input.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Verify
+              </button>
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={handleFile}
+                className="text-sm text-gray-600 dark:text-gray-400"
+              />
+            </div>
+          </div>
+
+          {result && 'error' in result && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6 text-red-700 dark:text-red-300">
+              {result.error}
+            </div>
+          )}
+
+          {result && 'bundle' in result && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+              <div
+                className={`mb-6 rounded-lg p-4 text-sm font-medium ${
+                  result.verification.isValid
+                    ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
+                    : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+                }`}
+              >
+                {result.verification.isValid
+                  ? `Request #${result.bundle.requestId} received randomness derived from drand round ${result.bundle.round}.`
+                  : `This proof doesn't hold for request #${result.bundle.requestId}.`}
+              </div>
+
+              <ul className="space-y-4 mb-6">
+                <Check label="Beacon signature" passed={result.verification.isSignatureValid}>
+                  {result.verification.isSignatureValid
+                    ? `A valid BLS signature of round ${result.bundle.round} by the beacon`
+                    : `Not the beacon's signature of round ${result.bundle.round}`}
+                </Check>
+                <Check label="Derived randomness" passed={result.verification.isRandomnessValid}>
+                  {result.verification.isRandomnessValid
+                    ? 'Matches keccak256(abi.encode(signature, chainid, anyrand, requestId, requester))'
+                    : `Expected ${toHex(result.verification.expectedRandomness, { size: 32 })}`}
+                </Check>
+              </ul>
+
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Field label="Network">{chainName(result.bundle.chainId)}</Field>
+                <Field label="Request ID">{result.bundle.requestId}</Field>
+                <Field label="Coordinator">
+                  <span className="font-mono">{result.bundle.anyrand}</span>
+                </Field>
+                <Field label="Requester">
+                  <span className="font-mono">{result.bundle.requester}</span>
+                </Field>
+                <Field label="DRAND Round">{result.bundle.round}</Field>
+                <Field label="Beacon Public Key Hash">
+                  <span className="font-mono">{result.verification.beaconPubKeyHash}</span>
+                </Field>
+                <div className="md:col-span-2">
+                  <Field label="Randomness">
+                    <span className="font-mono text-xs">{toHex(BigInt(result.bundle.randomness), { size: 32 })}</span>
+                  </Field>
+                </div>
+              </dl>
+              <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+                The proof is only as good as its beacon: check that the public key hash above is a
+                beacon registered with the coordinator, i.e. that{' '}
+                <code className="font-mono">beacon(pubKeyHash)</code> isn&apos;t the zero address.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
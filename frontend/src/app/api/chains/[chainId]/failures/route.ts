@@ -0,0 +1,9 @@
+import { RequestStatus } from '@/types/anyrand/randomness-request';
+import { apiHandler, listRequests } from '@/lib/api/server';
+
+/**
+ * Requests that were fulfilled, but whose callback reverted
+ */
+export const GET = apiHandler<{ chainId: string }>((request, { chainId }) =>
+  listRequests(request, chainId, { status: [RequestStatus.Failed] })
+);
@@ -0,0 +1,12 @@
+import { RequestStatus } from '@/types/anyrand/randomness-request';
+import { apiHandler, listRequests } from '@/lib/api/server';
+
+/**
+ * Requests that have been fulfilled, whether or not their callback succeeded.
+ * Filter by `operator` for an operator's fulfilments.
+ */
+export const GET = apiHandler<{ chainId: string }>((request, { chainId }) =>
+  listRequests(request, chainId, {
+    status: [RequestStatus.Fulfilled, RequestStatus.Failed],
+  })
+);
@@ -0,0 +1,15 @@
+import { getAddress, isAddress } from 'viem';
+import { ApiError } from '@/lib/api/requests';
+import { apiHandler, listRequests } from '@/lib/api/server';
+
+/**
+ * Requests made by an account, either directly or through a consumer contract
+ */
+export const GET = apiHandler<{ chainId: string; address: string }>(
+  (request, { chainId, address }) => {
+    if (!isAddress(address, { strict: false })) {
+      throw new ApiError(400, 'Invalid address');
+    }
+    return listRequests(request, chainId, { requester: getAddress(address) });
+  }
+);
@@ -0,0 +1,19 @@
+import { ApiError } from '@/lib/api/requests';
+import { apiHandler, syncChainIndex } from '@/lib/api/server';
+
+/**
+ * A single request, with its fulfilment if it has been fulfilled
+ */
+export const GET = apiHandler<{ chainId: string; requestId: string }>(
+  async (_, { chainId, requestId }) => {
+    if (!/^\d+$/.test(requestId)) {
+      throw new ApiError(400, 'Request ID must be a non-negative integer');
+    }
+    const { indexer } = await syncChainIndex(chainId);
+    const request = await indexer.getRequest(BigInt(requestId));
+    if (!request) {
+      throw new ApiError(404, `Request ${requestId} not found`);
+    }
+    return request;
+  }
+);
@@ -0,0 +1,8 @@
+import { apiHandler, listRequests } from '@/lib/api/server';
+
+/**
+ * Requests, filtered & sorted by the query string (see `RequestApiParams`)
+ */
+export const GET = apiHandler<{ chainId: string }>((request, { chainId }) =>
+  listRequests(request, chainId)
+);
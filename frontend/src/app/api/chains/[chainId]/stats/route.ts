@@ -0,0 +1,15 @@
+import { apiHandler, syncChainIndex } from '@/lib/api/server';
+import {
+  aggregateNetworkStatistics,
+  fetchNetworkActivity,
+} from '@/lib/network-stats';
+
+/**
+ * Aggregate statistics of the deployment, as shown on the dashboard
+ */
+export const GET = apiHandler<{ chainId: string }>(async (_, { chainId }) => {
+  const { publicClient, deployment } = await syncChainIndex(chainId);
+  return aggregateNetworkStatistics(
+    await fetchNetworkActivity(publicClient, deployment)
+  );
+});
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { DRAND_CHAIN_HASH, DRAND_URL as DRAND_API_URL } from '@/lib/constants';
 
-const DRAND_URL = 'https://api.drand.sh/52db9ba70e0cc0f6eaf7803dd07447a1f5477735fd3f661792ba94600c84e971';
+const DRAND_URL = `${DRAND_API_URL}/${DRAND_CHAIN_HASH}`;
 
 export async function GET(
   request: NextRequest,
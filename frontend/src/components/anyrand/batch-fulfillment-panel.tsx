@@ -0,0 +1,148 @@
+'use client'
+
+import React, { useCallback, useMemo } from 'react'
+import { formatEther } from 'viem'
+import { groupByRound } from 'anyrand-sdk'
+import { useFulfillRequest } from '../../hooks/anyrand/use-fulfill-request'
+import { useErrorHandling } from '../../hooks/anyrand/use-error-handling'
+import { RandomnessRequest } from '../../types/anyrand/randomness-request'
+import {
+  BatchFulfillmentItem,
+  BatchFulfillmentStatus,
+  ContractError
+} from '../../types/anyrand/frontend-api'
+
+interface BatchFulfillmentPanelProps {
+  requests: RandomnessRequest[]
+  onComplete?: (items: BatchFulfillmentItem[]) => void
+  onError?: (error: ContractError) => void
+  onClearSelection?: () => void
+  className?: string
+}
+
+const statusStyles: Record<BatchFulfillmentStatus, string> = {
+  queued: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  submitted: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  confirmed: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+}
+
+// Fulfils the selected requests in one go: a signature per round, and a
+// transaction per request
+export function BatchFulfillmentPanel({
+  requests,
+  onComplete,
+  onError,
+  onClearSelection,
+  className = ''
+}: BatchFulfillmentPanelProps) {
+  const { fulfillBatch, batchProgress, isLoading } = useFulfillRequest()
+  const { parseError } = useErrorHandling()
+
+  const groups = useMemo(() => groupByRound(requests), [requests])
+  const totalFees = requests.reduce((sum, request) => sum + request.feePaid, 0n)
+  const progress = new Map(batchProgress.map((item) => [item.requestId, item]))
+  const done = batchProgress.filter(
+    (item) => item.status === 'confirmed' || item.status === 'failed'
+  ).length
+
+  const handleFulfill = useCallback(async () => {
+    try {
+      onComplete?.(await fulfillBatch(requests))
+    } catch (err) {
+      onError?.({ ...parseError(err), retry: handleFulfill })
+    }
+  }, [fulfillBatch, requests, onComplete, onError, parseError])
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 ${className}`}>
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+        Fulfill {requests.length} Requests
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+        {groups.length} DRAND {groups.length === 1 ? 'round' : 'rounds'} to fetch, one
+        transaction per request · {formatEther(totalFees)} ETH in fees
+      </p>
+
+      <div className="space-y-4 mb-6">
+        {groups.map((group) => (
+          <div
+            key={`${group.pubKeyHash}:${group.round}`}
+            className="border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+          >
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+              Round {group.round.toString()}
+            </h3>
+            <ul className="space-y-1">
+              {group.requests.map((request) => {
+                const item = progress.get(request.id)
+                return (
+                  <li key={request.id.toString()} className="text-sm">
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-700 dark:text-gray-300">
+                        Request #{request.id.toString()}
+                      </span>
+                      {item && (
+                        <span
+                          className={`px-2 py-0.5 text-xs font-medium rounded-full ${statusStyles[item.status]}`}
+                        >
+                          {item.status}
+                        </span>
+                      )}
+                    </div>
+                    {item?.transactionHash && (
+                      <p className="font-mono text-xs text-gray-500 dark:text-gray-400 break-all">
+                        {item.transactionHash}
+                      </p>
+                    )}
+                    {item?.error && (
+                      <p className="text-xs text-red-600 dark:text-red-400">
+                        {item.error.userMessage}
+                      </p>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      {batchProgress.length > 0 && (
+        <div className="mb-6">
+          <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-1">
+            <span>Progress</span>
+            <span>
+              {done} / {batchProgress.length}
+            </span>
+          </div>
+          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all duration-500"
+              style={{ width: `${(done / batchProgress.length) * 100}%` }}
+            ></div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex space-x-3">
+        <button
+          onClick={handleFulfill}
+          disabled={isLoading || requests.length === 0}
+          className="flex-1 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Fulfilling...' : `Fulfill ${requests.length} Requests`}
+        </button>
+        {onClearSelection && (
+          <button
+            onClick={onClearSelection}
+            disabled={isLoading}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            Clear Selection
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { useChainId } from 'wagmi'
+import { Abi, createPublicClient, http } from 'viem'
+import { RandomnessRequest } from '../../types/anyrand/randomness-request'
+import { getDeployment } from '@/lib/deployments'
+import { CallbackReplay, diagnoseCallbackFailure, replayCallback } from '@/lib/callback-diagnostics'
+
+interface CallbackDiagnosticsProps {
+  request: RandomnessRequest
+}
+
+// Accepts a bare ABI or a compiler artifact (hardhat, foundry) containing one
+function parseAbi(text: string): Abi | undefined {
+  if (!text.trim()) return undefined
+  try {
+    const parsed = JSON.parse(text)
+    const abi = Array.isArray(parsed) ? parsed : parsed.abi
+    return Array.isArray(abi) ? abi : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export function CallbackDiagnostics({ request }: CallbackDiagnosticsProps) {
+  const chainId = useChainId()
+  const [abiText, setAbiText] = useState('')
+  const [forkRpcUrl, setForkRpcUrl] = useState('http://127.0.0.1:8545')
+  const [replay, setReplay] = useState<CallbackReplay | null>(null)
+  const [replayError, setReplayError] = useState<string | null>(null)
+  const [isReplaying, setIsReplaying] = useState(false)
+
+  const consumerAbi = useMemo(() => parseAbi(abiText), [abiText])
+  const failure = request.fulfillment?.callbackFailure
+  const diagnosis = useMemo(
+    () => failure && diagnoseCallbackFailure(failure, consumerAbi),
+    [failure, consumerAbi]
+  )
+  const anyrand = getDeployment(chainId)?.anyrand
+
+  const handleReplay = async () => {
+    if (!anyrand || !request.fulfillment) return
+    setIsReplaying(true)
+    setReplay(null)
+    setReplayError(null)
+    try {
+      const traceClient = createPublicClient({ transport: http(forkRpcUrl) })
+      setReplay(await replayCallback(traceClient, {
+        anyrand,
+        requester: request.requester,
+        requestId: request.id,
+        randomness: request.fulfillment.randomness,
+        gasLimit: request.callbackGasLimit,
+        consumerAbi
+      }))
+    } catch (error) {
+      setReplayError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setIsReplaying(false)
+    }
+  }
+
+  return (
+    // Inputs shouldn't trigger the click handler of the card this is shown in
+    <div
+      className="mt-3 pt-3 border-t border-red-200 dark:border-red-800 text-sm"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <h4 className="font-medium text-red-800 dark:text-red-200 mb-2">Callback Failure</h4>
+
+      {diagnosis && failure ? (
+        <div className="space-y-2">
+          <p className="text-gray-900 dark:text-white">{diagnosis.summary}</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+            <div>
+              <span className="text-gray-500 dark:text-gray-400">Gas used:</span>
+              <span className="ml-1 font-mono text-gray-900 dark:text-white">
+                {failure.actualGasUsed.toLocaleString()} / {failure.gasLimit.toLocaleString()} (
+                {(diagnosis.gasUsedRatio * 100).toFixed(1)}%)
+              </span>
+            </div>
+            <div>
+              <span className="text-gray-500 dark:text-gray-400">Revert data (first 32 bytes):</span>
+              <p className="font-mono text-gray-900 dark:text-white break-all">{failure.retdata}</p>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <p className="text-gray-600 dark:text-gray-400">
+          The failure details weren&apos;t indexed for this request.
+        </p>
+      )}
+
+      <details className="mt-3">
+        <summary className="cursor-pointer text-blue-600 dark:text-blue-400">
+          Identify custom errors &amp; replay the callback
+        </summary>
+        <div className="mt-2 space-y-2">
+          <label className="block text-xs text-gray-500 dark:text-gray-400">
+            Consumer ABI (JSON, or a compiler artifact)
+            <textarea
+              value={abiText}
+              onChange={(e) => setAbiText(e.target.value)}
+              rows={3}
+              className={`mt-1 w-full font-mono text-xs rounded-md border px-2 py-1 dark:bg-gray-700 dark:text-white ${
+                abiText && !consumerAbi ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
+              }`}
+            />
+          </label>
+          <label className="block text-xs text-gray-500 dark:text-gray-400">
+            RPC with <code>debug_traceCall</code>, e.g. a hardhat node forked at block{' '}
+            {request.fulfillment ? (request.fulfillment.blockNumber - 1n).toString() : '-'}
+            <input
+              value={forkRpcUrl}
+              onChange={(e) => setForkRpcUrl(e.target.value)}
+              className="mt-1 w-full font-mono text-xs rounded-md border border-gray-300 dark:border-gray-600 px-2 py-1 dark:bg-gray-700 dark:text-white"
+            />
+          </label>
+          <button
+            onClick={handleReplay}
+            disabled={isReplaying || !anyrand || !request.fulfillment}
+            className="px-3 py-1 text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isReplaying ? 'Replaying...' : 'Replay Callback'}
+          </button>
+
+          {replayError && (
+            <p className="text-xs text-red-600 dark:text-red-400 break-all">{replayError}</p>
+          )}
+          {replay && (
+            <div className="text-xs space-y-1">
+              <p className="text-gray-900 dark:text-white">
+                {replay.success
+                  ? 'The callback succeeds when replayed; the failure depended on state at the time of fulfilment.'
+                  : replay.error?.message ?? 'Reverted with an error that is not in the supplied ABI.'}
+              </p>
+              <p className="text-gray-500 dark:text-gray-400">
+                Gas used: {replay.gasUsed.toLocaleString()}
+              </p>
+              {!replay.success && (
+                <p className="font-mono text-gray-900 dark:text-white break-all">{replay.returnData}</p>
+              )}
+            </div>
+          )}
+        </div>
+      </details>
+    </div>
+  )
+}
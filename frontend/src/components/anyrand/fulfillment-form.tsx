@@ -1,9 +1,12 @@
 'use client'
 
 import React, { useState, useCallback, useEffect } from 'react'
+import { useChainId } from 'wagmi'
 import { useFulfillRequest, calculateOperatorReward } from '../../hooks/anyrand/use-fulfill-request'
+import { useErrorHandling } from '../../hooks/anyrand/use-error-handling'
 import { RandomnessRequest, getStatusText, canFulfillRequest } from '../../types/anyrand/randomness-request'
 import { FulfillRequestResult, ContractError } from '../../types/anyrand/frontend-api'
+import { getDeployment } from '@/lib/deployments'
 
 interface FulfillmentFormProps {
   request: RandomnessRequest
@@ -23,6 +26,8 @@ export function FulfillmentForm({
   className = ''
 }: FulfillmentFormProps) {
   const { fulfill, isLoading, error, canFulfill } = useFulfillRequest()
+  const { parseError } = useErrorHandling()
+  const chainId = useChainId()
 
   const [estimatedReward, setEstimatedReward] = useState<bigint>(0n)
   const [gasCost, setGasCost] = useState<bigint>(0n)
@@ -74,12 +79,12 @@ export function FulfillmentForm({
     try {
       console.log('=== STARTING FULFILLMENT PROCESS ===')
 
-      // Get consumer contract address from environment (like quickstart script)
-      const consumerAddress = process.env.NEXT_PUBLIC_CONSUMER_SCROLL_SEPOLIA_ADDRESS
+      // Example consumer of the deployment on this chain (like quickstart script)
+      const consumerAddress = getDeployment(chainId)?.consumer
 
       if (!consumerAddress) {
-        console.error('Consumer address not found in environment')
-        throw new Error('Consumer contract address not found in environment')
+        console.error('Consumer address not found in deployment registry')
+        throw new Error(`No consumer contract deployed on chain ${chainId}`)
       }
 
       console.log('=== FULFILLMENT FORM DEBUG ===')
@@ -162,15 +167,10 @@ export function FulfillmentForm({
         stack: err instanceof Error ? err.stack : 'No stack trace'
       })
 
-      const contractError: ContractError = {
-        code: 'FULFILLMENT_FAILED',
-        message: err instanceof Error ? err.message : 'Unknown error',
-        userMessage: 'Failed to fulfill randomness request. Please try again.',
-        retry: () => handleFulfill()
-      }
+      const contractError: ContractError = { ...parseError(err), retry: () => handleFulfill() }
       onFulfillError?.(contractError)
     }
-  }, [request, isFulfillable, disabled, isLoading, fulfill, onFulfillSuccess, onFulfillError])
+  }, [request, chainId, isFulfillable, disabled, isLoading, fulfill, onFulfillSuccess, onFulfillError, parseError])
 
   const formatTimeRemaining = (seconds: number): string => {
     if (seconds <= 0) return 'Deadline passed'
@@ -337,7 +337,7 @@ export function FulfillmentForm({
       {/* Error Display */}
       {error && (
         <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-4 mb-6">
-          <p className="text-sm text-red-600 dark:text-red-400">{error.message}</p>
+          <p className="text-sm text-red-600 dark:text-red-400">{parseError(error).userMessage}</p>
         </div>
       )}
 
@@ -0,0 +1,46 @@
+'use client'
+
+import React from 'react'
+import { LiveRequestsHook } from '../../types/anyrand/frontend-api'
+
+interface LiveIndicatorProps {
+  live: LiveRequestsHook
+  enabled: boolean
+  onToggle: () => void
+  className?: string
+}
+
+const modeLabels = {
+  websocket: 'Live',
+  polling: 'Live (polling)'
+}
+
+// Shows whether requests are being updated live, with a switch to pause them
+export function LiveIndicator({ live, enabled, onToggle, className = '' }: LiveIndicatorProps) {
+  const title = !enabled
+    ? 'Live updates are paused'
+    : live.mode === 'polling'
+      ? "Polling for new events, as the network's WebSocket RPC isn't available"
+      : live.lastEventAt
+        ? `Last event at ${live.lastEventAt.toLocaleTimeString()}`
+        : 'Waiting for new events'
+
+  return (
+    <button
+      onClick={onToggle}
+      title={title}
+      className={`inline-flex items-center space-x-2 px-2 py-1 text-xs font-medium rounded-full border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 ${className}`}
+    >
+      <span
+        className={`w-2 h-2 rounded-full ${
+          !enabled || !live.mode
+            ? 'bg-gray-400'
+            : live.mode === 'websocket'
+              ? 'bg-green-500 animate-pulse'
+              : 'bg-yellow-500 animate-pulse'
+        }`}
+      />
+      <span>{enabled && live.mode ? modeLabels[live.mode] : 'Paused'}</span>
+    </button>
+  )
+}
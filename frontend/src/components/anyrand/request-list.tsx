@@ -1,9 +1,12 @@
 'use client'
 
 import React, { useState, useCallback } from 'react'
+import Link from 'next/link'
+import { toHex } from 'viem'
 import { useRequestsQuery } from '../../hooks/anyrand/use-requests-query'
 import { RandomnessRequest, getStatusText, RequestStatus } from '../../types/anyrand/randomness-request'
 import { RequestQueryFilters } from '../../types/anyrand/frontend-api'
+import { CallbackDiagnostics } from './callback-diagnostics'
 
 interface RequestListProps {
   filters?: RequestQueryFilters
@@ -126,11 +129,28 @@ function RequestCard({ request, onClick, onSelect, selected, selectable }: Reque
                   {request.fulfillment.randomness.toString()}
                 </p>
               </div>
+              <div>
+                <span className="text-gray-500 dark:text-gray-400">DRAND Round:</span>
+                <p className="text-gray-900 dark:text-white">
+                  {request.fulfillment.round.toString()}
+                </p>
+              </div>
+              {/* Unknown if the fulfilment didn't call Anyrand directly */}
+              {request.fulfillment.signature.some((point) => point !== 0n) && (
+                <div className="md:col-span-2">
+                  <span className="text-gray-500 dark:text-gray-400">Signature:</span>
+                  <p className="font-mono text-xs text-gray-900 dark:text-white break-all">
+                    {request.fulfillment.signature.map((point) => toHex(point, { size: 32 })).join(', ')}
+                  </p>
+                </div>
+              )}
             </div>
           </div>
         )}
       </div>
 
+      {request.status === RequestStatus.Failed && <CallbackDiagnostics request={request} />}
+
       {/* Action indicators */}
       <div className="flex justify-end mt-3 space-x-2">
         {request.status === RequestStatus.Pending && isPastDeadline && (
@@ -156,21 +176,29 @@ function RequestCard({ request, onClick, onSelect, selected, selectable }: Reque
           </svg>
           View Tx
         </button>
+
+        <Link
+          href={`/anyrand/request/${request.id.toString()}`}
+          onClick={(e) => e.stopPropagation()}
+          className="inline-flex items-center px-2 py-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:text-blue-500 dark:hover:text-blue-300"
+        >
+          Details
+        </Link>
       </div>
     </div>
   )
 }
 
 export function RequestList({
-  filters: _filters,
-  pageSize: _pageSize = 10,
+  filters,
+  pageSize = 10,
   showUserOnly = false,
   onRequestClick,
   onRequestSelect,
   selectable = false,
   className = ''
 }: RequestListProps) {
-  const { requests } = useRequestsQuery()
+  const { requests, updateQueryParams } = useRequestsQuery({ filters, pageSize })
   const [selectedRequests, setSelectedRequests] = useState<Set<string>>(new Set())
 
   // Handle request selection
@@ -319,6 +347,7 @@ export function RequestList({
 
           <div className="flex space-x-2">
             <button
+              onClick={() => updateQueryParams({ page: requests.currentPage - 1 })}
               disabled={!requests.hasPreviousPage}
               className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
@@ -330,6 +359,7 @@ export function RequestList({
             </span>
 
             <button
+              onClick={() => updateQueryParams({ page: requests.currentPage + 1 })}
               disabled={!requests.hasNextPage}
               className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
@@ -3,8 +3,12 @@
 import React, { useState, useCallback, useEffect } from 'react'
 import { useSubmitRequest } from '../../hooks/anyrand/use-submit-request'
 import { useContractConstraints } from '../../hooks/anyrand/use-contract-constraints'
+import { useCallbackGasEstimate } from '../../hooks/anyrand/use-callback-gas-estimate'
+import { useRequestQuote } from '../../hooks/anyrand/use-request-quote'
+import { useErrorHandling } from '../../hooks/anyrand/use-error-handling'
+import { formatGwei } from 'viem'
 // import { isValidDeadline, isValidCallbackGasLimit } from '../../types/anyrand/randomness-request'
-import { SubmitRequestResult, ContractError } from '../../types/anyrand/frontend-api'
+import { SubmitRequestResult, ContractError, SimulationResult } from '../../types/anyrand/frontend-api'
 
 interface RequestSubmissionFormProps {
   onSubmitSuccess?: (result: SubmitRequestResult) => void
@@ -36,7 +40,9 @@ export function RequestSubmissionForm({
   className = ''
 }: RequestSubmissionFormProps) {
   const { submit, simulate, isLoading, error: _error, estimatedFee } = useSubmitRequest()
-  const { maxCallbackGasLimit: _maxCallbackGasLimit, maxDeadlineDelta: _maxDeadlineDelta } = useContractConstraints()
+  const { maxCallbackGasLimit, maxDeadlineDelta: _maxDeadlineDelta } = useContractConstraints()
+  const gasEstimate = useCallbackGasEstimate()
+  const { parseError } = useErrorHandling()
 
   // Form state - using fixed values from quickstart script
   const [formData, setFormData] = useState<FormData>(() => {
@@ -50,9 +56,15 @@ export function RequestSubmissionForm({
     }
   })
 
+  // Quoted at the same (fast) gas price that the request will be sent with
+  const quote = useRequestQuote(
+    /^\d+$/.test(formData.callbackGasLimit) ? BigInt(formData.callbackGasLimit) : undefined
+  )
+  const quotedFee = quote.data?.scenarios.fast
+
   const [errors, setErrors] = useState<FormErrors>({})
   const [isSimulating, setIsSimulating] = useState(false)
-  const [lastSimulation, setLastSimulation] = useState<unknown>(null)
+  const [lastSimulation, setLastSimulation] = useState<SimulationResult | null>(null)
 
   // Validate form - simplified, removed problematic validation
   const validateForm = useCallback((): boolean => {
@@ -76,7 +88,8 @@ export function RequestSubmissionForm({
         setIsSimulating(true)
         try {
           const params = {
-            deadline: BigInt(Math.floor(new Date(formData.deadline).getTime() / 1000)),
+            // Same deadline that submitting would use
+            deadline: BigInt(Math.floor(Date.now() / 1000) + 120),
             callbackGasLimit: BigInt(formData.callbackGasLimit)
           }
           const result = await simulate(params)
@@ -102,13 +115,11 @@ export function RequestSubmissionForm({
     }
 
     try {
-      // Use the exact same parameters as quickstart script
-      const callbackGasLimit = 100000 // Fixed from quickstart
       const deadline = Math.floor(Date.now() / 1000) + 120 // 2 minutes from now, calculated at submit time
 
       const params = {
         deadline: BigInt(deadline),
-        callbackGasLimit: BigInt(callbackGasLimit)
+        callbackGasLimit: BigInt(formData.callbackGasLimit)
       }
 
       const result = await submit(params)
@@ -117,21 +128,16 @@ export function RequestSubmissionForm({
       // Reset form on success
       const now = new Date()
       const newDeadline = new Date(now.getTime() + 2 * 60 * 1000) // 2 minutes from now
-      setFormData({
+      setFormData(prev => ({
         deadline: newDeadline.toISOString().slice(0, 16),
-        callbackGasLimit: '100000' // Fixed to match quickstart
-      })
+        callbackGasLimit: prev.callbackGasLimit
+      }))
     } catch (err) {
-      const contractError: ContractError = {
-        code: 'SUBMISSION_FAILED',
-        message: err instanceof Error ? err.message : 'Unknown error',
-        userMessage: 'Failed to submit randomness request. Please try again.',
-        retry: () => handleSubmit(e)
-      }
+      const contractError: ContractError = { ...parseError(err), retry: () => handleSubmit(e) }
       setErrors({ general: contractError.userMessage })
       onSubmitError?.(contractError)
     }
-  }, [disabled, isLoading, submit, onSubmitSuccess, onSubmitError])
+  }, [disabled, isLoading, submit, onSubmitSuccess, onSubmitError, parseError, formData.callbackGasLimit])
 
   const isFormValid = formData.deadline && formData.callbackGasLimit
 
@@ -174,19 +180,43 @@ export function RequestSubmissionForm({
             id="gasLimit"
             value={formData.callbackGasLimit}
             onChange={(e) => handleFieldChange('callbackGasLimit', e.target.value)}
-            disabled={true}
-            readOnly={true}
-            min="100000"
-            max="1000000"
+            disabled={disabled}
+            min="1000"
+            max={maxCallbackGasLimit.toString()}
             step="1000"
-            className={`w-full px-3 py-2 border rounded-md shadow-sm bg-gray-100 dark:bg-gray-600 text-gray-700 dark:text-gray-300 cursor-not-allowed border-gray-300 dark:border-gray-600`}
+            className={`w-full px-3 py-2 border rounded-md shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white border-gray-300 dark:border-gray-600`}
           />
           {errors.callbackGasLimit && (
             <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.callbackGasLimit}</p>
           )}
-          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-            Fixed to 100,000 (matches quickstart script)
-          </p>
+          {gasEstimate.isLoading ? (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Simulating the consumer callback...</p>
+          ) : gasEstimate.data ? (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              The consumer&apos;s callback used {gasEstimate.data.gasUsed.toLocaleString()} gas when simulated.
+              Recommended: {gasEstimate.data.recommended.toLocaleString()}
+              {gasEstimate.data.capped && ' (capped at the maximum callback gas limit)'}
+              {formData.callbackGasLimit !== gasEstimate.data.recommended.toString() && (
+                <button
+                  type="button"
+                  onClick={() => handleFieldChange('callbackGasLimit', gasEstimate.data!.recommended.toString())}
+                  className="ml-2 text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Use
+                </button>
+              )}
+            </p>
+          ) : gasEstimate.error ? (
+            <p className="mt-1 text-xs text-yellow-600 dark:text-yellow-400">
+              Couldn&apos;t simulate the consumer&apos;s callback: {gasEstimate.error.message}
+            </p>
+          ) : null}
+          {gasEstimate.data && /^\d+$/.test(formData.callbackGasLimit) &&
+            BigInt(formData.callbackGasLimit) < gasEstimate.data.gasUsed && (
+            <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+              This is below what the callback needs, so it will fail with RandomnessCallbackFailed.
+            </p>
+          )}
         </div>
 
         {/* Fee Estimation */}
@@ -199,26 +229,42 @@ export function RequestSubmissionForm({
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-500"></div>
               <span className="text-sm text-gray-600 dark:text-gray-400">Calculating...</span>
             </div>
-          ) : estimatedFee ? (
+          ) : quotedFee || estimatedFee ? (
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600 dark:text-gray-400">Total Fee:</span>
                 <span className="font-mono text-gray-900 dark:text-white">
-                  {(Number(estimatedFee) / 1e18).toFixed(6)} ETH
+                  {(Number(quotedFee?.value ?? estimatedFee) / 1e18).toFixed(6)} ETH
                 </span>
               </div>
-              {lastSimulation?.feeBreakdown && (
+              {quotedFee && (
+                <div className="flex justify-between text-xs">
+                  <span className="text-gray-500 dark:text-gray-500">At Gas Price:</span>
+                  <span className="font-mono">{formatGwei(quotedFee.gasPrice)} gwei</span>
+                </div>
+              )}
+              {lastSimulation?.success && !lastSimulation.feeBreakdown.capped && (
                 <>
                   <div className="flex justify-between text-xs">
-                    <span className="text-gray-500 dark:text-gray-500">Base Fee:</span>
+                    <span className="text-gray-500 dark:text-gray-500">Fulfilment Gas:</span>
                     <span className="font-mono">
                       {(Number(lastSimulation.feeBreakdown.baseFee) / 1e18).toFixed(6)} ETH
                     </span>
                   </div>
+                  {lastSimulation.feeBreakdown.l1Fee > 0n && (
+                    <div className="flex justify-between text-xs">
+                      <span className="text-gray-500 dark:text-gray-500">Fulfilment L1 Data Fee:</span>
+                      <span className="font-mono">
+                        {(Number(lastSimulation.feeBreakdown.l1Fee) / 1e18).toFixed(6)} ETH
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-xs">
-                    <span className="text-gray-500 dark:text-gray-500">Gas Cost:</span>
+                    <span className="text-gray-500 dark:text-gray-500">
+                      Premium ({(Number(lastSimulation.feeBreakdown.requestPremiumMultiplierBps - 10000n) / 100).toFixed(0)}% of cost):
+                    </span>
                     <span className="font-mono">
-                      {(Number(BigInt(formData.callbackGasLimit) * lastSimulation.feeBreakdown.gasPrice) / 1e18).toFixed(6)} ETH
+                      {(Number(lastSimulation.feeBreakdown.protocolFee) / 1e18).toFixed(6)} ETH
                     </span>
                   </div>
                 </>
@@ -228,6 +274,12 @@ export function RequestSubmissionForm({
             <span className="text-sm text-gray-500 dark:text-gray-500">Fee will be calculated automatically</span>
           )}
 
+          {lastSimulation && !lastSimulation.success && lastSimulation.revertReason && (
+            <p className="mt-3 text-xs text-red-600 dark:text-red-400">
+              {lastSimulation.revertReason}
+            </p>
+          )}
+
           {lastSimulation?.warnings && lastSimulation.warnings.length > 0 && (
             <div className="mt-3 space-y-1">
               {lastSimulation.warnings.map((warning: string, index: number) => (
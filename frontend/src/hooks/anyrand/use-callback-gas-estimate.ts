@@ -0,0 +1,33 @@
+import { useQuery } from '@tanstack/react-query'
+import { useChainId, usePublicClient } from 'wagmi'
+import { Address, isAddressEqual } from 'viem'
+import { ANYRAND_CONSUMER_RANDOMNESS_SLOT } from 'anyrand-sdk'
+import { AnyrandViemClient } from 'anyrand-sdk/viem'
+import { getDeployment } from '@/lib/deployments'
+
+// Recommended callback gas limit for a consumer (by default the deployment's
+// AnyrandConsumer), from simulating Anyrand calling its receiveRandomness
+export function useCallbackGasEstimate(consumer?: Address, inflightMappingSlot?: bigint) {
+  const chainId = useChainId()
+  const publicClient = usePublicClient()
+  const deployment = getDeployment(chainId)
+  const target = consumer ?? deployment?.consumer
+  // The deployment's consumer is known to mark in-flight requests in `randomness`
+  const slot =
+    inflightMappingSlot ??
+    (target && deployment?.consumer && isAddressEqual(target, deployment.consumer)
+      ? ANYRAND_CONSUMER_RANDOMNESS_SLOT
+      : undefined)
+
+  return useQuery({
+    queryKey: ['anyrand', 'callback-gas', chainId, target, slot?.toString()],
+    queryFn: () =>
+      new AnyrandViemClient(deployment!.anyrand, publicClient!).estimateCallbackGas({
+        consumer: target!,
+        inflightMappingSlot: slot
+      }),
+    enabled: Boolean(publicClient && deployment && target),
+    staleTime: 300000, // 5 minutes
+    retry: false
+  })
+}
@@ -1,4 +1,5 @@
 import { useReadContract, useChainId } from 'wagmi'
+import { anyrandAbi } from 'anyrand-sdk'
 import { SUPPORTED_CHAINS } from '../../lib/constants'
 
 export interface ContractConstraints {
@@ -15,29 +16,13 @@ export function useContractConstraints(): ContractConstraints {
 
   const { data: maxCallbackGasLimit, isLoading: isLoadingGasLimit, isError: isErrorGasLimit, error: errorGasLimit } = useReadContract({
     address: currentChain?.contracts?.anyrand?.address,
-    abi: [
-      {
-        inputs: [],
-        name: 'maxCallbackGasLimit',
-        outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-        stateMutability: 'view',
-        type: 'function'
-      }
-    ] as const,
+    abi: anyrandAbi,
     functionName: 'maxCallbackGasLimit'
   })
 
   const { data: maxDeadlineDelta, isLoading: isLoadingDeadline, isError: isErrorDeadline, error: errorDeadline } = useReadContract({
     address: currentChain?.contracts?.anyrand?.address,
-    abi: [
-      {
-        inputs: [],
-        name: 'maxDeadlineDelta',
-        outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-        stateMutability: 'view',
-        type: 'function'
-      }
-    ] as const,
+    abi: anyrandAbi,
     functionName: 'maxDeadlineDelta'
   })
 
@@ -0,0 +1,18 @@
+import { ErrorHandlingHook } from '../../types/anyrand/frontend-api'
+import {
+  isContractError,
+  isNetworkError,
+  isUserRejection,
+  parseContractError
+} from '@/lib/contract-errors'
+
+// Classifies errors from contract calls & transactions, decoding Anyrand's
+// custom errors into messages a user can act on
+export function useErrorHandling(): ErrorHandlingHook {
+  return {
+    parseError: parseContractError,
+    isNetworkError,
+    isContractError,
+    isUserRejection
+  }
+}
@@ -1,52 +1,34 @@
 import { useState, useCallback } from 'react'
-import { useAccount, useChainId, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
-import { parseEther } from 'viem'
+import { useAccount, useChainId, usePublicClient, useWalletClient, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
+import { Address, Hex, PublicClient, parseEther } from 'viem'
+import { anyrandAbi, anyrandErrorAbi } from 'anyrand-sdk'
+import { AnyrandViemClient } from 'anyrand-sdk/viem'
 import {
   FulfillRequestParams,
   FulfillRequestResult,
   RequestFulfillmentHook,
-  ContractError
+  BatchFulfillmentItem
 } from '../../types/anyrand/frontend-api'
 import { canFulfillRequest, RandomnessRequest } from '../../types/anyrand/randomness-request'
 import { DrandService } from '../../utils/drand-service'
-
-// Contract ABI fragment for fulfillment
-const ANYRAND_ABI = [
-  {
-    name: 'fulfillRandomness',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [
-      { name: 'requestId', type: 'uint256' },
-      { name: 'requester', type: 'address' },
-      { name: 'pubKeyHash', type: 'bytes32' },
-      { name: 'round', type: 'uint256' },
-      { name: 'callbackGasLimit', type: 'uint256' },
-      { name: 'signature', type: 'uint256[2]' }
-    ],
-    outputs: [
-      { name: 'randomness', type: 'uint256' }
-    ]
-  }
-] as const
-
-// Contract addresses by chain ID
-const CONTRACT_ADDRESSES: Record<number, string> = {
-  534351: process.env.NEXT_PUBLIC_ANYRAND_SCROLL_SEPOLIA_ADDRESS || '', // Scroll Sepolia
-  31337: 'YOUR_LOCALHOST_ADDRESS' // localhost
-}
+import { getDeployment } from '@/lib/deployments'
+import { parseContractError } from '@/lib/contract-errors'
+import { fulfillBatch as fulfillRequestsBatch } from '@/lib/batch-fulfillment'
 
 export function useFulfillRequest(): RequestFulfillmentHook {
   const { address } = useAccount()
   const chainId = useChainId()
+  const publicClient = usePublicClient()
+  const { data: walletClient } = useWalletClient()
   const [error, setError] = useState<Error | null>(null)
+  const [batchProgress, setBatchProgress] = useState<BatchFulfillmentItem[]>([])
 
-  const contractAddress = CONTRACT_ADDRESSES[chainId]
+  const contractAddress = getDeployment(chainId)?.anyrand
 
   // Contract write hook
   const {
     data: hash,
-    writeContract,
+    writeContractAsync,
     isPending: isWriteLoading,
     error: writeError
   } = useWriteContract()
@@ -58,7 +40,10 @@ export function useFulfillRequest(): RequestFulfillmentHook {
     hash: hash,
   })
 
-  const isLoading = isWriteLoading || isTransactionLoading
+  const isBatchRunning = batchProgress.some(
+    (item) => item.status === 'queued' || item.status === 'submitted'
+  )
+  const isLoading = isWriteLoading || isTransactionLoading || isBatchRunning
 
   // Check if a request can be fulfilled
   const canFulfill = useCallback((requestId: bigint): boolean => {
@@ -102,7 +87,15 @@ export function useFulfillRequest(): RequestFulfillmentHook {
 
       // CRITICAL: Verify the signature before sending to contract
       console.log('=== VERIFYING SIGNATURE BEFORE SUBMISSION ===')
-      const isValid = await validateDrandSignature(params.round, params.signature, params.pubKeyHash)
+      if (!publicClient) {
+        throw new Error('No RPC client for current network')
+      }
+      const beaconPublicKey = await getBeaconPublicKey(
+        publicClient,
+        contractAddress as Address,
+        params.pubKeyHash as Hex
+      )
+      const isValid = await validateDrandSignature(params.round, params.signature, beaconPublicKey)
       if (!isValid) {
         console.error('❌ Signature verification failed! Not submitting to contract.')
         throw new Error('Invalid DRAND signature - verification failed')
@@ -121,9 +114,10 @@ export function useFulfillRequest(): RequestFulfillmentHook {
 
       console.log('=== CALLING WRITE CONTRACT ===')
       // Submit the fulfillment transaction (using params signature, not generating new mock data)
-      const txHash = await writeContract({
+      const txHash = await writeContractAsync({
         address: contractAddress as `0x${string}`,
-        abi: ANYRAND_ABI,
+        // Incl. the beacon's errors, so that reverts such as `InvalidSignature` are decoded
+        abi: [...anyrandAbi, ...anyrandErrorAbi],
         functionName: 'fulfillRandomness',
         args: [
           params.requestId,
@@ -149,51 +143,79 @@ export function useFulfillRequest(): RequestFulfillmentHook {
     } catch (err) {
       console.error('=== FULFILL HOOK ERROR ===')
       console.error('Error in fulfill hook:', err)
-      console.error('Error details:', {
-        name: err instanceof Error ? err.name : 'Unknown',
-        message: err instanceof Error ? err.message : 'Unknown error',
-        stack: err instanceof Error ? err.stack : 'No stack trace'
-      })
+      // Rethrown as is, so that callers can decode it with `parseContractError`
+      const { userMessage } = parseContractError(err)
+      console.error('Decoded error:', userMessage)
+      setError(err instanceof Error ? err : new Error(userMessage))
+      throw err
+    }
+  }, [contractAddress, address, canFulfill, writeContractAsync, publicClient])
 
-      const error = err instanceof Error ? err : new Error('Unknown error')
-      setError(error)
-      throw error
+  // Fulfil several requests, fetching & verifying each round's signature once
+  const fulfillBatch = useCallback(async (requests: RandomnessRequest[]) => {
+    if (!contractAddress || !publicClient) {
+      throw new Error('Contract not deployed on current network')
     }
-  }, [contractAddress, address, canFulfill, writeContract])
+    if (!walletClient || !address) {
+      throw new Error('Wallet not connected')
+    }
+    setError(null)
+
+    const getSignature = async (pubKeyHash: Hex, round: bigint) => {
+      const { generateTestnetBeaconSignature } = await import('../../utils/bls-signature')
+      const [signature, beaconPublicKey] = await Promise.all([
+        generateTestnetBeaconSignature(round, pubKeyHash),
+        getBeaconPublicKey(publicClient, contractAddress as Address, pubKeyHash)
+      ])
+      if (!(await validateDrandSignature(round, signature, beaconPublicKey))) {
+        throw new Error(`Invalid DRAND signature for round ${round}`)
+      }
+      return signature
+    }
+
+    return fulfillRequestsBatch(publicClient, walletClient, requests, {
+      anyrand: contractAddress as Address,
+      account: address,
+      getSignature,
+      onProgress: setBatchProgress
+    })
+  }, [contractAddress, publicClient, walletClient, address])
 
   // Combine all errors
   const combinedError = error || writeError
 
   return {
     fulfill,
+    fulfillBatch,
+    batchProgress,
     isLoading,
     error: combinedError,
     canFulfill
   }
 }
 
-// Helper function to validate DRAND signature
+// Helper function to read the public key of the beacon a request was made against
+export async function getBeaconPublicKey(
+  publicClient: PublicClient,
+  anyrandAddress: Address,
+  pubKeyHash: Hex
+): Promise<Hex> {
+  const beacon = await new AnyrandViemClient(anyrandAddress, publicClient).getBeacon(pubKeyHash)
+  return beacon.publicKey
+}
+
+// Helper function to validate DRAND signature against the on-chain beacon public key,
+// so that an invalid signature is rejected before paying gas for a revert
 export async function validateDrandSignature(
   round: bigint,
   signature: [bigint, bigint],
-  pubKeyHash: string
+  beaconPublicKey: string
 ): Promise<boolean> {
   try {
     console.log('Validating DRAND signature...')
     console.log('- Round:', round.toString())
     console.log('- Signature X:', '0x' + signature[0].toString(16))
     console.log('- Signature Y:', '0x' + signature[1].toString(16))
-    console.log('- PubKey Hash:', pubKeyHash)
-
-    // Check if this is a mock signature (will fail verification)
-    const isMockSignature = signature[0].toString(16).length < 64 ||
-                           signature[1].toString(16).length < 64
-
-    if (isMockSignature) {
-      console.warn('⚠️ Detected mock signature - will fail contract verification')
-      // Still return true to allow testing, but warn
-      return true
-    }
 
     // Use the DrandService to verify
     const drandService = DrandService.getInstance()
@@ -202,7 +224,7 @@ export async function validateDrandSignature(
     const signatureHex = signature[0].toString(16).padStart(64, '0') +
                         signature[1].toString(16).padStart(64, '0')
 
-    const isValid = await drandService.verifySignature(Number(round), signatureHex)
+    const isValid = await drandService.verifySignature(Number(round), signatureHex, beaconPublicKey)
 
     if (isValid) {
       console.log('✅ DRAND signature is valid')
@@ -213,9 +235,7 @@ export async function validateDrandSignature(
     return isValid
   } catch (error) {
     console.error('Error during signature validation:', error)
-    // In case of verification errors, log but allow to proceed for testing
-    console.warn('⚠️ Signature verification failed, but allowing for testing purposes')
-    return true
+    return false
   }
 }
 
@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { useChainId, usePublicClient } from 'wagmi'
+import { createPublicClient, webSocket } from 'viem'
+import { LiveRequestsHook, PaginatedQuery, RequestDetail } from '../../types/anyrand/frontend-api'
+import { RandomnessRequest } from '../../types/anyrand/randomness-request'
+import { getDeployment } from '@/lib/deployments'
+import { applyLiveEvents, getWebSocketUrl, LiveMode, watchRequestEvents } from '@/lib/live-events'
+
+// Streams new requests, fulfilments and failures into the query cache while
+// enabled: fulfilled requests are settled straight away, so that they can't be
+// fulfilled again, and the index is synced to pick up their details
+export function useLiveRequests(enabled = true): LiveRequestsHook {
+  const chainId = useChainId()
+  const publicClient = usePublicClient()
+  const queryClient = useQueryClient()
+  const anyrand = getDeployment(chainId)?.anyrand
+  const [mode, setMode] = useState<LiveMode | null>(null)
+  const [lastEventAt, setLastEventAt] = useState<Date | null>(null)
+
+  useEffect(() => {
+    if (!enabled || !publicClient || !anyrand) {
+      setMode(null)
+      return
+    }
+
+    const resync = () => {
+      for (const key of ['requests', 'request', 'network-activity']) {
+        queryClient.invalidateQueries({ queryKey: ['anyrand', key, chainId] })
+      }
+    }
+
+    const webSocketUrl = getWebSocketUrl(chainId)
+    const webSocketClient = webSocketUrl
+      ? createPublicClient({ chain: publicClient.chain, transport: webSocket(webSocketUrl) })
+      : null
+    return watchRequestEvents({
+      address: anyrand,
+      webSocketClient,
+      httpClient: publicClient,
+      onModeChange: (next) => {
+        setMode(next)
+        // Catch up on anything missed while the WebSocket was failing
+        if (next === 'polling' && webSocketClient) resync()
+      },
+      onEvents: (events) => {
+        queryClient.setQueriesData<PaginatedQuery<RandomnessRequest>>(
+          { queryKey: ['anyrand', 'requests', chainId] },
+          (page) => page && { ...page, data: applyLiveEvents(page.data, events) }
+        )
+        queryClient.setQueriesData<RequestDetail | null>(
+          { queryKey: ['anyrand', 'request', chainId] },
+          (detail) => {
+            if (!detail) return detail
+            const [request] = applyLiveEvents([detail.request], events)
+            return request === detail.request ? detail : { request, onChainStatus: request.status }
+          }
+        )
+        setLastEventAt(new Date())
+        resync()
+      }
+    })
+  }, [enabled, chainId, publicClient, anyrand, queryClient])
+
+  return { mode, lastEventAt }
+}
@@ -1,139 +1,69 @@
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useMemo } from 'react'
 import { useQuery } from '@tanstack/react-query'
-import { useAccount, useChainId, useContractRead } from 'wagmi'
+import { useAccount, useChainId, usePublicClient } from 'wagmi'
 import { Address } from 'viem'
 import {
   StatisticsQueryHook
 } from '../../types/anyrand/frontend-api'
-import { NetworkStatistics, calculateSuccessRate, getNetworkHealthStatus } from '../../types/anyrand/network-statistics'
+import { getNetworkHealthStatus } from '../../types/anyrand/network-statistics'
 import { UserActivity, calculateUserReputation, getUserRole } from '../../types/anyrand/user-activity'
+import { getDeployment } from '@/lib/deployments'
+import { aggregateNetworkStatistics, fetchNetworkActivity } from '@/lib/network-stats'
+import { aggregateUserActivity, fetchFulfilmentCosts, getOperatorPerformance } from '@/lib/user-activity'
 
-// Contract ABI fragments for statistics
-const ANYRAND_ABI = [
-  {
-    name: 'getTotalRequests',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ name: 'total', type: 'uint256' }]
-  },
-  {
-    name: 'getPendingRequests',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [],
-    outputs: [{ name: 'pending', type: 'uint256' }]
-  },
-  {
-    name: 'getUserRequestCount',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: 'user', type: 'address' }],
-    outputs: [{ name: 'count', type: 'uint256' }]
-  }
-] as const
+// All requests & fulfilments on the current chain, shared by the statistics hooks
+function useNetworkActivity() {
+  const chainId = useChainId()
+  const publicClient = usePublicClient()
+  const deployment = getDeployment(chainId)
 
-// Contract addresses by chain ID
-const CONTRACT_ADDRESSES: Record<number, string> = {
-  534351: process.env.NEXT_PUBLIC_ANYRAND_SCROLL_SEPOLIA_ADDRESS || '', // Scroll Sepolia
-  31337: 'YOUR_LOCALHOST_ADDRESS' // localhost
+  return useQuery({
+    queryKey: ['anyrand', 'network-activity', chainId],
+    queryFn: () => fetchNetworkActivity(publicClient!, deployment!),
+    enabled: Boolean(publicClient && deployment),
+    staleTime: 60000, // 1 minute
+    refetchInterval: 300000 // 5 minutes
+  })
 }
 
 export function useNetworkStats(): StatisticsQueryHook {
   const { address } = useAccount()
   const chainId = useChainId()
 
-  const contractAddress = CONTRACT_ADDRESSES[chainId]
-
-  // Network statistics query
-  const networkStatsQuery = useQuery({
-    queryKey: ['anyrand', 'network-stats', chainId],
-    queryFn: async (): Promise<NetworkStatistics> => {
-      // In a real implementation, this would aggregate data from:
-      // 1. Contract state (total requests, pending requests)
-      // 2. Event logs (fulfillments, failures)
-      // 3. Indexer services for performance metrics
-
-      // Generate mock network statistics
-      const totalRequests = BigInt(Math.floor(Math.random() * 10000) + 1000)
-      const pendingRequests = BigInt(Math.floor(Math.random() * 100) + 10)
-      const fulfilledRequests = totalRequests - pendingRequests - BigInt(50) // Some failed
-      const failedRequests = BigInt(50)
-
-      const successRate = calculateSuccessRate(fulfilledRequests, failedRequests)
-
-      return {
-        totalRequests,
-        pendingRequests,
-        fulfilledRequests,
-        failedRequests,
-        successRate,
-        averageFulfillmentTime: Math.floor(Math.random() * 300) + 60, // 1-5 minutes
-        totalFeesCollected: BigInt('12500000000000000000'), // 12.5 ETH
-        activeOperators: Math.floor(Math.random() * 50) + 10, // 10-60 operators
-        lastUpdated: BigInt(Math.floor(Date.now() / 1000))
-      }
-    },
-    enabled: Boolean(contractAddress),
-    staleTime: 60000, // 1 minute
-    refetchInterval: 300000 // 5 minutes
-  })
+  const contractAddress = getDeployment(chainId)?.anyrand
 
-  // User activity query
+  const networkActivityQuery = useNetworkActivity()
+  const networkStats = useMemo(
+    () => networkActivityQuery.data ? aggregateNetworkStatistics(networkActivityQuery.data) : null,
+    [networkActivityQuery.data]
+  )
+
+  // User activity query, derived from the network's activity
+  const publicClient = usePublicClient()
   const userActivityQuery = useQuery({
-    queryKey: ['anyrand', 'user-activity', chainId, address],
+    queryKey: ['anyrand', 'user-activity', chainId, address, networkActivityQuery.dataUpdatedAt],
     queryFn: async (): Promise<UserActivity | null> => {
-      if (!address) return null
-
-      // In a real implementation, this would:
-      // 1. Query user's request history
-      // 2. Query user's fulfillment history
-      // 3. Calculate fees spent/earned
-      // 4. Aggregate recent activity
-
-      // Generate mock user activity
-      const requestsSubmitted = BigInt(Math.floor(Math.random() * 100) + 1)
-      const requestsFulfilled = BigInt(Math.floor(Math.random() * 50))
-      const totalFeesSpent = requestsSubmitted * BigInt('1000000000000000') // ~0.001 ETH per request
-      const totalFeesEarned = requestsFulfilled * BigInt('100000000000000') // ~0.0001 ETH per fulfillment
-      const averageRequestValue = requestsSubmitted > 0n ? totalFeesSpent / requestsSubmitted : 0n
-
-      const firstActivity = Math.floor(Date.now() / 1000) - (Number(requestsSubmitted) * 86400) // Days ago
-      const lastActivity = Math.floor(Date.now() / 1000) - Math.floor(Math.random() * 86400) // Random recent
-
-      const userActivity: UserActivity = {
-        address,
-        requestsSubmitted,
-        requestsFulfilled,
-        totalFeesSpent,
-        totalFeesEarned,
-        averageRequestValue,
-        firstActivityTimestamp: BigInt(firstActivity),
-        lastActivityTimestamp: BigInt(lastActivity),
-        activeRequests: [], // Would be populated with actual pending requests
-        recentRequests: [], // Would be populated with recent request history
-        recentFulfillments: [] // Would be populated with recent fulfillment history
-      }
+      if (!address || !networkActivityQuery.data) return null
 
-      return userActivity
+      const fulfilmentCosts = await fetchFulfilmentCosts(publicClient!, networkActivityQuery.data, address)
+      return aggregateUserActivity(networkActivityQuery.data, address, fulfilmentCosts)
     },
-    enabled: Boolean(contractAddress && address),
-    staleTime: 30000, // 30 seconds
-    refetchInterval: 120000 // 2 minutes
+    enabled: Boolean(contractAddress && address && publicClient && networkActivityQuery.data),
+    staleTime: 30000 // 30 seconds
   })
 
   const refetch = useCallback(() => {
-    networkStatsQuery.refetch()
+    networkActivityQuery.refetch()
     if (address) {
       userActivityQuery.refetch()
     }
-  }, [networkStatsQuery, userActivityQuery, address])
+  }, [networkActivityQuery, userActivityQuery, address])
 
-  const error = networkStatsQuery.error || userActivityQuery.error
-  const isLoading = networkStatsQuery.isLoading || userActivityQuery.isLoading
+  const error = networkActivityQuery.error || userActivityQuery.error
+  const isLoading = networkActivityQuery.isLoading || userActivityQuery.isLoading
 
   return {
-    networkStats: networkStatsQuery.data || null,
+    networkStats,
     userActivity: userActivityQuery.data || null,
     isLoading,
     error,
@@ -161,6 +91,7 @@ export function useUserReputation(userAddress?: Address) {
 
 export function useOperatorMetrics(operatorAddress?: Address) {
   const { userActivity } = useNetworkStats()
+  const { data: activity } = useNetworkActivity()
 
   if (!userActivity || (operatorAddress && userActivity.address !== operatorAddress)) {
     return null
@@ -168,14 +99,16 @@ export function useOperatorMetrics(operatorAddress?: Address) {
 
   const role = getUserRole(userActivity)
 
-  if (role === 'requester') {
+  if (role === 'requester' || !activity) {
     return null // Not an operator
   }
 
+  const { successRate, averageResponseTime } = getOperatorPerformance(activity, userActivity.address)
+
   return {
     totalFulfillments: userActivity.requestsFulfilled,
-    successRate: 100, // Simplified - would calculate from actual data
-    averageResponseTime: 120, // 2 minutes average
+    successRate,
+    averageResponseTime,
     totalRewardsEarned: userActivity.totalFeesEarned,
     reputation: calculateUserReputation(userActivity),
     role
@@ -205,38 +138,46 @@ export function useRealtimeStats() {
   }
 }
 
-// Hook for comparing statistics over time periods
+const PERIOD_SECONDS = {
+  '24h': 86400n,
+  '7d': 7n * 86400n,
+  '30d': 30n * 86400n
+}
+
+function formatGrowth(current: number, previous: number) {
+  if (previous === 0) return current === 0 ? '0.0%' : 'n/a'
+  return (((current / previous) - 1) * 100).toFixed(1) + '%'
+}
+
+// Hook for comparing the network's statistics now against `period` ago
 export function useStatsComparison(period: '24h' | '7d' | '30d' = '24h') {
-  const { networkStats } = useNetworkStats()
+  const { data: activity } = useNetworkActivity()
 
-  // In a real implementation, this would fetch historical data
-  // For now, generate mock comparison data
-  const generateComparisonData = useCallback(() => {
-    if (!networkStats) return null
+  return useMemo(() => {
+    if (!activity) return null
 
-    const previousPeriodMultiplier = 0.85 // Assume 15% growth
+    const current = aggregateNetworkStatistics(activity)
+    const previous = aggregateNetworkStatistics(activity, activity.latestTimestamp - PERIOD_SECONDS[period])
 
     return {
       current: {
-        totalRequests: networkStats.totalRequests,
-        successRate: networkStats.successRate,
-        averageFulfillmentTime: networkStats.averageFulfillmentTime,
-        activeOperators: networkStats.activeOperators
+        totalRequests: current.totalRequests,
+        successRate: current.successRate,
+        averageFulfillmentTime: current.averageFulfillmentTime,
+        activeOperators: current.activeOperators
       },
       previous: {
-        totalRequests: BigInt(Math.floor(Number(networkStats.totalRequests) * previousPeriodMultiplier)),
-        successRate: networkStats.successRate * 0.95, // Slightly lower
-        averageFulfillmentTime: networkStats.averageFulfillmentTime * 1.1, // Slightly slower
-        activeOperators: Math.floor(networkStats.activeOperators * 0.9) // Fewer operators
+        totalRequests: previous.totalRequests,
+        successRate: previous.successRate,
+        averageFulfillmentTime: previous.averageFulfillmentTime,
+        activeOperators: previous.activeOperators
       },
       growth: {
-        totalRequests: ((1 - previousPeriodMultiplier) * 100).toFixed(1) + '%',
-        successRate: ((networkStats.successRate / (networkStats.successRate * 0.95) - 1) * 100).toFixed(1) + '%',
-        averageFulfillmentTime: (((networkStats.averageFulfillmentTime * 1.1) / networkStats.averageFulfillmentTime - 1) * -100).toFixed(1) + '%',
-        activeOperators: ((networkStats.activeOperators / Math.floor(networkStats.activeOperators * 0.9) - 1) * 100).toFixed(1) + '%'
+        totalRequests: formatGrowth(Number(current.totalRequests), Number(previous.totalRequests)),
+        successRate: formatGrowth(current.successRate, previous.successRate),
+        averageFulfillmentTime: formatGrowth(current.averageFulfillmentTime, previous.averageFulfillmentTime),
+        activeOperators: formatGrowth(current.activeOperators, previous.activeOperators)
       }
     }
-  }, [networkStats])
-
-  return generateComparisonData()
-}
\ No newline at end of file
+  }, [activity, period])
+}
@@ -0,0 +1,50 @@
+import { useCallback, useState } from 'react'
+import { useChainId, usePublicClient } from 'wagmi'
+import { AnyrandViemClient } from 'anyrand-sdk/viem'
+import { ProofExportHook } from '../../types/anyrand/frontend-api'
+import { RandomnessRequest } from '../../types/anyrand/randomness-request'
+import { getDeployment } from '@/lib/deployments'
+import { buildRequestProof, getProofFileName } from '@/lib/request-proof'
+
+// Exports a fulfilled request's proof bundle, with the public key of the
+// beacon that it was fulfilled with
+export function useProofExport(): ProofExportHook {
+  const chainId = useChainId()
+  const publicClient = usePublicClient()
+  const deployment = getDeployment(chainId)
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+
+  const exportProof = useCallback(
+    async (request: RandomnessRequest) => {
+      if (!publicClient || !deployment) return
+      setIsExporting(true)
+      setError(null)
+      try {
+        const anyrand = new AnyrandViemClient(deployment.anyrand, publicClient)
+        const { publicKey } = await anyrand.getBeacon(request.fulfillment?.pubKeyHash ?? request.pubKeyHash)
+        const bundle = buildRequestProof(request, {
+          chainId,
+          anyrand: deployment.anyrand,
+          beaconPublicKey: publicKey
+        })
+
+        const url = URL.createObjectURL(
+          new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' })
+        )
+        const link = document.createElement('a')
+        link.href = url
+        link.download = getProofFileName(bundle)
+        link.click()
+        URL.revokeObjectURL(url)
+      } catch (err) {
+        setError(err instanceof Error ? err : new Error(String(err)))
+      } finally {
+        setIsExporting(false)
+      }
+    },
+    [chainId, publicClient, deployment]
+  )
+
+  return { exportProof, isExporting, error }
+}
@@ -0,0 +1,47 @@
+import { useCallback } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useChainId, usePublicClient } from 'wagmi'
+import { RequestState } from 'anyrand-sdk'
+import { AnyrandViemClient } from 'anyrand-sdk/viem'
+import { RequestDetail, RequestDetailHook } from '../../types/anyrand/frontend-api'
+import { RequestStatus } from '../../types/anyrand/randomness-request'
+import { getDeployment } from '@/lib/deployments'
+import { getIndexer } from '@/lib/indexer/indexer'
+
+// A single request from the index, along with its state on chain
+export function useRequestDetail(requestId: bigint | null): RequestDetailHook {
+  const chainId = useChainId()
+  const publicClient = usePublicClient()
+  const deployment = getDeployment(chainId)
+
+  const query = useQuery({
+    queryKey: ['anyrand', 'request', chainId, requestId?.toString()],
+    queryFn: async (): Promise<RequestDetail | null> => {
+      const indexer = getIndexer(publicClient!, deployment!)
+      const [, onChainState] = await Promise.all([
+        indexer.sync(),
+        new AnyrandViemClient(deployment!.anyrand, publicClient!).getRequestState(requestId!)
+      ])
+      const request = await indexer.getRequest(requestId!)
+      if (!request) {
+        if (onChainState === RequestState.Nonexistent) return null
+        throw new Error(`Request #${requestId} hasn't been indexed yet`)
+      }
+      // Both enums mirror `IAnyrand.RequestState`
+      return { request, onChainStatus: onChainState as number as RequestStatus }
+    },
+    enabled: requestId !== null && Boolean(publicClient && deployment),
+    staleTime: 0 // Syncing only fetches blocks produced since the last sync
+  })
+
+  const refetch = useCallback(() => {
+    query.refetch()
+  }, [query])
+
+  return {
+    detail: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch
+  }
+}
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query'
+import { useChainId, usePublicClient } from 'wagmi'
+import { AnyrandViemClient } from 'anyrand-sdk/viem'
+import { getDeployment } from '@/lib/deployments'
+
+// Exact request price for a callback gas limit in each fee scenario, including
+// the L1 data fee on L2s. Requests must be sent with the scenario's gas price
+// (see `getQuoteTxFees`) for the price to be exact.
+export function useRequestQuote(callbackGasLimit?: bigint) {
+  const chainId = useChainId()
+  const publicClient = usePublicClient()
+  const anyrand = getDeployment(chainId)?.anyrand
+
+  return useQuery({
+    queryKey: ['anyrand', 'request-quote', chainId, callbackGasLimit?.toString()],
+    queryFn: () =>
+      new AnyrandViemClient(anyrand!, publicClient!).getRequestQuote(callbackGasLimit!),
+    enabled: Boolean(publicClient && anyrand && typeof callbackGasLimit !== 'undefined'),
+    refetchInterval: 15000 // 15 seconds, as gas prices move
+  })
+}
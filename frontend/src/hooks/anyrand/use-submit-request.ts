@@ -1,109 +1,57 @@
 import { useState, useCallback } from 'react'
-import { useAccount, useChainId, useWriteContract, useWaitForTransactionReceipt, useReadContract } from 'wagmi'
-import { parseEther } from 'viem'
+import { useAccount, useChainId, useWriteContract, useWaitForTransactionReceipt, usePublicClient } from 'wagmi'
+import { anyrandConsumerAbi, getQuoteTxFees, ScenarioQuote } from 'anyrand-sdk'
+import { AnyrandViemClient } from 'anyrand-sdk/viem'
 import {
   SubmitRequestParams,
   SubmitRequestResult,
   RequestSubmissionHook,
   SimulationResult,
-  FeeBreakdown,
-  ContractError
+  FeeBreakdown
 } from '../../types/anyrand/frontend-api'
 import { isValidDeadline, isValidCallbackGasLimit } from '../../types/anyrand/randomness-request'
-
-// Contract ABI fragments
-const ANYRAND_ABI = [
-  {
-    name: 'getRequestPrice',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [
-      { name: 'callbackGasLimit', type: 'uint256' }
-    ],
-    outputs: [
-      { name: 'requestPrice', type: 'uint256' },
-      { name: 'effectiveFeePerGas', type: 'uint256' }
-    ]
-  }
-] as const
-
-// Consumer contract ABI
-const CONSUMER_ABI = [
-  {
-    name: 'getRandom',
-    type: 'function',
-    stateMutability: 'payable',
-    inputs: [
-      { name: 'deadline', type: 'uint256' },
-      { name: 'callbackGasLimit', type: 'uint256' }
-    ],
-    outputs: [
-      { name: 'requestId', type: 'uint256' }
-    ]
-  }
-] as const
-
-// Contract addresses by chain ID
-const ANYRAND_ADDRESSES: Record<number, string> = {
-  534351: process.env.NEXT_PUBLIC_ANYRAND_SCROLL_SEPOLIA_ADDRESS || '', // Scroll Sepolia
-  31337: 'YOUR_LOCALHOST_ADDRESS' // localhost
-}
-
-const CONSUMER_ADDRESSES: Record<number, string> = {
-  534351: process.env.NEXT_PUBLIC_CONSUMER_SCROLL_SEPOLIA_ADDRESS || '', // Scroll Sepolia
-  31337: 'YOUR_LOCALHOST_CONSUMER_ADDRESS' // localhost
-}
+import { getDeployment } from '@/lib/deployments'
+import { simulateRequest } from '@/lib/request-simulation'
+import { parseContractError } from '@/lib/contract-errors'
+import { waitForRequest } from '@/lib/request-receipt'
 
 export function useSubmitRequest(): RequestSubmissionHook {
   const { address } = useAccount()
   const chainId = useChainId()
+  const publicClient = usePublicClient()
   const [estimatedFee, setEstimatedFee] = useState<bigint | null>(null)
   const [error, setError] = useState<Error | null>(null)
 
-  const anyrandAddress = ANYRAND_ADDRESSES[chainId]
-  const consumerAddress = CONSUMER_ADDRESSES[chainId]
-
-  // Get request price from contract (using fixed gas limit from quickstart)
-  const { data: requestPriceData } = useReadContract({
-    address: anyrandAddress as `0x${string}`,
-    abi: ANYRAND_ABI,
-    functionName: 'getRequestPrice',
-    args: [100000n], // Fixed gas limit to match quickstart script
-  })
+  const deployment = getDeployment(chainId)
+  const anyrandAddress = deployment?.anyrand
+  const consumerAddress = deployment?.consumer
 
-  // Calculate estimated fee
-  const calculateFee = useCallback(async (params: SubmitRequestParams): Promise<bigint | null> => {
+  // Quote the exact fee for the request's callback gas limit. The coordinator
+  // prices requests at the transaction's gas price, so the request must be
+  // sent with the quoted gas price.
+  const calculateFee = useCallback(async (params: SubmitRequestParams): Promise<ScenarioQuote | null> => {
     try {
-      if (!anyrandAddress) {
+      if (!anyrandAddress || !publicClient) {
         throw new Error('Anyrand contract not deployed on current network')
       }
 
-      // Use actual contract pricing if available, with buffer
-      if (requestPriceData && requestPriceData[0]) {
-        const [requestPrice] = requestPriceData
-        const bufferAmount = requestPrice + parseEther('0.001') // Add 0.001 ETH buffer like quickstart
-        setEstimatedFee(bufferAmount)
-        return bufferAmount
-      }
-
-      // Fallback pricing if contract read fails
-      const baseFee = parseEther('0.001') // 0.001 ETH base fee
-      const gasPrice = parseEther('0.00000002') // 20 gwei
-      const gasCost = params.callbackGasLimit * gasPrice
-      const totalFee = baseFee + gasCost + parseEther('0.001') // Add buffer
-
-      setEstimatedFee(totalFee)
-      return totalFee
+      const quote = await new AnyrandViemClient(anyrandAddress, publicClient).getRequestQuote(
+        params.callbackGasLimit
+      )
+      // Pay a premium on the current gas price so the request is included promptly
+      const { fast } = quote.scenarios
+      setEstimatedFee(fast.value)
+      return fast
     } catch (err) {
       console.error('Fee calculation error:', err)
       return null
     }
-  }, [anyrandAddress, requestPriceData])
+  }, [anyrandAddress, publicClient])
 
   // Contract write hook
   const {
     data: hash,
-    writeContract,
+    writeContractAsync,
     isPending: isWriteLoading,
     error: writeError
   } = useWriteContract()
@@ -156,15 +104,16 @@ export function useSubmitRequest(): RequestSubmissionHook {
 
       // Calculate fee
       console.log('Calculating fee...')
-      const fee = await calculateFee(params)
-      console.log('Calculated fee:', fee ? (Number(fee) / 1e18).toFixed(6) + ' ETH' : 'null')
-      console.log('Fee in wei:', fee?.toString())
+      const quote = await calculateFee(params)
+      console.log('Calculated fee:', quote ? (Number(quote.value) / 1e18).toFixed(6) + ' ETH' : 'null')
+      console.log('Fee in wei:', quote?.value.toString())
 
-      if (!fee) {
+      if (!quote) {
         const errorMsg = 'Unable to calculate fee. Check contract connection.'
         console.error(errorMsg)
         throw new Error(errorMsg)
       }
+      const fee = quote.value
 
       // Submit transaction to consumer contract (like quickstart)
       console.log('Submitting transaction with params:')
@@ -172,127 +121,91 @@ export function useSubmitRequest(): RequestSubmissionHook {
       console.log('- Function: getRandom')
       console.log('- Args:', [params.deadline.toString(), params.callbackGasLimit.toString()])
       console.log('- Value:', fee.toString(), 'wei')
+      console.log('- Gas price:', quote.gasPrice.toString(), 'wei')
       console.log('- Gas limit: 500000')
 
-      const txHash = await writeContract({
+      const txHash = await writeContractAsync({
         address: consumerAddress as `0x${string}`,
-        abi: CONSUMER_ABI,
+        abi: anyrandConsumerAbi,
         functionName: 'getRandom',
         args: [params.deadline, params.callbackGasLimit],
         value: fee,
+        // The fee is only exact at the quoted gas price
+        ...getQuoteTxFees(quote),
         gas: 500000n // Set explicit gas limit like quickstart
       })
 
       console.log('Transaction submitted! Hash:', txHash)
 
-      // Extract request ID from transaction receipt
-      // In real implementation, this would parse the event logs
-      const requestId = BigInt(Math.floor(Math.random() * 1000000))
+      if (!publicClient) {
+        throw new Error(`No RPC client for the current network (chainId: ${chainId})`)
+      }
+      // Read the request back from the `RandomnessRequested` event that the
+      // coordinator emits within the consumer's `getRandom`
+      const request = await waitForRequest(publicClient, txHash, anyrandAddress)
+      console.log('Request confirmed! ID:', request.id.toString())
 
       return {
         transactionHash: txHash,
-        requestId,
-        deadline: params.deadline,
-        feePaid: fee,
-        callbackGasLimit: params.callbackGasLimit
+        requestId: request.id,
+        request
       }
 
     } catch (err) {
       console.error('=== SUBMIT REQUEST ERROR ===')
       console.error('Full error object:', err)
 
-      let errorMessage = 'Unknown error occurred'
-
-      if (err instanceof Error) {
-        errorMessage = err.message
-        console.error('Error message:', err.message)
-        console.error('Error stack:', err.stack)
-
-        // Check for specific error patterns
-        if (err.message.includes('user rejected')) {
-          errorMessage = 'Transaction was rejected by user'
-        } else if (err.message.includes('insufficient funds')) {
-          errorMessage = 'Insufficient funds to complete transaction'
-        } else if (err.message.includes('Consumer contract not deployed')) {
-          errorMessage = err.message
-        } else if (err.message.includes('Wallet not connected')) {
-          errorMessage = err.message
-        }
-      }
-
-      // Check if it's a contract revert error
-      if ((err as any)?.data) {
-        console.error('Contract error data:', (err as any).data)
-      }
+      // Rethrown as is, so that callers can decode it with `parseContractError`
+      const { userMessage } = parseContractError(err)
+      console.error('Decoded error:', userMessage)
+      setError(err instanceof Error ? err : new Error(userMessage))
+      throw err
+    }
+  }, [anyrandAddress, consumerAddress, chainId, address, publicClient, calculateFee, writeContractAsync])
 
-      if ((err as any)?.reason) {
-        console.error('Contract revert reason:', (err as any).reason)
-        errorMessage = (err as any).reason
+  // Simulate the request with the exact quoted fee, explaining any revert
+  const simulate = useCallback(async (params: SubmitRequestParams): Promise<SimulationResult> => {
+    const unavailable = (revertReason: string): SimulationResult => ({
+      success: false,
+      gasEstimate: 0n,
+      revertReason,
+      warnings: [],
+      feeBreakdown: {
+        baseFee: 0n,
+        gasPrice: 0n,
+        callbackGasLimit: params.callbackGasLimit,
+        l1Fee: 0n,
+        totalFee: 0n,
+        operatorReward: 0n,
+        protocolFee: 0n,
+        requestPremiumMultiplierBps: 0n,
+        capped: false
       }
+    })
 
-      const error = new Error(errorMessage)
-      setError(error)
-      throw error
+    if (!anyrandAddress || !consumerAddress || !publicClient) {
+      return unavailable(`Anyrand is not deployed on the current network (chainId: ${chainId})`)
+    }
+    if (!address) {
+      return unavailable('Connect your wallet to simulate the request')
     }
-  }, [anyrandAddress, consumerAddress, chainId, address, calculateFee, writeContract])
 
-  // Simulate transaction
-  const simulate = useCallback(async (params: SubmitRequestParams): Promise<SimulationResult> => {
     try {
-      // Skip validation - removed to prevent issues
-
-      // Estimate gas and fees
-      const gasEstimate = 150000n // Estimated gas for request submission
-      const gasPrice = parseEther('0.00000002') // 20 gwei
-      const baseFee = parseEther('0.001')
-      const gasCost = params.callbackGasLimit * gasPrice
-      const totalFee = baseFee + gasCost
-      const operatorReward = totalFee / 10n // 10% to operator
-      const protocolFee = totalFee - operatorReward
-
-      const warnings: string[] = []
-
-      // Add warnings for edge cases
+      const result = await simulateRequest(publicClient, {
+        anyrand: anyrandAddress,
+        consumer: consumerAddress,
+        account: address,
+        deadline: params.deadline,
+        callbackGasLimit: params.callbackGasLimit
+      })
       if (params.callbackGasLimit > 500000n) {
-        warnings.push('High gas limit may result in expensive transaction')
-      }
-
-      const now = BigInt(Math.floor(Date.now() / 1000))
-      if (params.deadline - now < 3600n) {
-        warnings.push('Short deadline may reduce operator availability')
+        result.warnings.push('High gas limit may result in expensive transaction')
       }
-
-      return {
-        success: true,
-        gasEstimate,
-        warnings,
-        feeBreakdown: {
-          baseFee,
-          gasPrice,
-          callbackGasLimit: params.callbackGasLimit,
-          totalFee,
-          operatorReward,
-          protocolFee
-        }
-      }
-
+      return result
     } catch (err) {
-      return {
-        success: false,
-        gasEstimate: 0n,
-        revertReason: err instanceof Error ? err.message : 'Simulation failed',
-        warnings: [],
-        feeBreakdown: {
-          baseFee: 0n,
-          gasPrice: 0n,
-          callbackGasLimit: params.callbackGasLimit,
-          totalFee: 0n,
-          operatorReward: 0n,
-          protocolFee: 0n
-        }
-      }
+      return unavailable(err instanceof Error ? err.message : 'Simulation failed')
     }
-  }, [])
+  }, [anyrandAddress, consumerAddress, publicClient, chainId, address])
 
   // Combine all errors
   const combinedError = error || writeError
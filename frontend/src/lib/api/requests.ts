@@ -0,0 +1,190 @@
+import { getAddress, isAddress } from 'viem';
+import { RequestStatus } from '@/types/anyrand/randomness-request';
+import type {
+  ApiPage,
+  RequestApiParams,
+  RequestQueryFilters,
+} from '@/types/anyrand/frontend-api';
+import { matchesFilter, type IndexedRequest } from '../indexer/store';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+/** Error that is returned to API clients, with the HTTP status to respond with */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+function parseBigInt(name: string, value: string | null) {
+  if (value === null) return undefined;
+  if (!/^\d+$/.test(value)) {
+    throw new ApiError(400, `${name} must be a non-negative integer`);
+  }
+  return BigInt(value);
+}
+
+function parseAddress(name: string, value: string | null) {
+  if (value === null) return undefined;
+  if (!isAddress(value, { strict: false })) {
+    throw new ApiError(400, `${name} must be an address`);
+  }
+  return getAddress(value);
+}
+
+/** Accepts names (`pending`) as well as the numeric values of `RequestStatus` */
+function parseStatus(value: string | null) {
+  if (value === null) return undefined;
+  return value.split(',').map((status) => {
+    // Numeric enums map values back to names, so skip those keys
+    const name = Object.keys(RequestStatus).find(
+      (key) => isNaN(Number(key)) && key.toLowerCase() === status.toLowerCase()
+    );
+    const parsed = name
+      ? RequestStatus[name as keyof typeof RequestStatus]
+      : Number(status);
+    if (!(parsed in RequestStatus) || parsed === RequestStatus.Nonexistent) {
+      throw new ApiError(400, `Unknown status: ${status}`);
+    }
+    return parsed as RequestStatus;
+  });
+}
+
+function parseOneOf<T extends string>(
+  name: string,
+  value: string | null,
+  options: readonly T[]
+) {
+  if (value === null) return undefined;
+  if (!options.includes(value as T)) {
+    throw new ApiError(400, `${name} must be one of: ${options.join(', ')}`);
+  }
+  return value as T;
+}
+
+/**
+ * Parse the query string of a request listing. Parameters are named as in
+ * `RequestApiParams` and `RequestQueryFilters`, e.g.
+ * `?requester=0x...&status=pending,failed&sortBy=fee&pageSize=50`.
+ */
+export function parseRequestApiParams(
+  searchParams: URLSearchParams
+): RequestApiParams {
+  const filters: RequestQueryFilters = {
+    requester: parseAddress('requester', searchParams.get('requester')),
+    operator: parseAddress('operator', searchParams.get('operator')),
+    status: parseStatus(searchParams.get('status')),
+    fromTimestamp: parseBigInt(
+      'fromTimestamp',
+      searchParams.get('fromTimestamp')
+    ),
+    toTimestamp: parseBigInt('toTimestamp', searchParams.get('toTimestamp')),
+    minFee: parseBigInt('minFee', searchParams.get('minFee')),
+    maxFee: parseBigInt('maxFee', searchParams.get('maxFee')),
+  };
+  const pageSize = Number(
+    parseBigInt('pageSize', searchParams.get('pageSize')) ?? DEFAULT_PAGE_SIZE
+  );
+  if (pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new ApiError(400, `pageSize must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  return {
+    pageSize,
+    filters,
+    sortBy:
+      parseOneOf('sortBy', searchParams.get('sortBy'), [
+        'timestamp',
+        'fee',
+        'deadline',
+      ]) ?? 'timestamp',
+    sortDirection:
+      parseOneOf('sortDirection', searchParams.get('sortDirection'), [
+        'asc',
+        'desc',
+      ]) ?? 'desc',
+    cursor: searchParams.get('cursor') ?? undefined,
+  };
+}
+
+function getSortKey(
+  request: IndexedRequest,
+  sortBy: RequestApiParams['sortBy']
+) {
+  switch (sortBy) {
+    case 'fee':
+      return request.feePaid;
+    case 'deadline':
+      return request.deadline;
+    case 'timestamp':
+    default:
+      return request.timestamp;
+  }
+}
+
+/** Position in a listing: the sort key and ID of the last request returned */
+function encodeCursor(key: bigint, id: bigint) {
+  return btoa(`${key}:${id}`);
+}
+
+function decodeCursor(cursor: string) {
+  try {
+    const [key, id] = atob(cursor).split(':').map(BigInt);
+    if (typeof key === 'bigint' && typeof id === 'bigint') return { key, id };
+  } catch {
+    // Fall through
+  }
+  throw new ApiError(400, 'Invalid cursor');
+}
+
+/**
+ * Filter, sort & page indexed requests. Ties are broken by request ID, so that
+ * a cursor always points at the same place in the listing, even as requests
+ * are added to it.
+ */
+export function queryRequests(
+  requests: IndexedRequest[],
+  params: RequestApiParams
+): ApiPage<IndexedRequest> {
+  const { filters = {}, sortBy, sortDirection, pageSize } = params;
+  const direction = sortDirection === 'asc' ? 1 : -1;
+  const compare = (a: { key: bigint; id: bigint }, b: typeof a) => {
+    const order =
+      a.key !== b.key ? (a.key < b.key ? -1 : 1) : a.id < b.id ? -1 : 1;
+    return a.key === b.key && a.id === b.id ? 0 : order * direction;
+  };
+
+  const matching = requests
+    .filter(
+      (request) =>
+        matchesFilter(request, filters) &&
+        (typeof filters.minFee === 'undefined' ||
+          request.feePaid >= filters.minFee) &&
+        (typeof filters.maxFee === 'undefined' ||
+          request.feePaid <= filters.maxFee)
+    )
+    .map((request) => ({
+      key: getSortKey(request, sortBy),
+      id: request.id,
+      request,
+    }))
+    .sort(compare);
+
+  const after = params.cursor ? decodeCursor(params.cursor) : undefined;
+  const start = after
+    ? matching.findIndex((entry) => compare(entry, after) > 0)
+    : 0;
+  const page = start === -1 ? [] : matching.slice(start, start + pageSize);
+  const last = page.at(-1);
+  return {
+    data: page.map(({ request }) => request),
+    totalItems: matching.length,
+    pageSize,
+    nextCursor:
+      last && last !== matching.at(-1) ? encodeCursor(last.key, last.id) : null,
+  };
+}
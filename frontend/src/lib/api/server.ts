@@ -0,0 +1,94 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createPublicClient, http, type PublicClient } from 'viem';
+import type { RequestQueryFilters } from '@/types/anyrand/frontend-api';
+import { SUPPORTED_CHAINS } from '../constants';
+import { getDeployment } from '../deployments';
+import { getIndexer } from '../indexer/indexer';
+import { ApiError, parseRequestApiParams, queryRequests } from './requests';
+
+const clients = new Map<number, PublicClient>();
+
+/**
+ * Client for a supported chain. The RPC can be overridden with
+ * `RPC_URL_<chainId>`, e.g. `RPC_URL_31337` for a hardhat node on another port.
+ */
+function getPublicClient(chainId: number) {
+  let client = clients.get(chainId);
+  if (!client) {
+    const chain = SUPPORTED_CHAINS.find(({ id }) => id === chainId)!;
+    client = createPublicClient({
+      chain,
+      transport: http(process.env[`RPC_URL_${chainId}`]),
+    }) as PublicClient;
+    clients.set(chainId, client);
+  }
+  return client;
+}
+
+/**
+ * Sync the index of a chain's deployment up to the latest block. The index is
+ * kept in memory for as long as the server runs, so only the first call scans
+ * from the deploy block.
+ */
+export async function syncChainIndex(chainIdParam: string) {
+  const chainId = Number(chainIdParam);
+  const deployment = getDeployment(chainId);
+  if (!SUPPORTED_CHAINS.some(({ id }) => id === chainId) || !deployment) {
+    throw new ApiError(404, `Anyrand isn't deployed on chain ${chainIdParam}`);
+  }
+  const publicClient = getPublicClient(chainId);
+  const indexer = getIndexer(publicClient, deployment);
+  const head = await indexer.sync();
+  return { publicClient, deployment, indexer, head };
+}
+
+/**
+ * List requests matching the query string, with `filters` taking precedence
+ * over it
+ */
+export async function listRequests(
+  request: NextRequest,
+  chainId: string,
+  filters: RequestQueryFilters = {}
+) {
+  const params = parseRequestApiParams(request.nextUrl.searchParams);
+  params.filters = { ...params.filters, ...filters };
+  const { indexer } = await syncChainIndex(chainId);
+  return queryRequests(await indexer.getRequests(params.filters), params);
+}
+
+/** JSON response, with bigints as decimal strings */
+export function jsonResponse(body: unknown, init?: ResponseInit) {
+  return new NextResponse(
+    JSON.stringify(body, (_, value) =>
+      typeof value === 'bigint' ? value.toString() : value
+    ),
+    {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers },
+    }
+  );
+}
+
+/**
+ * Route handler that responds with whatever `handler` returns, and turns
+ * `ApiError`s into error responses
+ */
+export function apiHandler<Params>(
+  handler: (request: NextRequest, params: Params) => Promise<unknown>
+) {
+  return async (
+    request: NextRequest,
+    { params }: { params: Promise<Params> }
+  ) => {
+    try {
+      return jsonResponse(await handler(request, await params));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return jsonResponse({ error: error.message }, { status: error.status });
+      }
+      console.error('API error:', error);
+      return jsonResponse({ error: 'Internal server error' }, { status: 500 });
+    }
+  };
+}
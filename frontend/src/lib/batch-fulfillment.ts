@@ -0,0 +1,123 @@
+import type { Address, Hash, Hex, PublicClient, WalletClient } from 'viem';
+import { anyrandAbi, anyrandErrorAbi, groupByRound } from 'anyrand-sdk';
+import type { RandomnessRequest } from '@/types/anyrand/randomness-request';
+import type {
+  BatchFulfillmentItem,
+  ContractError,
+} from '@/types/anyrand/frontend-api';
+import { isUserRejection, parseContractError } from './contract-errors';
+
+// Incl. the beacon's errors, so that reverts such as `InvalidSignature` are decoded
+const fulfillAbi = [...anyrandAbi, ...anyrandErrorAbi];
+
+export interface BatchFulfillmentOptions {
+  anyrand: Address;
+  account: Address;
+  /** Fetch (and verify) the beacon's signature of a round */
+  getSignature: (pubKeyHash: Hex, round: bigint) => Promise<[bigint, bigint]>;
+  /** Called with every item whenever one of them changes */
+  onProgress?: (items: BatchFulfillmentItem[]) => void;
+}
+
+const REVERTED: ContractError = {
+  code: 'TRANSACTION_REVERTED',
+  message: 'Transaction reverted',
+  userMessage:
+    'The fulfilment transaction reverted, e.g. because the request was fulfilled by someone else first.',
+};
+
+/**
+ * Fulfil requests grouped by round, so that each round's signature is only
+ * fetched once. A transaction is sent per request, back to back with
+ * consecutive nonces, and they're all awaited together. If the user rejects a
+ * transaction, the rest of the batch is cancelled.
+ */
+export async function fulfillBatch(
+  publicClient: PublicClient,
+  walletClient: WalletClient,
+  requests: RandomnessRequest[],
+  { anyrand, account, getSignature, onProgress }: BatchFulfillmentOptions
+): Promise<BatchFulfillmentItem[]> {
+  const groups = groupByRound(requests);
+  let items: BatchFulfillmentItem[] = groups.flatMap((group) =>
+    group.requests.map((request) => ({
+      requestId: request.id,
+      round: group.round,
+      status: 'queued' as const,
+    }))
+  );
+  const update = (requestId: bigint, change: Partial<BatchFulfillmentItem>) => {
+    items = items.map((item) =>
+      item.requestId === requestId ? { ...item, ...change } : item
+    );
+    onProgress?.(items);
+  };
+  const fail = (request: RandomnessRequest, error: ContractError) =>
+    update(request.id, { status: 'failed', error });
+  onProgress?.(items);
+
+  let nonce = await publicClient.getTransactionCount({
+    address: account,
+    blockTag: 'pending',
+  });
+  const receipts: Promise<void>[] = [];
+  let cancelled: ContractError | undefined;
+  for (const group of groups) {
+    if (cancelled) {
+      group.requests.forEach((request) => fail(request, cancelled!));
+      continue;
+    }
+    let signature: [bigint, bigint];
+    try {
+      signature = await getSignature(group.pubKeyHash as Hex, group.round);
+    } catch (err) {
+      const error = parseContractError(err);
+      group.requests.forEach((request) => fail(request, error));
+      continue;
+    }
+
+    for (const request of group.requests) {
+      if (cancelled) {
+        fail(request, cancelled);
+        continue;
+      }
+      let hash: Hash;
+      try {
+        hash = await walletClient.writeContract({
+          account,
+          chain: walletClient.chain,
+          address: anyrand,
+          abi: fulfillAbi,
+          functionName: 'fulfillRandomness',
+          args: [
+            request.id,
+            request.requester,
+            request.pubKeyHash,
+            request.round,
+            request.callbackGasLimit,
+            signature,
+          ],
+          nonce,
+        });
+      } catch (err) {
+        const error = parseContractError(err);
+        fail(request, error);
+        if (isUserRejection(err)) cancelled = error;
+        continue;
+      }
+      nonce++;
+      update(request.id, { status: 'submitted', transactionHash: hash });
+      receipts.push(
+        publicClient.waitForTransactionReceipt({ hash }).then(
+          (receipt) =>
+            receipt.status === 'success'
+              ? update(request.id, { status: 'confirmed' })
+              : fail(request, REVERTED),
+          (err) => fail(request, parseContractError(err))
+        )
+      );
+    }
+  }
+  await Promise.all(receipts);
+  return items;
+}
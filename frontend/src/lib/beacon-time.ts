@@ -0,0 +1,62 @@
+import type { Address, Hex, PublicClient } from 'viem';
+import { getLatestRound, getRound, getRoundTimestamp } from 'anyrand-sdk';
+import { AnyrandViemClient } from 'anyrand-sdk/viem';
+
+/** Schedule of a drand beacon: round 1 is published at genesis */
+export interface BeaconTiming {
+  genesisTimestamp: bigint;
+  period: bigint;
+}
+
+const timings = new WeakMap<PublicClient, Map<string, Promise<BeaconTiming>>>();
+
+/**
+ * Read the schedule of the beacon that a request was made against, from the
+ * `DrandBeacon` registered in Anyrand under `pubKeyHash`. Beacons are
+ * immutable, so each one is only read once per client.
+ */
+export function fetchBeaconTiming(
+  publicClient: PublicClient,
+  anyrand: Address,
+  pubKeyHash: Hex
+): Promise<BeaconTiming> {
+  const cache =
+    timings.get(publicClient) ?? new Map<string, Promise<BeaconTiming>>();
+  timings.set(publicClient, cache);
+  const key = `${anyrand}-${pubKeyHash}`.toLowerCase();
+  let timing = cache.get(key);
+  if (!timing) {
+    timing = new AnyrandViemClient(anyrand, publicClient)
+      .getBeacon(pubKeyHash)
+      .then(({ genesisTimestamp, period }) => ({ genesisTimestamp, period }));
+    timing.catch(() => cache.delete(key));
+    cache.set(key, timing);
+  }
+  return timing;
+}
+
+/** Timestamp at which `round` is published, i.e. can be fulfilled with */
+export function getRoundAvailableAt(timing: BeaconTiming, round: bigint) {
+  return getRoundTimestamp(timing.genesisTimestamp, timing.period, round);
+}
+
+/** Latest round published at `timestamp` (0 before genesis) */
+export function getLatestRoundAt(timing: BeaconTiming, timestamp: bigint) {
+  return getLatestRound(timing.genesisTimestamp, timing.period, timestamp);
+}
+
+/** Round that a request with this deadline is assigned, as `Anyrand.getRound` */
+export function getRoundForDeadline(timing: BeaconTiming, deadline: bigint) {
+  return getRound(timing.genesisTimestamp, deadline, timing.period);
+}
+
+/**
+ * Seconds until a request's round is published and it can be fulfilled, or 0
+ * if it already can be
+ */
+export function getSecondsUntilFulfillable(
+  request: { deadline: bigint },
+  now: bigint
+) {
+  return request.deadline > now ? Number(request.deadline - now) : 0;
+}
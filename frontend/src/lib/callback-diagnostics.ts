@@ -0,0 +1,269 @@
+import {
+  decodeErrorResult,
+  encodeFunctionData,
+  isHex,
+  numberToHex,
+  size,
+  slice,
+  toFunctionSelector,
+  type Abi,
+  type Address,
+  type BlockTag,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+import { formatAbiItem } from 'viem/utils';
+import { anyrandConsumerAbi, getIntrinsicGas } from 'anyrand-sdk';
+import type { CallbackFailure } from '@/types/anyrand/randomness-request';
+
+type AbiError = Extract<Abi[number], { type: 'error' }>;
+
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+/** Panic codes emitted by solc, see the Solidity docs on `Panic(uint256)` */
+export const PANIC_REASONS: Record<number, string> = {
+  0x01: 'Assertion failed',
+  0x11: 'Arithmetic overflow or underflow',
+  0x12: 'Division or modulo by zero',
+  0x21: 'Invalid enum value',
+  0x22: 'Invalid storage byte array encoding',
+  0x31: 'pop() on an empty array',
+  0x32: 'Array index out of bounds',
+  0x41: 'Out of memory',
+  0x51: 'Call to an uninitialised function pointer',
+};
+
+export type CallbackFailureReason =
+  | 'out-of-gas'
+  | 'error-string'
+  | 'panic'
+  | 'custom-error'
+  | 'empty'
+  | 'unknown';
+
+export interface CallbackDiagnosis {
+  reason: CallbackFailureReason;
+  /** One-line explanation, suitable for showing to a developer */
+  summary: string;
+  /** First 4 bytes of the revert data, if it had any */
+  selector?: Hex;
+  /** Name of the matching custom error in the consumer's ABI */
+  errorName?: string;
+  /**
+   * Whether the revert data had more than the 32 bytes Anyrand emits, i.e.
+   * replaying the callback would reveal more (reason strings, panic codes or
+   * error arguments)
+   */
+  truncated: boolean;
+  /** Share of the callback gas limit that was used, as a fraction */
+  gasUsedRatio: number;
+}
+
+function getCustomErrors(abi: Abi = []) {
+  return abi.filter((item): item is AbiError => item.type === 'error');
+}
+
+function findCustomError(selector: Hex, abi?: Abi) {
+  return getCustomErrors(abi).find(
+    (item) => toFunctionSelector(formatAbiItem(item)) === selector
+  );
+}
+
+/**
+ * Explain a `RandomnessCallbackFailed` event. Anyrand only emits the first 32
+ * bytes of the callback's revert data, so reason strings & panic codes are cut
+ * off (they start after the selector and a 32-byte word); custom errors can be
+ * identified by selector if the consumer's ABI is supplied.
+ *
+ * Callbacks are called with exactly `gasLimit` gas, and `actualGasUsed` also
+ * counts the call's own overhead, so a callback that ran out of gas has used
+ * at least its whole limit.
+ */
+export function diagnoseCallbackFailure(
+  failure: CallbackFailure,
+  consumerAbi?: Abi
+): CallbackDiagnosis {
+  const gasUsedRatio =
+    failure.gasLimit > 0n
+      ? Number((failure.actualGasUsed * 10_000n) / failure.gasLimit) / 10_000
+      : 0;
+  const isEmpty = /^0x0*$/.test(failure.retdata);
+  if (isEmpty && failure.actualGasUsed >= failure.gasLimit) {
+    return {
+      reason: 'out-of-gas',
+      summary: `Ran out of gas: used ${failure.actualGasUsed} of the ${failure.gasLimit} gas limit. Request with a higher callbackGasLimit.`,
+      truncated: false,
+      gasUsedRatio,
+    };
+  }
+  if (isEmpty) {
+    return {
+      reason: 'empty',
+      summary:
+        'Reverted without data, e.g. `revert()`, `require(cond)` without a message, or a call to a contract without code.',
+      truncated: false,
+      gasUsedRatio,
+    };
+  }
+
+  const selector = slice(failure.retdata, 0, 4);
+  // Everything after the selector that was emitted is zero; if the error had
+  // arguments, their first word was cut off
+  const hasArgs = !/^0x0*$/.test(slice(failure.retdata, 4));
+  if (selector === ERROR_STRING_SELECTOR) {
+    return {
+      reason: 'error-string',
+      summary:
+        'Reverted with a reason string (`require(cond, "...")` or `revert("...")`). The string itself is cut off; replay the callback to read it.',
+      selector,
+      errorName: 'Error',
+      truncated: true,
+      gasUsedRatio,
+    };
+  }
+  if (selector === PANIC_SELECTOR) {
+    return {
+      reason: 'panic',
+      summary:
+        'Panicked, e.g. on an arithmetic overflow, division by zero, out-of-bounds index or failed assert. The panic code is cut off; replay the callback to read it.',
+      selector,
+      errorName: 'Panic',
+      truncated: true,
+      gasUsedRatio,
+    };
+  }
+  const customError = findCustomError(selector, consumerAbi);
+  if (customError) {
+    const truncated = customError.inputs.length > 0;
+    return {
+      reason: 'custom-error',
+      summary: `Reverted with \`${formatAbiItem(customError)}\`${truncated ? '. Its arguments are cut off; replay the callback to read them.' : '.'}`,
+      selector,
+      errorName: customError.name,
+      truncated,
+      gasUsedRatio,
+    };
+  }
+  return {
+    reason: 'unknown',
+    summary: `Reverted with unknown error selector ${selector}. Supply the consumer's ABI to identify it.`,
+    selector,
+    truncated: hasArgs,
+    gasUsedRatio,
+  };
+}
+
+export interface CallbackReplay {
+  success: boolean;
+  /** Gas used by the callback, excluding the traced call's intrinsic gas */
+  gasUsed: bigint;
+  /** Full revert data */
+  returnData: Hex;
+  /** Decoded revert, if the error is standard or in the supplied ABI */
+  error?: { name: string; args: readonly unknown[]; message: string };
+}
+
+interface TraceResult {
+  gas: number;
+  failed: boolean;
+  returnValue: string;
+}
+
+/** `debug_traceCall` with the default struct logger, which viem doesn't type */
+type DebugTraceCallSchema = {
+  Parameters: [
+    call: { from: Address; to: Address; gas: Hex; data: Hex },
+    block: BlockTag,
+    config: {
+      disableStorage: boolean;
+      disableMemory: boolean;
+      disableStack: boolean;
+    },
+  ];
+  ReturnType: TraceResult;
+};
+
+/**
+ * Replay a failed callback with `debug_traceCall` to get its full revert data.
+ * `traceClient` should be connected to a node with the debug API, usually a
+ * local hardhat node forking the chain the request was fulfilled on
+ * (`npx hardhat node --fork <rpc> --fork-block-number <fulfilment block - 1>`),
+ * since public RPCs don't expose it.
+ *
+ * The callback is replayed as Anyrand calls it: from the coordinator, with
+ * exactly the request's callback gas limit.
+ */
+export async function replayCallback(
+  traceClient: PublicClient,
+  {
+    anyrand,
+    requester,
+    requestId,
+    randomness,
+    gasLimit,
+    consumerAbi,
+  }: {
+    anyrand: Address;
+    requester: Address;
+    requestId: bigint;
+    randomness: bigint;
+    gasLimit: bigint;
+    consumerAbi?: Abi;
+  }
+): Promise<CallbackReplay> {
+  const data = encodeFunctionData({
+    abi: anyrandConsumerAbi,
+    functionName: 'receiveRandomness',
+    args: [requestId, randomness],
+  });
+  const intrinsicGas = getIntrinsicGas(data);
+  const trace = await traceClient.request<DebugTraceCallSchema>({
+    method: 'debug_traceCall',
+    params: [
+      {
+        from: anyrand,
+        to: requester,
+        // The traced call pays intrinsic gas, unlike Anyrand's internal call
+        gas: numberToHex(gasLimit + intrinsicGas),
+        data,
+      },
+      'latest',
+      { disableStorage: true, disableMemory: true, disableStack: true },
+    ],
+  });
+
+  const returnData: Hex = isHex(trace.returnValue)
+    ? trace.returnValue
+    : `0x${trace.returnValue}`;
+  const replay: CallbackReplay = {
+    success: !trace.failed,
+    gasUsed: BigInt(trace.gas) - intrinsicGas,
+    returnData,
+  };
+  if (trace.failed && size(returnData) >= 4) {
+    try {
+      const { errorName, args = [] } = decodeErrorResult({
+        abi: getCustomErrors(consumerAbi),
+        data: returnData,
+      });
+      replay.error = {
+        name: errorName,
+        args,
+        message: formatRevert(errorName, args),
+      };
+    } catch {
+      // Not a standard error and not in the supplied ABI
+    }
+  }
+  return replay;
+}
+
+function formatRevert(name: string, args: readonly unknown[]) {
+  if (name === 'Error') return `Error: ${args[0]}`;
+  if (name === 'Panic') {
+    const code = Number(args[0]);
+    return `Panic 0x${code.toString(16).padStart(2, '0')}: ${PANIC_REASONS[code] ?? 'Unknown panic code'}`;
+  }
+  return `${name}(${args.map(String).join(', ')})`;
+}
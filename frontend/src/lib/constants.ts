@@ -1,4 +1,5 @@
 import { type Chain } from 'viem';
+import { getChainContracts } from './deployments';
 
 /**
  * Network configurations for supported chains
@@ -24,17 +25,7 @@ export const scroll = {
       url: 'https://scrollscan.com',
     },
   },
-  contracts: {
-    anyrand: {
-      address: (process.env.NEXT_PUBLIC_ANYRAND_SCROLL_ADDRESS || '0x0000000000000000000000000000000000000000') as `0x${string}`,
-    },
-    beacon: {
-      address: (process.env.NEXT_PUBLIC_BEACON_SCROLL_ADDRESS || '0x0000000000000000000000000000000000000000') as `0x${string}`,
-    },
-    gasStation: {
-      address: (process.env.NEXT_PUBLIC_GAS_STATION_SCROLL_ADDRESS || '0x0000000000000000000000000000000000000000') as `0x${string}`,
-    },
-  },
+  contracts: getChainContracts(534352),
   testnet: false,
 } as const satisfies Chain;
 
@@ -58,17 +49,7 @@ export const scrollSepolia = {
       url: 'https://sepolia.scrollscan.com',
     },
   },
-  contracts: {
-    anyrand: {
-      address: (process.env.NEXT_PUBLIC_ANYRAND_SCROLL_SEPOLIA_ADDRESS || '0x0000000000000000000000000000000000000000') as `0x${string}`,
-    },
-    beacon: {
-      address: (process.env.NEXT_PUBLIC_BEACON_SCROLL_SEPOLIA_ADDRESS || '0x0000000000000000000000000000000000000000') as `0x${string}`,
-    },
-    gasStation: {
-      address: (process.env.NEXT_PUBLIC_GAS_STATION_SCROLL_SEPOLIA_ADDRESS || '0x0000000000000000000000000000000000000000') as `0x${string}`,
-    },
-  },
+  contracts: getChainContracts(534351),
   testnet: true,
 } as const satisfies Chain;
 
@@ -91,17 +72,7 @@ export const localhost = {
       url: 'http://localhost:8545',
     },
   },
-  contracts: {
-    anyrand: {
-      address: (process.env.NEXT_PUBLIC_ANYRAND_LOCAL_ADDRESS || '0x0000000000000000000000000000000000000000') as `0x${string}`,
-    },
-    beacon: {
-      address: (process.env.NEXT_PUBLIC_BEACON_LOCAL_ADDRESS || '0x0000000000000000000000000000000000000000') as `0x${string}`,
-    },
-    gasStation: {
-      address: (process.env.NEXT_PUBLIC_GAS_STATION_LOCAL_ADDRESS || '0x0000000000000000000000000000000000000000') as `0x${string}`,
-    },
-  },
+  contracts: getChainContracts(31337),
   testnet: true,
 } as const satisfies Chain;
 
@@ -136,6 +107,18 @@ if (!WALLETCONNECT_PROJECT_ID) {
   );
 }
 
+/**
+ * drand HTTP API. Point this at a local drand simulator (`yarn drand:simulator`
+ * in the repo root) by setting DRAND_URL or NEXT_PUBLIC_DRAND_URL.
+ */
+export const DRAND_URL = process.env.NEXT_PUBLIC_DRAND_URL || 'https://api.drand.sh';
+
+/**
+ * drand beacon that Anyrand is deployed against
+ */
+export const DRAND_BEACON_ID = 'evmnet';
+export const DRAND_CHAIN_HASH = '52db9ba70e0cc0f6eaf7803dd07447a1f5477735fd3f661792ba94600c84e971';
+
 /**
  * Session storage keys
  */
@@ -0,0 +1,94 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  InsufficientFundsError,
+  TimeoutError,
+  UserRejectedRequestError,
+  WebSocketRequestError,
+} from 'viem';
+import { getAnyrandError } from 'anyrand-sdk/viem';
+import type { ContractError } from '@/types/anyrand/frontend-api';
+
+function walk(error: unknown, fn: (err: unknown) => boolean): boolean {
+  if (error instanceof BaseError) return Boolean(error.walk(fn));
+  return fn(error);
+}
+
+/** Whether the user rejected the transaction or signature in their wallet */
+export function isUserRejection(error: unknown): boolean {
+  return walk(
+    error,
+    (err) =>
+      err instanceof UserRejectedRequestError ||
+      (err as { code?: unknown } | null)?.code === UserRejectedRequestError.code
+  );
+}
+
+/** Whether the RPC couldn't be reached (as opposed to it returning an error) */
+export function isNetworkError(error: unknown): boolean {
+  return walk(
+    error,
+    (err) =>
+      err instanceof HttpRequestError ||
+      err instanceof WebSocketRequestError ||
+      err instanceof TimeoutError
+  );
+}
+
+/** Whether a contract call reverted */
+export function isContractError(error: unknown): boolean {
+  return (
+    getAnyrandError(error) !== null ||
+    walk(error, (err) => err instanceof ContractFunctionRevertedError)
+  );
+}
+
+/**
+ * Classify an error thrown by a contract call or transaction. Reverts with
+ * one of Anyrand's (or its beacons' and consumer's) custom errors are decoded
+ * into their code (e.g. `INVALID_REQUEST_STATE`) and arguments.
+ */
+export function parseContractError(error: unknown): ContractError {
+  const message =
+    error instanceof BaseError
+      ? error.shortMessage
+      : error instanceof Error
+        ? error.message
+        : String(error);
+  const common = { message, details: error };
+
+  if (isUserRejection(error)) {
+    return {
+      ...common,
+      code: 'USER_REJECTED',
+      userMessage: 'The transaction was rejected in your wallet.',
+    };
+  }
+  const decoded = getAnyrandError(error);
+  if (decoded) {
+    return {
+      ...common,
+      code: decoded.code,
+      args: decoded.args,
+      userMessage: decoded.userMessage,
+    };
+  }
+  if (walk(error, (err) => err instanceof InsufficientFundsError)) {
+    return {
+      ...common,
+      code: 'INSUFFICIENT_FUNDS',
+      userMessage:
+        "Your account doesn't have enough ETH to pay for the transaction.",
+    };
+  }
+  if (isNetworkError(error)) {
+    return {
+      ...common,
+      code: 'NETWORK_ERROR',
+      userMessage:
+        "Couldn't reach the network. Check your connection and try again.",
+    };
+  }
+  return { ...common, code: 'UNKNOWN_ERROR', userMessage: message };
+}
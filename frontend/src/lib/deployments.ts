@@ -0,0 +1,37 @@
+import { zeroAddress } from 'viem';
+import {
+  getDeployment as getRegistryDeployment,
+  LOCAL_CHAIN_ID,
+  type AnyrandDeployment,
+  type Hex,
+} from 'anyrand-sdk';
+
+/**
+ * Addresses of a local deployment (written to the root .env by `yarn deploy:local`).
+ * Next.js only inlines env vars that are referenced literally, hence no lookup by name.
+ */
+const LOCAL_OVERRIDES = {
+  anyrand: process.env.NEXT_PUBLIC_ANYRAND_LOCAL_ADDRESS as Hex | undefined,
+  beacon: process.env.NEXT_PUBLIC_BEACON_LOCAL_ADDRESS as Hex | undefined,
+  gasStation: process.env.NEXT_PUBLIC_GAS_STATION_LOCAL_ADDRESS as Hex | undefined,
+  consumer: process.env.NEXT_PUBLIC_CONSUMER_LOCAL_ADDRESS as Hex | undefined,
+};
+
+/**
+ * Anyrand deployment on a chain, from the registry in anyrand-sdk
+ */
+export function getDeployment(chainId: number): AnyrandDeployment | undefined {
+  return getRegistryDeployment(chainId, chainId === LOCAL_CHAIN_ID ? LOCAL_OVERRIDES : {});
+}
+
+/**
+ * Contract addresses in the shape of viem's `Chain['contracts']`
+ */
+export function getChainContracts(chainId: number) {
+  const deployment = getDeployment(chainId);
+  return {
+    anyrand: { address: deployment?.anyrand ?? zeroAddress },
+    beacon: { address: deployment?.beacon ?? zeroAddress },
+    gasStation: { address: deployment?.gasStation ?? zeroAddress },
+  };
+}
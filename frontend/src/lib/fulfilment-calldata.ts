@@ -0,0 +1,47 @@
+import { decodeFunctionData, type Hex } from 'viem';
+import { anyrandAbi } from 'anyrand-sdk';
+
+/** What a request was fulfilled with, which `RandomnessFulfilled` doesn't emit */
+export interface FulfilmentCalldata {
+  pubKeyHash: Hex;
+  round: bigint;
+  signature: [bigint, bigint];
+}
+
+/**
+ * Recover the beacon round & signature that a request was fulfilled with from
+ * the calldata of its fulfilment transaction, which is either a
+ * `fulfillRandomness` or a `fulfillRandomnessBatch`. Returns null if the
+ * transaction isn't a direct call to Anyrand (e.g. it went through a keeper
+ * contract or multisig), or doesn't fulfil `requestId`.
+ */
+export function decodeFulfilmentCalldata(
+  input: Hex,
+  requestId: bigint
+): FulfilmentCalldata | null {
+  let call;
+  try {
+    call = decodeFunctionData({ abi: anyrandAbi, data: input });
+  } catch {
+    return null;
+  }
+
+  if (call.functionName === 'fulfillRandomness') {
+    const [id, , pubKeyHash, round, , [x, y]] = call.args;
+    return id === requestId ? { pubKeyHash, round, signature: [x, y] } : null;
+  }
+  if (call.functionName === 'fulfillRandomnessBatch') {
+    const [fulfilments] = call.args;
+    const fulfilment = fulfilments.find(({ requests }) =>
+      requests.some((request) => request.requestId === requestId)
+    );
+    if (!fulfilment) return null;
+    const [x, y] = fulfilment.signature;
+    return {
+      pubKeyHash: fulfilment.pubKeyHash,
+      round: fulfilment.round,
+      signature: [x, y],
+    };
+  }
+  return null;
+}
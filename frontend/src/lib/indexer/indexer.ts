@@ -0,0 +1,336 @@
+import {
+  BaseError,
+  HttpRequestError,
+  RpcError,
+  RpcRequestError,
+  TimeoutError,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type Transaction,
+} from 'viem';
+import { anyrandAbi, type AnyrandDeployment } from 'anyrand-sdk';
+import {
+  RequestStatus,
+  type CallbackFailure,
+} from '@/types/anyrand/randomness-request';
+import {
+  fetchBeaconTiming,
+  getRoundAvailableAt,
+  type BeaconTiming,
+} from '../beacon-time';
+import { decodeFulfilmentCalldata } from '../fulfilment-calldata';
+import {
+  IndexedDbIndexerStore,
+  MemoryIndexerStore,
+  type BlockRef,
+  type IndexedRequest,
+  type IndexedRequestFilter,
+  type IndexerStore,
+} from './store';
+
+/**
+ * Widest block range fetched in a single `eth_getLogs` call. Public RPCs reject
+ * (or time out on) much wider ranges, in which case it's narrowed during sync.
+ */
+const LOG_CHUNK_SIZE = 50_000n;
+
+/** Most blocks, transactions & beacons fetched at once while indexing */
+const MAX_CONCURRENT_FETCHES = 4;
+
+/**
+ * Indexes Anyrand's request lifecycle events into a store, from the block the
+ * coordinator was deployed in. Each sync only fetches the blocks produced since
+ * the last one, after checking that the chain hasn't reorganised the blocks
+ * that were already indexed.
+ */
+export class AnyrandIndexer {
+  private syncing?: Promise<BlockRef>;
+
+  constructor(
+    private readonly publicClient: PublicClient,
+    public readonly deployment: AnyrandDeployment,
+    public readonly store: IndexerStore,
+    private readonly chunkSize = LOG_CHUNK_SIZE
+  ) {}
+
+  getRequest(requestId: bigint) {
+    return this.store.getRequest(requestId);
+  }
+
+  getRequests(filter?: IndexedRequestFilter) {
+    return this.store.getRequests(filter);
+  }
+
+  /**
+   * Sync up to the latest block, returning it. Concurrent calls share the same
+   * sync.
+   */
+  sync(): Promise<BlockRef> {
+    if (!this.syncing) {
+      this.syncing = this.doSync().finally(() => {
+        this.syncing = undefined;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async doSync() {
+    const head = toBlockRef(
+      await this.publicClient.getBlock({ blockTag: 'latest' })
+    );
+    let cursor = await this.store.getCursor();
+    if (cursor) {
+      cursor = await this.findCanonicalCursor(cursor, head);
+    }
+    let from = cursor ? cursor.number + 1n : this.deployment.deployBlock;
+    let chunkSize = this.chunkSize;
+    while (from <= head.number) {
+      const to =
+        from + chunkSize - 1n < head.number
+          ? from + chunkSize - 1n
+          : head.number;
+      try {
+        await this.indexRange(from, to === head.number ? head : to);
+      } catch (err) {
+        // Halve the range & retry, down to a single block
+        if (to === from || !isRangeRejection(err)) throw err;
+        chunkSize = (to - from + 1n) / 2n;
+        continue;
+      }
+      from = to + 1n;
+    }
+    return head;
+  }
+
+  /**
+   * Returns `cursor` if it's still on the canonical chain. Otherwise rolls back
+   * to the latest indexed block that is, and returns that. Blocks after `head`
+   * are rolled back too: either the chain really is shorter (e.g. a restarted
+   * local node), or the RPC is lagging and they'll simply be synced again.
+   */
+  private async findCanonicalCursor(cursor: BlockRef, head: BlockRef) {
+    if (cursor.number <= head.number && (await this.isCanonical(cursor))) {
+      return cursor;
+    }
+    const blocks = (await this.store.getBlocks())
+      .filter(
+        (block) => block.number < cursor.number && block.number <= head.number
+      )
+      .sort((a, b) => (a.number > b.number ? -1 : 1));
+    for (const block of blocks) {
+      // Blocks are hash-chained, so everything before a canonical block is too
+      if (await this.isCanonical(block)) {
+        await this.store.rollback(block);
+        return block;
+      }
+    }
+    await this.store.rollback();
+    return undefined;
+  }
+
+  /**
+   * Whether `block` is still on the canonical chain. Failing to fetch it isn't
+   * a reorg, so the error is thrown, failing the sync without rolling back.
+   */
+  private async isCanonical(block: BlockRef) {
+    const canonical = await this.publicClient.getBlock({
+      blockNumber: block.number,
+    });
+    return canonical.hash === block.hash;
+  }
+
+  private async indexRange(from: bigint, to: bigint | BlockRef) {
+    const toBlock = typeof to === 'bigint' ? to : to.number;
+    const logs = await this.publicClient.getContractEvents({
+      address: this.deployment.anyrand,
+      abi: anyrandAbi,
+      fromBlock: from,
+      toBlock,
+      strict: true,
+    });
+
+    // Fetch each block, transaction & beacon only once, a few at a time
+    const blockNumbers = new Set<bigint>();
+    const hashes = new Set<Hash>();
+    const pubKeyHashes = new Set<Hex>();
+    if (typeof to === 'bigint') blockNumbers.add(to);
+    for (const log of logs) {
+      if (log.eventName === 'RandomnessRequested') {
+        pubKeyHashes.add(log.args.pubKeyHash);
+      } else if (log.eventName !== 'RandomnessFulfilled') {
+        continue;
+      }
+      blockNumbers.add(log.blockNumber);
+      hashes.add(log.transactionHash);
+    }
+    const blocks = new Map<bigint, BlockRef>();
+    const transactions = new Map<Hash, Transaction>();
+    const timings = new Map<Hex, BeaconTiming>();
+    await runConcurrently(MAX_CONCURRENT_FETCHES, [
+      ...Array.from(blockNumbers, (blockNumber) => async () => {
+        const block = await this.publicClient.getBlock({ blockNumber });
+        blocks.set(blockNumber, toBlockRef(block));
+      }),
+      ...Array.from(hashes, (hash) => async () => {
+        transactions.set(
+          hash,
+          await this.publicClient.getTransaction({ hash })
+        );
+      }),
+      ...Array.from(pubKeyHashes, (pubKeyHash) => async () => {
+        timings.set(
+          pubKeyHash,
+          await fetchBeaconTiming(
+            this.publicClient,
+            this.deployment.anyrand,
+            pubKeyHash
+          )
+        );
+      }),
+    ]);
+
+    const updated = new Map<bigint, IndexedRequest>();
+    for (const log of logs) {
+      if (log.eventName !== 'RandomnessRequested') continue;
+      const { requestId, requester, pubKeyHash, round } = log.args;
+      updated.set(requestId, {
+        id: requestId,
+        requester,
+        requestedBy: transactions.get(log.transactionHash)!.from,
+        // The deadline isn't emitted, but the round it was rounded up to is
+        deadline: getRoundAvailableAt(timings.get(pubKeyHash)!, round),
+        callbackGasLimit: log.args.callbackGasLimit,
+        feePaid: log.args.feePaid,
+        effectiveFeePerGas: log.args.effectiveFeePerGas,
+        status: RequestStatus.Pending,
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        timestamp: blocks.get(log.blockNumber)!.timestamp,
+        pubKeyHash,
+        round,
+      });
+    }
+    // Emitted just before `RandomnessFulfilled` in the same transaction
+    const callbackFailures = new Map<bigint, CallbackFailure>();
+    for (const log of logs) {
+      if (log.eventName !== 'RandomnessCallbackFailed') continue;
+      const { requestId, retdata, gasLimit, actualGasUsed } = log.args;
+      callbackFailures.set(requestId, { retdata, gasLimit, actualGasUsed });
+    }
+    for (const log of logs) {
+      if (log.eventName !== 'RandomnessFulfilled') continue;
+      const { requestId } = log.args;
+      const request =
+        updated.get(requestId) ?? (await this.store.getRequest(requestId));
+      if (!request) continue;
+      const tx = transactions.get(log.transactionHash)!;
+      const calldata = decodeFulfilmentCalldata(tx.input, requestId);
+      updated.set(requestId, {
+        ...request,
+        status: log.args.callbackSuccess
+          ? RequestStatus.Fulfilled
+          : RequestStatus.Failed,
+        fulfillment: {
+          requestId,
+          randomness: log.args.randomness,
+          operator: tx.from,
+          callbackSuccess: log.args.callbackSuccess,
+          actualGasUsed: log.args.actualGasUsed,
+          transactionHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+          timestamp: blocks.get(log.blockNumber)!.timestamp,
+          // From the calldata where possible. A fulfilment's round & beacon
+          // are always the request's, but its signature isn't emitted.
+          pubKeyHash: calldata?.pubKeyHash ?? request.pubKeyHash,
+          round: calldata?.round ?? request.round,
+          signature: calldata?.signature ?? [0n, 0n],
+          callbackFailure: callbackFailures.get(requestId),
+        },
+      });
+    }
+
+    await this.store.commit({
+      requests: Array.from(updated.values()),
+      blocks: Array.from(blocks.values()),
+      cursor: typeof to === 'bigint' ? blocks.get(to)! : to,
+    });
+  }
+}
+
+function toBlockRef(block: {
+  number: bigint | null;
+  hash: Hash | null;
+  timestamp: bigint;
+}): BlockRef {
+  return {
+    number: block.number!,
+    hash: block.hash!,
+    timestamp: block.timestamp,
+  };
+}
+
+/**
+ * Whether `err` is the RPC refusing (or timing out on) a request, as opposed to
+ * being unreachable. Such requests may succeed over a narrower block range.
+ */
+function isRangeRejection(err: unknown) {
+  return (
+    err instanceof BaseError &&
+    !!err.walk(
+      (cause) =>
+        cause instanceof RpcError ||
+        cause instanceof RpcRequestError ||
+        cause instanceof TimeoutError ||
+        (cause instanceof HttpRequestError && !!cause.status)
+    )
+  );
+}
+
+/**
+ * Run `tasks` with at most `concurrency` of them in flight. Stops starting new
+ * tasks once one has failed.
+ */
+async function runConcurrently(
+  concurrency: number,
+  tasks: (() => Promise<void>)[]
+) {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const task = tasks[next++];
+      try {
+        await task();
+      } catch (err) {
+        next = tasks.length;
+        throw err;
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, tasks.length) }, worker)
+  );
+}
+
+const indexers = new Map<string, AnyrandIndexer>();
+
+/**
+ * Shared indexer for a deployment. The index is kept in IndexedDB where it's
+ * available, i.e. in the browser.
+ */
+export function getIndexer(
+  publicClient: PublicClient,
+  deployment: AnyrandDeployment
+) {
+  const key = `${deployment.chainId}-${deployment.anyrand.toLowerCase()}`;
+  let indexer = indexers.get(key);
+  if (!indexer) {
+    const store =
+      typeof indexedDB === 'undefined'
+        ? new MemoryIndexerStore()
+        : new IndexedDbIndexerStore(`anyrand-indexer-${key}`);
+    indexer = new AnyrandIndexer(publicClient, deployment, store);
+    indexers.set(key, indexer);
+  }
+  return indexer;
+}
@@ -0,0 +1,358 @@
+import { isAddressEqual, type Address, type Hash } from 'viem';
+import {
+  RequestStatus,
+  type RandomnessRequest,
+} from '@/types/anyrand/randomness-request';
+
+export interface BlockRef {
+  number: bigint;
+  hash: Hash;
+  timestamp: bigint;
+}
+
+/**
+ * A request assembled from Anyrand's events, along with the account that sent
+ * it. `requester` is the contract that called Anyrand (usually a consumer
+ * contract), whereas `requestedBy` is the sender of the transaction.
+ */
+export interface IndexedRequest extends RandomnessRequest {
+  requestedBy: Address;
+}
+
+export interface IndexedRequestFilter {
+  requestId?: bigint;
+  /** Matches both the calling contract and the sender of the request */
+  requester?: Address;
+  operator?: Address;
+  status?: RequestStatus[];
+  round?: bigint;
+  fromTimestamp?: bigint;
+  toTimestamp?: bigint;
+}
+
+export interface IndexerUpdate {
+  /** New requests, and previously indexed requests that have been fulfilled */
+  requests: IndexedRequest[];
+  /** Blocks that the indexed events were emitted in */
+  blocks: BlockRef[];
+  /** Last block (inclusive) that has been synced */
+  cursor: BlockRef;
+}
+
+export interface IndexerStore {
+  getCursor(): Promise<BlockRef | undefined>;
+  /** Blocks that indexed events were emitted in, used to detect reorgs */
+  getBlocks(): Promise<BlockRef[]>;
+  getRequest(requestId: bigint): Promise<IndexedRequest | undefined>;
+  /** Requests matching `filter`, in order of request ID */
+  getRequests(filter?: IndexedRequestFilter): Promise<IndexedRequest[]>;
+  /** Apply an update atomically */
+  commit(update: IndexerUpdate): Promise<void>;
+  /**
+   * Forget everything that happened after `block`, which becomes the cursor.
+   * Without a block, the store is emptied.
+   */
+  rollback(block?: BlockRef): Promise<void>;
+}
+
+export function matchesFilter(
+  request: IndexedRequest,
+  filter: IndexedRequestFilter = {}
+) {
+  return (
+    (typeof filter.requestId === 'undefined' ||
+      request.id === filter.requestId) &&
+    (!filter.requester ||
+      isAddressEqual(request.requester, filter.requester) ||
+      isAddressEqual(request.requestedBy, filter.requester)) &&
+    (!filter.operator ||
+      (!!request.fulfillment &&
+        isAddressEqual(request.fulfillment.operator, filter.operator))) &&
+    (!filter.status || filter.status.includes(request.status)) &&
+    (typeof filter.round === 'undefined' || request.round === filter.round) &&
+    (typeof filter.fromTimestamp === 'undefined' ||
+      request.timestamp >= filter.fromTimestamp) &&
+    (typeof filter.toTimestamp === 'undefined' ||
+      request.timestamp <= filter.toTimestamp)
+  );
+}
+
+/**
+ * Undo the part of a request that happened after `blockNumber`. Returns
+ * undefined if the request itself was made after it.
+ */
+function rollbackRequest(
+  request: IndexedRequest,
+  blockNumber: bigint
+): IndexedRequest | undefined {
+  if (request.blockNumber > blockNumber) return undefined;
+  if (request.fulfillment && request.fulfillment.blockNumber > blockNumber) {
+    const pending = { ...request, status: RequestStatus.Pending };
+    delete pending.fulfillment;
+    return pending;
+  }
+  return request;
+}
+
+const byId = (a: IndexedRequest, b: IndexedRequest) =>
+  a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+
+/**
+ * Keeps the index in memory only; it is rebuilt from scratch on every load
+ */
+export class MemoryIndexerStore implements IndexerStore {
+  private cursor?: BlockRef;
+  private blocks = new Map<bigint, BlockRef>();
+  private requests = new Map<bigint, IndexedRequest>();
+
+  async getCursor() {
+    return this.cursor;
+  }
+
+  async getBlocks() {
+    return Array.from(this.blocks.values());
+  }
+
+  async getRequest(requestId: bigint) {
+    return this.requests.get(requestId);
+  }
+
+  async getRequests(filter?: IndexedRequestFilter) {
+    return Array.from(this.requests.values())
+      .filter((request) => matchesFilter(request, filter))
+      .sort(byId);
+  }
+
+  async commit({ requests, blocks, cursor }: IndexerUpdate) {
+    for (const request of requests) {
+      this.requests.set(request.id, structuredClone(request));
+    }
+    for (const block of blocks) {
+      this.blocks.set(block.number, block);
+    }
+    this.cursor = cursor;
+  }
+
+  async rollback(block?: BlockRef) {
+    const blockNumber = block ? block.number : -1n;
+    for (const [id, request] of this.requests) {
+      const rolledBack = rollbackRequest(request, blockNumber);
+      if (rolledBack) {
+        this.requests.set(id, rolledBack);
+      } else {
+        this.requests.delete(id);
+      }
+    }
+    for (const number of this.blocks.keys()) {
+      if (number > blockNumber) this.blocks.delete(number);
+    }
+    this.cursor = block;
+  }
+}
+
+/**
+ * Row in the `requests` object store. IndexedDB can store bigints but can't
+ * use them as keys, so the indexed fields are duplicated as numbers and
+ * lowercase strings.
+ */
+interface RequestRow {
+  id: number;
+  requester: string;
+  requestedBy: string;
+  status: number;
+  round: number;
+  timestamp: number;
+  blockNumber: number;
+  fulfilmentBlockNumber?: number;
+  request: IndexedRequest;
+}
+
+function toRow(request: IndexedRequest): RequestRow {
+  return {
+    id: Number(request.id),
+    requester: request.requester.toLowerCase(),
+    requestedBy: request.requestedBy.toLowerCase(),
+    status: request.status,
+    round: Number(request.round),
+    timestamp: Number(request.timestamp),
+    blockNumber: Number(request.blockNumber),
+    fulfilmentBlockNumber: request.fulfillment
+      ? Number(request.fulfillment.blockNumber)
+      : undefined,
+    request,
+  };
+}
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Persists the index in the browser's IndexedDB, so that it only needs to sync
+ * the blocks that were produced since the page was last open
+ */
+export class IndexedDbIndexerStore implements IndexerStore {
+  private db?: Promise<IDBDatabase>;
+
+  constructor(public readonly dbName: string) {}
+
+  private getDb() {
+    if (!this.db) {
+      const open = indexedDB.open(this.dbName, 1);
+      open.onupgradeneeded = () => {
+        const db = open.result;
+        const requests = db.createObjectStore('requests', { keyPath: 'id' });
+        for (const index of [
+          'requester',
+          'requestedBy',
+          'status',
+          'round',
+          'timestamp',
+          'blockNumber',
+          'fulfilmentBlockNumber',
+        ]) {
+          requests.createIndex(index, index);
+        }
+        db.createObjectStore('blocks', { keyPath: 'number' });
+        db.createObjectStore('meta');
+      };
+      this.db = promisify(open);
+    }
+    return this.db;
+  }
+
+  async getCursor() {
+    const db = await this.getDb();
+    const tx = db.transaction('meta', 'readonly');
+    return (await promisify(tx.objectStore('meta').get('cursor'))) as
+      | BlockRef
+      | undefined;
+  }
+
+  async getBlocks() {
+    const db = await this.getDb();
+    const rows = await promisify(
+      db.transaction('blocks', 'readonly').objectStore('blocks').getAll()
+    );
+    return rows.map((row) => row.block as BlockRef);
+  }
+
+  async getRequest(requestId: bigint) {
+    const db = await this.getDb();
+    const row = (await promisify(
+      db
+        .transaction('requests', 'readonly')
+        .objectStore('requests')
+        .get(Number(requestId))
+    )) as RequestRow | undefined;
+    return row?.request;
+  }
+
+  async getRequests(filter: IndexedRequestFilter = {}) {
+    const db = await this.getDb();
+    const requests = db
+      .transaction('requests', 'readonly')
+      .objectStore('requests');
+
+    // Narrow down with the most selective index, then apply the full filter
+    let rows: RequestRow[];
+    if (typeof filter.requestId !== 'undefined') {
+      const row = await promisify(requests.get(Number(filter.requestId)));
+      rows = row ? [row] : [];
+    } else if (typeof filter.round !== 'undefined') {
+      rows = await promisify(
+        requests.index('round').getAll(Number(filter.round))
+      );
+    } else if (filter.requester) {
+      const requester = filter.requester.toLowerCase();
+      const [byRequester, bySender] = await Promise.all([
+        promisify(requests.index('requester').getAll(requester)),
+        promisify(requests.index('requestedBy').getAll(requester)),
+      ]);
+      rows = [...byRequester, ...bySender];
+    } else if (
+      typeof filter.fromTimestamp !== 'undefined' ||
+      typeof filter.toTimestamp !== 'undefined'
+    ) {
+      rows = await promisify(
+        requests
+          .index('timestamp')
+          .getAll(
+            IDBKeyRange.bound(
+              Number(filter.fromTimestamp ?? 0n),
+              typeof filter.toTimestamp === 'undefined'
+                ? Infinity
+                : Number(filter.toTimestamp)
+            )
+          )
+      );
+    } else if (filter.status?.length === 1) {
+      rows = await promisify(requests.index('status').getAll(filter.status[0]));
+    } else {
+      rows = await promisify(requests.getAll());
+    }
+
+    const unique = new Map(rows.map((row) => [row.id, row.request]));
+    return Array.from(unique.values())
+      .filter((request) => matchesFilter(request, filter))
+      .sort(byId);
+  }
+
+  async commit({ requests, blocks, cursor }: IndexerUpdate) {
+    const db = await this.getDb();
+    const tx = db.transaction(['requests', 'blocks', 'meta'], 'readwrite');
+    for (const request of requests) {
+      tx.objectStore('requests').put(toRow(request));
+    }
+    for (const block of blocks) {
+      tx.objectStore('blocks').put({ number: Number(block.number), block });
+    }
+    tx.objectStore('meta').put(cursor, 'cursor');
+    await transactionDone(tx);
+  }
+
+  async rollback(block?: BlockRef) {
+    const db = await this.getDb();
+    const tx = db.transaction(['requests', 'blocks', 'meta'], 'readwrite');
+    const requests = tx.objectStore('requests');
+    const after = IDBKeyRange.lowerBound(
+      block ? Number(block.number) : -1,
+      true
+    );
+    const rows: RequestRow[] = [
+      ...(await promisify(requests.index('blockNumber').getAll(after))),
+      ...(await promisify(
+        requests.index('fulfilmentBlockNumber').getAll(after)
+      )),
+    ];
+    for (const row of rows) {
+      const rolledBack = rollbackRequest(
+        row.request,
+        block ? block.number : -1n
+      );
+      if (rolledBack) {
+        requests.put(toRow(rolledBack));
+      } else {
+        requests.delete(row.id);
+      }
+    }
+    tx.objectStore('blocks').delete(after);
+    if (block) {
+      tx.objectStore('meta').put(block, 'cursor');
+    } else {
+      tx.objectStore('meta').delete('cursor');
+    }
+    await transactionDone(tx);
+  }
+}
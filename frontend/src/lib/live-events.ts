@@ -0,0 +1,160 @@
+import type { Address, PublicClient } from 'viem';
+import { anyrandAbi } from 'anyrand-sdk';
+import {
+  RequestStatus,
+  type RandomnessRequest,
+} from '@/types/anyrand/randomness-request';
+import { SUPPORTED_CHAINS } from './constants';
+
+/** How often to poll for new events when WebSockets aren't available */
+export const LIVE_POLLING_INTERVAL_MS = 4_000;
+
+/** How events are being received */
+export type LiveMode = 'websocket' | 'polling';
+
+export type LiveRequestEvent =
+  | { type: 'requested'; requestId: bigint; blockNumber: bigint | null }
+  | {
+      type: 'fulfilled';
+      requestId: bigint;
+      callbackSuccess: boolean;
+      blockNumber: bigint | null;
+    };
+
+/** The parts of a decoded Anyrand log that live updates need */
+export interface AnyrandEventLog {
+  eventName: string;
+  /** Positional for events with unnamed arguments */
+  args: Record<string, unknown> | readonly unknown[];
+  blockNumber: bigint | null;
+}
+
+/** WebSocket RPC of a supported chain, if it declares one */
+export function getWebSocketUrl(chainId: number): string | undefined {
+  const chain = SUPPORTED_CHAINS.find(({ id }) => id === chainId);
+  const urls: readonly string[] | undefined =
+    chain?.rpcUrls.default && 'webSocket' in chain.rpcUrls.default
+      ? chain.rpcUrls.default.webSocket
+      : undefined;
+  return urls?.[0];
+}
+
+/**
+ * Pick out the request lifecycle events from Anyrand's logs. A reverted
+ * callback is a `RandomnessFulfilled` with `callbackSuccess` false, so
+ * `RandomnessCallbackFailed` adds nothing and is skipped.
+ */
+export function toLiveRequestEvents(
+  logs: readonly AnyrandEventLog[]
+): LiveRequestEvent[] {
+  return logs.flatMap(
+    ({ eventName, args, blockNumber }): LiveRequestEvent[] => {
+      if (Array.isArray(args)) return [];
+      const { requestId, callbackSuccess } = args as Record<string, unknown>;
+      if (typeof requestId !== 'bigint') return [];
+      switch (eventName) {
+        case 'RandomnessRequested':
+          return [{ type: 'requested', requestId, blockNumber }];
+        case 'RandomnessFulfilled':
+          return [
+            {
+              type: 'fulfilled',
+              requestId,
+              callbackSuccess: callbackSuccess === true,
+              blockNumber,
+            },
+          ];
+        default:
+          return [];
+      }
+    }
+  );
+}
+
+/**
+ * Settle requests that were fulfilled according to `events`, ahead of the index
+ * catching up with the fulfilment's details. Returns `requests` itself if none
+ * of them changed.
+ */
+export function applyLiveEvents(
+  requests: RandomnessRequest[],
+  events: readonly LiveRequestEvent[]
+): RandomnessRequest[] {
+  const settled = new Map<bigint, RequestStatus>();
+  for (const event of events) {
+    if (event.type === 'fulfilled') {
+      settled.set(
+        event.requestId,
+        event.callbackSuccess ? RequestStatus.Fulfilled : RequestStatus.Failed
+      );
+    }
+  }
+  let changed = false;
+  const updated = requests.map((request) => {
+    const status = settled.get(request.id);
+    if (typeof status === 'undefined' || request.status === status) {
+      return request;
+    }
+    changed = true;
+    return { ...request, status };
+  });
+  return changed ? updated : requests;
+}
+
+export interface WatchRequestEventsOptions {
+  address: Address;
+  /** Null if the chain has no WebSocket RPC */
+  webSocketClient: PublicClient | null;
+  httpClient: PublicClient;
+  onEvents: (events: LiveRequestEvent[]) => void;
+  onModeChange?: (mode: LiveMode) => void;
+  pollingInterval?: number;
+}
+
+/**
+ * Watch Anyrand's request lifecycle events, over WebSockets if possible. If
+ * there's no WebSocket RPC or the subscription fails, falls back to polling
+ * over HTTP. Returns a function that stops watching.
+ */
+export function watchRequestEvents({
+  address,
+  webSocketClient,
+  httpClient,
+  onEvents,
+  onModeChange,
+  pollingInterval = LIVE_POLLING_INTERVAL_MS,
+}: WatchRequestEventsOptions): () => void {
+  const onLogs = (logs: readonly AnyrandEventLog[]) => {
+    const events = toLiveRequestEvents(logs);
+    if (events.length > 0) onEvents(events);
+  };
+
+  const poll = () => {
+    onModeChange?.('polling');
+    return httpClient.watchContractEvent({
+      address,
+      abi: anyrandAbi,
+      poll: true,
+      pollingInterval,
+      onLogs,
+    });
+  };
+
+  if (!webSocketClient) return poll();
+
+  let unwatch: () => void;
+  let hasFallenBack = false;
+  onModeChange?.('websocket');
+  unwatch = webSocketClient.watchContractEvent({
+    address,
+    abi: anyrandAbi,
+    onLogs,
+    onError: () => {
+      if (hasFallenBack) return;
+      hasFallenBack = true;
+      unwatch();
+      unwatch = poll();
+    },
+  });
+  return () => unwatch();
+}
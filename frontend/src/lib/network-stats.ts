@@ -0,0 +1,99 @@
+import type { PublicClient } from 'viem';
+import { anyrandAbi, type AnyrandDeployment } from 'anyrand-sdk';
+import {
+  calculateSuccessRate,
+  type NetworkStatistics,
+} from '@/types/anyrand/network-statistics';
+import { getIndexer } from './indexer/indexer';
+import type { IndexedRequest } from './indexer/store';
+
+export interface NetworkActivity {
+  /** `Anyrand.nextRequestId`; request IDs start at 1 */
+  nextRequestId: bigint;
+  /** All requests, in order of request ID */
+  requests: IndexedRequest[];
+  /** Timestamp of the last block that was indexed */
+  latestTimestamp: bigint;
+}
+
+/**
+ * Every request made to a deployment, and its fulfilment if there is one, as of
+ * the latest block. Only the blocks produced since the last call are scanned.
+ */
+export async function fetchNetworkActivity(
+  publicClient: PublicClient,
+  deployment: AnyrandDeployment
+): Promise<NetworkActivity> {
+  const indexer = getIndexer(publicClient, deployment);
+  const head = await indexer.sync();
+  const [nextRequestId, requests] = await Promise.all([
+    publicClient.readContract({
+      address: deployment.anyrand,
+      abi: anyrandAbi,
+      functionName: 'nextRequestId',
+      blockNumber: head.number,
+    }),
+    indexer.getRequests(),
+  ]);
+  return {
+    nextRequestId,
+    requests,
+    latestTimestamp: head.timestamp,
+  };
+}
+
+/**
+ * Derive network statistics from the activity that had happened by `asOf`
+ * (defaults to the latest indexed block), so that earlier periods can be
+ * compared against the present.
+ */
+export function aggregateNetworkStatistics(
+  activity: NetworkActivity,
+  asOf: bigint = activity.latestTimestamp
+): NetworkStatistics {
+  const requests = activity.requests.filter(
+    (request) => request.timestamp <= asOf
+  );
+  const fulfilments = requests.flatMap((request) =>
+    request.fulfillment && request.fulfillment.timestamp <= asOf
+      ? [{ request, fulfillment: request.fulfillment }]
+      : []
+  );
+
+  // Every request is counted in `nextRequestId`, even if its log wasn't found
+  const totalRequests =
+    asOf >= activity.latestTimestamp
+      ? activity.nextRequestId - 1n
+      : BigInt(requests.length);
+  const failedRequests = BigInt(
+    fulfilments.filter(({ fulfillment }) => !fulfillment.callbackSuccess).length
+  );
+  const fulfilledRequests = BigInt(fulfilments.length) - failedRequests;
+
+  const totalLatency = fulfilments.reduce(
+    (acc, { request, fulfillment }) =>
+      acc + (fulfillment.timestamp - request.timestamp),
+    0n
+  );
+
+  return {
+    totalRequests,
+    pendingRequests: totalRequests - BigInt(fulfilments.length),
+    fulfilledRequests,
+    failedRequests,
+    successRate: calculateSuccessRate(fulfilledRequests, failedRequests),
+    averageFulfillmentTime:
+      fulfilments.length > 0
+        ? Number(totalLatency / BigInt(fulfilments.length))
+        : 0,
+    totalFeesCollected: requests.reduce(
+      (acc, request) => acc + request.feePaid,
+      0n
+    ),
+    activeOperators: new Set(
+      fulfilments.map(({ fulfillment }) => fulfillment.operator.toLowerCase())
+    ).size,
+    lastUpdated:
+      asOf < activity.latestTimestamp ? asOf : activity.latestTimestamp,
+  };
+}
@@ -0,0 +1,118 @@
+import { formatEther, type Address, type Hash } from 'viem';
+import {
+  RequestStatus,
+  type RandomnessRequest,
+} from '@/types/anyrand/randomness-request';
+
+export type LifecycleStepStatus = 'done' | 'current' | 'upcoming' | 'failed';
+
+export interface LifecycleStep {
+  key: 'requested' | 'round' | 'fulfilled' | 'callback';
+  label: string;
+  status: LifecycleStepStatus;
+  description: string;
+  timestamp?: bigint;
+  transactionHash?: Hash;
+  account?: Address;
+}
+
+export interface RequestLifecycle {
+  /** As reported by `Anyrand.getRequestState`, which takes precedence over the index */
+  status: RequestStatus;
+  /** The index hasn't caught up with the request's state on chain yet */
+  isIndexBehind: boolean;
+  /** When the request's drand round is published, i.e. it can be fulfilled */
+  roundAvailableAt: bigint;
+  isRoundPublished: boolean;
+  steps: LifecycleStep[];
+}
+
+/**
+ * Lay out a request's lifecycle, from its request transaction to its callback.
+ * The request's state on chain is the source of truth: if the index is behind
+ * (e.g. it hasn't seen the fulfilment yet), steps that have happened on chain
+ * are still marked as done, just without their details.
+ */
+export function buildRequestLifecycle(
+  request: RandomnessRequest,
+  onChainStatus: RequestStatus,
+  now: bigint
+): RequestLifecycle {
+  const { fulfillment } = request;
+  const isRoundPublished = request.deadline <= now;
+  const isFulfilled =
+    onChainStatus === RequestStatus.Fulfilled ||
+    onChainStatus === RequestStatus.Failed;
+
+  const steps: LifecycleStep[] = [
+    {
+      key: 'requested',
+      label: 'Requested',
+      status: 'done',
+      description: `${formatEther(request.feePaid)} ETH paid for a callback with up to ${request.callbackGasLimit.toLocaleString()} gas`,
+      timestamp: request.timestamp,
+      transactionHash: request.transactionHash,
+      account: request.requester,
+    },
+    {
+      key: 'round',
+      label: 'Round published',
+      status: isRoundPublished || isFulfilled ? 'done' : 'current',
+      description: isRoundPublished
+        ? `drand round ${request.round} was published`
+        : `drand round ${request.round} is scheduled to be published`,
+      timestamp: request.deadline,
+    },
+  ];
+
+  if (isFulfilled) {
+    steps.push({
+      key: 'fulfilled',
+      label: 'Fulfilled',
+      status: 'done',
+      description: fulfillment
+        ? `Fulfilled with the signature of round ${fulfillment.round}`
+        : "Fulfilled, but the fulfilment hasn't been indexed yet",
+      timestamp: fulfillment?.timestamp,
+      transactionHash: fulfillment?.transactionHash,
+      account: fulfillment?.operator,
+    });
+  } else {
+    steps.push({
+      key: 'fulfilled',
+      label: 'Fulfilled',
+      status: isRoundPublished ? 'current' : 'upcoming',
+      description: isRoundPublished
+        ? 'Waiting for a keeper to fulfil the request'
+        : 'Can be fulfilled once the round is published',
+    });
+  }
+
+  const gasUsed = fulfillment
+    ? ` using ${fulfillment.actualGasUsed.toLocaleString()} of ${request.callbackGasLimit.toLocaleString()} gas`
+    : '';
+  steps.push({
+    key: 'callback',
+    label: 'Callback',
+    status:
+      onChainStatus === RequestStatus.Fulfilled
+        ? 'done'
+        : onChainStatus === RequestStatus.Failed
+          ? 'failed'
+          : 'upcoming',
+    description:
+      onChainStatus === RequestStatus.Fulfilled
+        ? `The requester received the randomness${gasUsed}`
+        : onChainStatus === RequestStatus.Failed
+          ? `The requester's callback reverted${gasUsed}`
+          : 'The randomness is delivered to the requester in the fulfilment',
+  });
+
+  return {
+    status: onChainStatus,
+    isIndexBehind: request.status !== onChainStatus,
+    roundAvailableAt: request.deadline,
+    isRoundPublished,
+    steps,
+  };
+}
@@ -0,0 +1,45 @@
+import type { Address, Hex } from 'viem';
+import { createProofBundle, type ProofBundle } from '@anyrand/lib/proof';
+import type { RandomnessRequest } from '@/types/anyrand/randomness-request';
+
+export interface ProofContext {
+  chainId: number;
+  anyrand: Address;
+  /** Raw public key of the beacon that the request was fulfilled with */
+  beaconPublicKey: Hex;
+}
+
+/**
+ * Export the proof that a fulfilled request's randomness came from its drand
+ * round, for `/anyrand/verify` or `yarn verify-proof` to re-check offline.
+ * Throws if the request hasn't been fulfilled, or its signature couldn't be
+ * recovered from the fulfilment's calldata.
+ */
+export function buildRequestProof(
+  request: RandomnessRequest,
+  { chainId, anyrand, beaconPublicKey }: ProofContext
+): ProofBundle {
+  const { fulfillment } = request;
+  if (!fulfillment) {
+    throw new Error(`Request #${request.id} hasn't been fulfilled yet`);
+  }
+  if (fulfillment.signature[0] === 0n && fulfillment.signature[1] === 0n) {
+    throw new Error(
+      `Couldn't recover the signature that request #${request.id} was fulfilled with`
+    );
+  }
+  return createProofBundle({
+    chainId: BigInt(chainId),
+    anyrand,
+    requestId: request.id,
+    requester: request.requester,
+    beaconPublicKey,
+    round: fulfillment.round,
+    signature: fulfillment.signature,
+    randomness: fulfillment.randomness,
+  });
+}
+
+export function getProofFileName(bundle: ProofBundle) {
+  return `anyrand-proof-${bundle.chainId}-${bundle.requestId}.json`;
+}
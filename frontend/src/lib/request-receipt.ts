@@ -0,0 +1,71 @@
+import {
+  isAddressEqual,
+  parseEventLogs,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type TransactionReceipt,
+} from 'viem';
+import { anyrandAbi } from 'anyrand-sdk';
+import {
+  RequestStatus,
+  type RandomnessRequest,
+} from '@/types/anyrand/randomness-request';
+import { fetchBeaconTiming, getRoundAvailableAt } from './beacon-time';
+
+/**
+ * Find the `RandomnessRequested` event that `anyrand` emitted in a request
+ * transaction. Requests are usually made through a consumer (e.g. its
+ * `getRandom`), so the event is emitted by a call nested in the transaction.
+ */
+export function getRequestedEvent(
+  receipt: TransactionReceipt,
+  anyrand: Address
+) {
+  const [event] = parseEventLogs({
+    abi: anyrandAbi,
+    eventName: 'RandomnessRequested',
+    logs: receipt.logs.filter((log) => isAddressEqual(log.address, anyrand)),
+  });
+  if (!event) {
+    throw new Error(
+      `Transaction ${receipt.transactionHash} didn't request randomness from ${anyrand}`
+    );
+  }
+  return event;
+}
+
+/**
+ * Wait for a request transaction to be confirmed, and read back the request
+ * it made as it was recorded by the coordinator.
+ */
+export async function waitForRequest(
+  publicClient: PublicClient,
+  hash: Hash,
+  anyrand: Address
+): Promise<RandomnessRequest> {
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success') {
+    throw new Error(`Request transaction ${hash} reverted`);
+  }
+  const { args } = getRequestedEvent(receipt, anyrand);
+  const [block, timing] = await Promise.all([
+    publicClient.getBlock({ blockNumber: receipt.blockNumber }),
+    fetchBeaconTiming(publicClient, anyrand, args.pubKeyHash),
+  ]);
+  return {
+    id: args.requestId,
+    requester: args.requester,
+    // The deadline isn't emitted, but the round it was rounded up to is
+    deadline: getRoundAvailableAt(timing, args.round),
+    callbackGasLimit: args.callbackGasLimit,
+    feePaid: args.feePaid,
+    effectiveFeePerGas: args.effectiveFeePerGas,
+    status: RequestStatus.Pending,
+    transactionHash: hash,
+    blockNumber: receipt.blockNumber,
+    timestamp: block.timestamp,
+    pubKeyHash: args.pubKeyHash,
+    round: args.round,
+  };
+}
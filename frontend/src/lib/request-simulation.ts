@@ -0,0 +1,122 @@
+import { encodeFunctionData, type Address, type PublicClient } from 'viem';
+import {
+  anyrandAbi,
+  anyrandConsumerAbi,
+  FULFILL_GAS_OVERHEAD,
+  type ScenarioQuote,
+} from 'anyrand-sdk';
+import { AnyrandViemClient } from 'anyrand-sdk/viem';
+import { parseContractError } from './contract-errors';
+import type {
+  FeeBreakdown,
+  SimulationResult,
+} from '@/types/anyrand/frontend-api';
+
+/**
+ * Split a quoted fee into the raw cost of fulfilment and the premium. The
+ * execution gas cost is known exactly; the L1 data fee is only known with the
+ * premium applied, so its raw cost may be off by a few wei.
+ */
+export function getFeeBreakdown(
+  quote: ScenarioQuote,
+  callbackGasLimit: bigint,
+  requestPremiumMultiplierBps: bigint
+): FeeBreakdown {
+  const common = {
+    gasPrice: quote.gasPrice,
+    callbackGasLimit,
+    totalFee: quote.value,
+    requestPremiumMultiplierBps,
+    capped: quote.capped,
+  };
+  if (quote.capped || requestPremiumMultiplierBps === 0n) {
+    return {
+      ...common,
+      baseFee: quote.value,
+      l1Fee: 0n,
+      operatorReward: quote.value,
+      protocolFee: 0n,
+    };
+  }
+  const baseFee = (FULFILL_GAS_OVERHEAD + callbackGasLimit) * quote.gasPrice;
+  const l1Fee = (quote.l1Fee * 10_000n) / requestPremiumMultiplierBps;
+  return {
+    ...common,
+    baseFee,
+    l1Fee,
+    operatorReward: baseFee + l1Fee,
+    protocolFee: quote.value - baseFee - l1Fee,
+  };
+}
+
+/**
+ * Simulate requesting randomness through a consumer's `getRandom` (as
+ * `AnyrandConsumer` implements it), sent by `account` with the exact fee
+ * quoted at the fast gas price. Reverts are explained with
+ * `parseContractError`.
+ */
+export async function simulateRequest(
+  publicClient: PublicClient,
+  {
+    anyrand,
+    consumer,
+    account,
+    deadline,
+    callbackGasLimit,
+  }: {
+    anyrand: Address;
+    consumer: Address;
+    account: Address;
+    deadline: bigint;
+    callbackGasLimit: bigint;
+  }
+): Promise<SimulationResult> {
+  const [quote, requestPremiumMultiplierBps] = await Promise.all([
+    new AnyrandViemClient(anyrand, publicClient).getRequestQuote(
+      callbackGasLimit
+    ),
+    publicClient.readContract({
+      address: anyrand,
+      abi: anyrandAbi,
+      functionName: 'requestPremiumMultiplierBps',
+    }),
+  ]);
+  const { fast } = quote.scenarios;
+  const feeBreakdown = getFeeBreakdown(
+    fast,
+    callbackGasLimit,
+    requestPremiumMultiplierBps
+  );
+  const warnings: string[] = [];
+  if (fast.capped) {
+    warnings.push(
+      "Gas prices are above the coordinator's maximum, so fulfilment may be delayed until they fall"
+    );
+  }
+
+  const tx = {
+    account,
+    to: consumer,
+    data: encodeFunctionData({
+      abi: anyrandConsumerAbi,
+      functionName: 'getRandom',
+      args: [deadline, callbackGasLimit],
+    }),
+    value: fast.value,
+    // The coordinator prices requests at `tx.gasprice`
+    gasPrice: fast.gasPrice,
+  };
+  try {
+    await publicClient.call(tx);
+    const gasEstimate = await publicClient.estimateGas(tx);
+    return { success: true, gasEstimate, warnings, feeBreakdown };
+  } catch (error) {
+    return {
+      success: false,
+      gasEstimate: 0n,
+      revertReason: parseContractError(error).userMessage,
+      warnings,
+      feeBreakdown,
+    };
+  }
+}
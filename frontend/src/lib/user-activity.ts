@@ -0,0 +1,166 @@
+import {
+  isAddressEqual,
+  type Address,
+  type Hash,
+  type PublicClient,
+} from 'viem';
+import { calculateSuccessRate } from '@/types/anyrand/network-statistics';
+import { RequestStatus } from '@/types/anyrand/randomness-request';
+import type { UserActivity } from '@/types/anyrand/user-activity';
+import type { IndexedRequest } from './indexer/store';
+import type { NetworkActivity } from './network-stats';
+
+/**
+ * Number of requests & fulfilments listed in `recentRequests` and
+ * `recentFulfillments`
+ */
+const RECENT_ACTIVITY_COUNT = 10;
+
+function isFulfilledBy(request: IndexedRequest, operator: Address) {
+  return Boolean(
+    request.fulfillment &&
+      isAddressEqual(request.fulfillment.operator, operator)
+  );
+}
+
+/**
+ * Whether `address` made a request, either by sending the transaction (usually
+ * to a consumer contract) or by calling Anyrand itself
+ */
+function isRequestedBy(request: IndexedRequest, address: Address) {
+  return (
+    isAddressEqual(request.requestedBy, address) ||
+    isAddressEqual(request.requester, address)
+  );
+}
+
+/**
+ * Fetch what each of the operator's fulfilment transactions cost them in wei,
+ * including the L1 data fee on rollups that report it in receipts.
+ */
+export async function fetchFulfilmentCosts(
+  publicClient: PublicClient,
+  activity: NetworkActivity,
+  operator: Address
+): Promise<Map<Hash, bigint>> {
+  const hashes = new Set(
+    activity.requests
+      .filter((request) => isFulfilledBy(request, operator))
+      .map((request) => request.fulfillment!.transactionHash)
+  );
+  const costs = new Map<Hash, bigint>();
+  await Promise.all(
+    Array.from(hashes).map(async (hash) => {
+      const receipt = await publicClient.getTransactionReceipt({ hash });
+      const l1Fee = (receipt as { l1Fee?: bigint | string | null }).l1Fee;
+      costs.set(
+        hash,
+        receipt.gasUsed * receipt.effectiveGasPrice +
+          (l1Fee ? BigInt(l1Fee) : 0n)
+      );
+    })
+  );
+  return costs;
+}
+
+/**
+ * Activity of a single account. Fees aren't paid to operators directly; they
+ * accrue in the coordinator, so `totalFeesEarned` is the sum of the fees paid
+ * for the requests the account fulfilled, net of what it spent on gas to
+ * fulfil them.
+ */
+export function aggregateUserActivity(
+  activity: NetworkActivity,
+  address: Address,
+  fulfilmentCosts: Map<Hash, bigint>
+): UserActivity {
+  const submitted = activity.requests.filter((request) =>
+    isRequestedBy(request, address)
+  );
+  const fulfilled = activity.requests.filter((request) =>
+    isFulfilledBy(request, address)
+  );
+
+  // A transaction that fulfilled several requests is split evenly between them
+  const requestsPerTx = new Map<Hash, bigint>();
+  for (const { fulfillment } of fulfilled) {
+    const hash = fulfillment!.transactionHash;
+    requestsPerTx.set(hash, (requestsPerTx.get(hash) ?? 0n) + 1n);
+  }
+  const totalFeesSpent = submitted.reduce(
+    (acc, request) => acc + request.feePaid,
+    0n
+  );
+  const totalFeesEarned = fulfilled.reduce((acc, request) => {
+    const hash = request.fulfillment!.transactionHash;
+    const gasCost =
+      (fulfilmentCosts.get(hash) ?? 0n) / requestsPerTx.get(hash)!;
+    return acc + request.feePaid - gasCost;
+  }, 0n);
+
+  const timestamps = [
+    ...submitted.map((request) => request.timestamp),
+    ...fulfilled.map((request) => request.fulfillment!.timestamp),
+  ];
+  const byMostRecent = <T extends { timestamp: bigint }>(a: T, b: T) =>
+    a.timestamp > b.timestamp ? -1 : a.timestamp < b.timestamp ? 1 : 0;
+
+  return {
+    address,
+    requestsSubmitted: BigInt(submitted.length),
+    requestsFulfilled: BigInt(fulfilled.length),
+    totalFeesSpent,
+    totalFeesEarned,
+    averageRequestValue:
+      submitted.length > 0 ? totalFeesSpent / BigInt(submitted.length) : 0n,
+    firstActivityTimestamp: timestamps.reduce(
+      (min, timestamp) => (timestamp < min ? timestamp : min),
+      timestamps[0] ?? 0n
+    ),
+    lastActivityTimestamp: timestamps.reduce(
+      (max, timestamp) => (timestamp > max ? timestamp : max),
+      0n
+    ),
+    activeRequests: submitted.filter(
+      (request) => request.status === RequestStatus.Pending
+    ),
+    recentRequests: [...submitted]
+      .sort(byMostRecent)
+      .slice(0, RECENT_ACTIVITY_COUNT),
+    recentFulfillments: fulfilled
+      .map((request) => request.fulfillment!)
+      .sort(byMostRecent)
+      .slice(0, RECENT_ACTIVITY_COUNT),
+  };
+}
+
+/**
+ * How quickly an operator fulfils requests (seconds from request to
+ * fulfilment), and the share of its fulfilments whose callback succeeded
+ */
+export function getOperatorPerformance(
+  activity: NetworkActivity,
+  operator: Address
+): { successRate: number; averageResponseTime: number } {
+  const fulfilled = activity.requests.filter((request) =>
+    isFulfilledBy(request, operator)
+  );
+  const failed = fulfilled.filter(
+    (request) => !request.fulfillment!.callbackSuccess
+  ).length;
+  const totalResponseTime = fulfilled.reduce(
+    (acc, request) =>
+      acc + (request.fulfillment!.timestamp - request.timestamp),
+    0n
+  );
+  return {
+    successRate: calculateSuccessRate(
+      BigInt(fulfilled.length - failed),
+      BigInt(failed)
+    ),
+    averageResponseTime:
+      fulfilled.length > 0
+        ? Number(totalResponseTime / BigInt(fulfilled.length))
+        : 0,
+  };
+}
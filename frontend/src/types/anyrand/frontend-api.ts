@@ -17,6 +17,10 @@ import {
 } from './randomness-request'
 import { NetworkStatistics } from './network-statistics'
 import { UserActivity } from './user-activity'
+import type { BlockRef } from '../../lib/indexer/store'
+import type { LiveMode } from '../../lib/live-events'
+
+export type { SubmitRequestParams, SubmitRequestResult }
 
 // ============================================================================
 // Data Query API
@@ -52,6 +56,24 @@ export interface RequestQueryParams {
   sortDirection?: 'asc' | 'desc'
 }
 
+// ============================================================================
+// HTTP API (served under /api/chains/[chainId])
+// ============================================================================
+
+// Same filters & sorting as the hooks, but paged with an opaque cursor so that
+// pages stay stable while new requests are indexed
+export interface RequestApiParams extends Omit<RequestQueryParams, 'page'> {
+  cursor?: string
+}
+
+export interface ApiPage<T> {
+  data: T[]
+  totalItems: number
+  pageSize: number
+  // Pass as `cursor` to fetch the next page; null on the last page
+  nextCursor: string | null
+}
+
 // ============================================================================
 // Hook Interfaces
 // ============================================================================
@@ -66,16 +88,31 @@ export interface RequestSubmissionHook {
 
 export interface RequestFulfillmentHook {
   fulfill: (params: FulfillRequestParams) => Promise<FulfillRequestResult>
+  // Fulfils several requests, fetching each round's signature once and sending
+  // a transaction per request with consecutive nonces
+  fulfillBatch: (requests: RandomnessRequest[]) => Promise<BatchFulfillmentItem[]>
+  // Progress of the current (or last) batch
+  batchProgress: BatchFulfillmentItem[]
   isLoading: boolean
   error: Error | null
   canFulfill: (requestId: bigint) => boolean
 }
 
-export interface BlockInfo {
-  currentBlock: bigint
-  fromBlock: bigint
-  toBlock: bigint
-  blockRange: number
+export type BatchFulfillmentStatus = 'queued' | 'submitted' | 'confirmed' | 'failed'
+
+export interface BatchFulfillmentItem {
+  requestId: bigint
+  round: bigint
+  status: BatchFulfillmentStatus
+  transactionHash?: Hash
+  error?: ContractError
+}
+
+export interface IndexerSyncStatus {
+  /** Block the coordinator was deployed in, where indexing starts */
+  deployBlock: bigint
+  /** Latest block that has been indexed */
+  indexedBlock: BlockRef
 }
 
 export interface RequestsQueryHook {
@@ -83,12 +120,35 @@ export interface RequestsQueryHook {
   getRequest: (id: bigint) => RandomnessRequest | undefined
   getUserRequests: (address: Address) => PaginatedQuery<RandomnessRequest>
   getPendingRequests: () => PaginatedQuery<RandomnessRequest>
-  // Block pagination
-  blockInfo: BlockInfo | null
-  currentBlockPage: number
-  goToNextBlockPage: () => void
-  goToPreviousBlockPage: () => void
-  goToBlockPage: (page: number) => void
+  updateQueryParams: (params: Partial<RequestQueryParams>) => void
+  syncStatus: IndexerSyncStatus | null
+}
+
+export interface RequestDetail {
+  request: RandomnessRequest
+  // From `Anyrand.getRequestState`, which takes precedence over the index
+  onChainStatus: RequestStatus
+}
+
+export interface RequestDetailHook {
+  // Null if there's no such request
+  detail: RequestDetail | null
+  isLoading: boolean
+  error: Error | null
+  refetch: () => void
+}
+
+export interface LiveRequestsHook {
+  // How new events are received, or null while live updates are off
+  mode: LiveMode | null
+  lastEventAt: Date | null
+}
+
+export interface ProofExportHook {
+  // Downloads the proof bundle of a fulfilled request as JSON
+  exportProof: (request: RandomnessRequest) => Promise<void>
+  isExporting: boolean
+  error: Error | null
 }
 
 export interface StatisticsQueryHook {
@@ -134,13 +194,27 @@ export interface SimulationResult {
   feeBreakdown: FeeBreakdown
 }
 
+// Split of a request's fee, as priced by `Anyrand.getRequestPrice`
 export interface FeeBreakdown {
+  /** Raw cost of the fulfilment's execution gas (overhead & callback) */
   baseFee: bigint
+  /** Gas price the request is priced at, which it must be sent with */
   gasPrice: bigint
   callbackGasLimit: bigint
+  /** Raw cost of the fulfilment's L1 data fee, on L2s */
+  l1Fee: bigint
+  /** Exact value to send with the request */
   totalFee: bigint
+  /** Reimburses the fulfilment's raw cost, `baseFee + l1Fee` */
   operatorReward: bigint
+  /** Premium on top of the raw cost, from `requestPremiumMultiplierBps` */
   protocolFee: bigint
+  requestPremiumMultiplierBps: bigint
+  /**
+   * Whether the fee was capped at `maxFeePerGas * callbackGasLimit`. Capped
+   * fees aren't split into a raw cost and premium: all of it is `baseFee`.
+   */
+  capped: boolean
 }
 
 export interface TransactionStatus {
@@ -163,8 +237,12 @@ export interface TransactionTrackingHook {
 // ============================================================================
 
 export interface ContractError {
+  // e.g. USER_REJECTED, NETWORK_ERROR, or a decoded custom error such as
+  // INVALID_REQUEST_STATE
   code: string
   message: string
+  // Decoded arguments of a custom error, by name
+  args?: Record<string, unknown>
   details?: any
   userMessage: string
   retry?: () => void
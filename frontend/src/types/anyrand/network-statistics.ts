@@ -60,7 +60,9 @@ export function calculateAverageValue(
 export function getNetworkHealthStatus(
   stats: NetworkStatistics
 ): NetworkHealth {
-  const pendingRatio = Number(stats.pendingRequests * 100n / stats.totalRequests)
+  const pendingRatio = stats.totalRequests > 0n
+    ? Number(stats.pendingRequests * 100n / stats.totalRequests)
+    : 0
   const operatorCount = stats.activeOperators
 
   let status: NetworkHealth['status'] = 'healthy'
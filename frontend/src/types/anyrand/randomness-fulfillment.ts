@@ -55,12 +55,4 @@ export function getFulfillmentEfficiency(
 ): number {
   if (callbackGasLimit === 0n) return 0
   return Number((actualGasUsed * 100n) / callbackGasLimit)
-}
-
-export function getDrandRoundTimestamp(round: bigint): bigint {
-  // DRAND genesis timestamp and round period
-  const genesisTime = 1692803367n // DRAND chain genesis
-  const period = 30n // 30 seconds per round
-
-  return genesisTime + (round - 1n) * period
 }
\ No newline at end of file
@@ -10,6 +10,8 @@ export enum RequestStatus {
 export interface RandomnessRequest {
   id: bigint
   requester: Address
+  // When the request's DRAND round is published and it can be fulfilled. The
+  // deadline that was requested isn't emitted, but it rounds up to this round
   deadline: bigint
   callbackGasLimit: bigint
   feePaid: bigint
@@ -32,8 +34,20 @@ export interface RandomnessFulfillment {
   transactionHash: Hash
   blockNumber: bigint
   timestamp: bigint
+  // Beacon, round & signature the request was fulfilled with, decoded from the
+  // fulfilment's calldata. The signature is zero if it couldn't be decoded
+  pubKeyHash: Hex
   round: bigint
   signature: [bigint, bigint]
+  // From `RandomnessCallbackFailed`, if the callback reverted
+  callbackFailure?: CallbackFailure
+}
+
+export interface CallbackFailure {
+  // Only the first 32 bytes of the revert data, zero-padded
+  retdata: Hex
+  gasLimit: bigint
+  actualGasUsed: bigint
 }
 
 export interface SubmitRequestParams {
@@ -44,6 +58,8 @@ export interface SubmitRequestParams {
 export interface SubmitRequestResult {
   transactionHash: Hash
   requestId: bigint
+  // As recorded by the coordinator in `RandomnessRequested`, once confirmed
+  request: RandomnessRequest
 }
 
 export interface FulfillRequestParams {
@@ -93,5 +109,5 @@ export function getStatusText(status: RequestStatus): string {
 
 export function canFulfillRequest(request: RandomnessRequest): boolean {
   const now = BigInt(Math.floor(Date.now() / 1000))
-  return request.status === RequestStatus.Pending && request.deadline < now
+  return request.status === RequestStatus.Pending && request.deadline <= now
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { keccak256 } from 'viem'
 import { bn254 } from '@kevincharm/noble-bn254-drand'
+import { DRAND_BEACON_ID, DRAND_URL } from '@/lib/constants'
 
 /**
  * Fetch real DRAND signature from the evmnet beacon (like quickstart script)
@@ -13,7 +14,7 @@ export async function generateTestnetBeaconSignature(
     console.log('Fetching real DRAND signature from evmnet beacon...')
 
     // Use the same approach as the quickstart script - fetch directly from DRAND API
-    const drandUrl = `https://api.drand.sh/v2/beacons/evmnet/rounds/${round.toString()}`
+    const drandUrl = `${DRAND_URL}/v2/beacons/${DRAND_BEACON_ID}/rounds/${round.toString()}`
     console.log('DRAND API URL:', drandUrl)
 
     const response = await fetch(drandUrl)
@@ -78,29 +79,3 @@ function generateDeterministicSignature(
 
   return [signatureX, signatureY]
 }
-
-/**
- * Calculate current DRAND round based on current time
- * Matches the approach used in quickstart script
- */
-export function getCurrentDrandRound(): bigint {
-  const currentTime = Math.floor(Date.now() / 1000)
-  return BigInt(Math.floor(currentTime / 30)) // DRAND 30-second periods
-}
-
-/**
- * Calculate estimated timestamp for a given DRAND round
- * Based on DRAND beacon configuration
- */
-export function getDrandRoundTimestamp(round: bigint, genesisTime: bigint = BigInt(1677685200), period: bigint = BigInt(30)): bigint {
-  return genesisTime + (round - 1n) * period
-}
-
-/**
- * Check if a DRAND round is available (timestamp has passed)
- */
-export function isDrandRoundAvailable(round: bigint): boolean {
-  const roundTimestamp = getDrandRoundTimestamp(round)
-  const currentTime = BigInt(Math.floor(Date.now() / 1000))
-  return currentTime >= roundTimestamp
-}
\ No newline at end of file
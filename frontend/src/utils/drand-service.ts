@@ -1,7 +1,7 @@
-import { bn254 } from '@kevincharm/noble-bn254-drand';
+import { verifyBeaconRound } from '@anyrand/lib/bls';
+import { DRAND_CHAIN_HASH, DRAND_URL as DRAND_API_URL } from '@/lib/constants';
 
-const DRAND_PUBLIC_KEY = process.env.NEXT_PUBLIC_DRAND_PUBLIC_KEY || '83cf0f2896adee7eb8b5f01fcad3912212c437e0073e911fb90022d3e760183c8c4b450b6a0a6c3ac6a5776a2d1064510d1fec758c921cc22b0e17e63aaf4bcb5ed66304de9cf809bd274ca73bab4af5a6e9c76a4bc09e76eae8991ef5ece45a';
-const DRAND_URL = 'https://api.drand.sh/52db9ba70e0cc0f6eaf7803dd07447a1f5477735fd3f661792ba94600c84e971';
+const DRAND_URL = `${DRAND_API_URL}/${DRAND_CHAIN_HASH}`;
 
 interface DrandBeacon {
   round: number;
@@ -80,15 +80,21 @@ export class DrandService {
   }
 
   /**
-   * Verify a DRAND signature using the noble-bn254-drand library
+   * Verify a DRAND signature exactly like the on-chain `DrandBeacon.verifyBeaconRound`
+   * @param round Beacon round
+   * @param signature Uncompressed G1 signature (x || y), as served by the DRAND API
+   * @param beaconPublicKey Public key bytes from the on-chain `DrandBeacon.publicKey()`
    */
-  async verifySignature(round: number, signature: string): Promise<boolean> {
+  async verifySignature(round: number, signature: string, beaconPublicKey: string): Promise<boolean> {
     try {
-      // For now, we'll skip verification and return true
-      // Proper BLS verification would require implementing the pairing check
-      // This is complex and the contract already does verification
-      console.log('Signature verification skipped (handled by contract)');
-      return true;
+      const sig = signature.replace(/^0x/, '');
+      if (sig.length !== 128) {
+        return false;
+      }
+      return verifyBeaconRound(beaconPublicKey, BigInt(round), [
+        BigInt(`0x${sig.slice(0, 64)}`),
+        BigInt(`0x${sig.slice(64)}`),
+      ]);
     } catch (error) {
       console.error('Signature verification failed:', error);
       return false;
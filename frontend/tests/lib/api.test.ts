@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { ApiError, parseRequestApiParams, queryRequests } from '../../src/lib/api/requests'
+import { RequestStatus } from '../../src/types/anyrand/randomness-request'
+import { activity, alice, keeper } from './fixtures'
+
+const parse = (query: string) => parseRequestApiParams(new URLSearchParams(query))
+
+describe('parseRequestApiParams', () => {
+  it('parses filters, sorting & page size', () => {
+    const params = parse(`requester=${alice}&status=pending,3&minFee=100&sortBy=fee&sortDirection=asc&pageSize=2`)
+    expect(params).toMatchObject({
+      pageSize: 2,
+      sortBy: 'fee',
+      sortDirection: 'asc',
+      filters: {
+        requester: alice,
+        status: [RequestStatus.Pending, RequestStatus.Failed],
+        minFee: 100n
+      }
+    })
+    expect(parse('')).toMatchObject({ pageSize: 25, sortBy: 'timestamp', sortDirection: 'desc' })
+  })
+
+  it('rejects invalid parameters', () => {
+    for (const query of ['requester=0x1234', 'status=lost', 'status=0', 'minFee=-1', 'pageSize=1000', 'sortBy=round']) {
+      expect(() => parse(query), query).toThrow(ApiError)
+    }
+  })
+})
+
+describe('queryRequests', () => {
+  it('pages through requests with a cursor', () => {
+    const first = queryRequests(activity.requests, parse('pageSize=3'))
+    expect(first.data.map((request) => request.id)).toEqual([4n, 3n, 2n])
+    expect(first.totalItems).toBe(4)
+
+    const second = queryRequests(activity.requests, parse(`pageSize=3&cursor=${first.nextCursor}`))
+    expect(second.data.map((request) => request.id)).toEqual([1n])
+    expect(second.nextCursor).toBeNull()
+  })
+
+  it('keeps cursors stable as requests are added', () => {
+    const first = queryRequests(activity.requests, parse('pageSize=2&sortBy=fee&sortDirection=asc'))
+    expect(first.data.map((request) => request.id)).toEqual([1n, 2n])
+
+    const cheaper = { ...activity.requests[0], id: 5n, feePaid: 50n }
+    const second = queryRequests([...activity.requests, cheaper], parse(`pageSize=2&sortBy=fee&sortDirection=asc&cursor=${first.nextCursor}`))
+    expect(second.data.map((request) => request.id)).toEqual([3n, 4n])
+  })
+
+  it('applies filters', () => {
+    const page = queryRequests(activity.requests, parse(`operator=${keeper}&maxFee=200`))
+    expect(page.data.map((request) => request.id)).toEqual([1n])
+  })
+
+  it('rejects malformed cursors', () => {
+    expect(() => queryRequests(activity.requests, parse('cursor=nonsense'))).toThrow(ApiError)
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import {
+  UserRejectedRequestError,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type WalletClient
+} from 'viem'
+import { fulfillBatch } from '../../src/lib/batch-fulfillment'
+import { RequestStatus, type RandomnessRequest } from '../../src/types/anyrand/randomness-request'
+import type { BatchFulfillmentItem } from '../../src/types/anyrand/frontend-api'
+import { consumer, keeper, txHash } from './fixtures'
+
+const anyrand = '0x5555555555555555555555555555555555555555' as Address
+const pubKeyHash = `0x${'ab'.repeat(32)}` as Hex
+
+function pendingRequest(id: bigint, round: bigint): RandomnessRequest {
+  return {
+    id,
+    requester: consumer,
+    deadline: 1000n,
+    callbackGasLimit: 100_000n,
+    feePaid: 1000n,
+    effectiveFeePerGas: 1n,
+    status: RequestStatus.Pending,
+    transactionHash: txHash(Number(id)),
+    blockNumber: 1n,
+    timestamp: 900n,
+    pubKeyHash,
+    round
+  }
+}
+
+// Sends fulfilments from nonce 7; `reject` is rejected in the wallet, and
+// `revert` is mined but reverts
+function fakeClients({ reject, revert }: { reject?: bigint; revert?: bigint } = {}) {
+  const sent: { requestId: bigint; nonce: number }[] = []
+  const publicClient = {
+    getTransactionCount: async () => 7,
+    waitForTransactionReceipt: async ({ hash }: { hash: Hash }) => ({
+      status: BigInt(hash) - 1000n === revert ? 'reverted' : 'success'
+    })
+  } as unknown as PublicClient
+  const walletClient = {
+    writeContract: async ({ args, nonce }: { args: readonly unknown[]; nonce: number }) => {
+      const requestId = args[0] as bigint
+      if (requestId === reject) {
+        throw new UserRejectedRequestError(new Error('User denied transaction'))
+      }
+      sent.push({ requestId, nonce })
+      return txHash(Number(requestId) + 1000)
+    }
+  } as unknown as WalletClient
+  return { publicClient, walletClient, sent }
+}
+
+describe('fulfillBatch', () => {
+  it("fetches each round's signature once and sends with consecutive nonces", async () => {
+    const { publicClient, walletClient, sent } = fakeClients({ revert: 3n })
+    const fetched: bigint[] = []
+    const progress: BatchFulfillmentItem[][] = []
+    const requests = [pendingRequest(1n, 20n), pendingRequest(2n, 10n), pendingRequest(3n, 20n)]
+
+    const items = await fulfillBatch(publicClient, walletClient, requests, {
+      anyrand,
+      account: keeper,
+      getSignature: async (_pubKeyHash, round) => {
+        fetched.push(round)
+        return [round, round]
+      },
+      onProgress: (update) => progress.push(update)
+    })
+
+    expect(fetched).toEqual([10n, 20n])
+    // Grouped by round, in order of round
+    expect(sent).toEqual([
+      { requestId: 2n, nonce: 7 },
+      { requestId: 1n, nonce: 8 },
+      { requestId: 3n, nonce: 9 }
+    ])
+    expect(items.map(({ requestId, status }) => [requestId, status])).toEqual([
+      [2n, 'confirmed'],
+      [1n, 'confirmed'],
+      [3n, 'failed']
+    ])
+    expect(items[2].error?.code).toBe('TRANSACTION_REVERTED')
+    expect(progress[0].every((item) => item.status === 'queued')).toBe(true)
+  })
+
+  it('fails the requests of a round whose signature is unavailable', async () => {
+    const { publicClient, walletClient, sent } = fakeClients()
+    const items = await fulfillBatch(
+      publicClient,
+      walletClient,
+      [pendingRequest(1n, 10n), pendingRequest(2n, 20n)],
+      {
+        anyrand,
+        account: keeper,
+        getSignature: async (_pubKeyHash, round) => {
+          if (round === 10n) throw new Error('Invalid DRAND signature for round 10')
+          return [round, round]
+        }
+      }
+    )
+    expect(items[0]).toMatchObject({
+      status: 'failed',
+      error: { userMessage: 'Invalid DRAND signature for round 10' }
+    })
+    expect(items[1].status).toBe('confirmed')
+    expect(sent).toEqual([{ requestId: 2n, nonce: 7 }])
+  })
+
+  it('cancels the rest of the batch when a transaction is rejected', async () => {
+    const { publicClient, walletClient, sent } = fakeClients({ reject: 2n })
+    const items = await fulfillBatch(
+      publicClient,
+      walletClient,
+      [pendingRequest(1n, 10n), pendingRequest(2n, 10n), pendingRequest(3n, 20n)],
+      { anyrand, account: keeper, getSignature: async (_pubKeyHash, round) => [round, round] }
+    )
+    expect(sent).toEqual([{ requestId: 1n, nonce: 7 }])
+    expect(items.map((item) => item.status)).toEqual(['confirmed', 'failed', 'failed'])
+    expect(items[2].error?.code).toBe('USER_REJECTED')
+  })
+})
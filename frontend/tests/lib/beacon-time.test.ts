@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { Address, PublicClient } from 'viem'
+import {
+  fetchBeaconTiming,
+  getLatestRoundAt,
+  getRoundAvailableAt,
+  getRoundForDeadline,
+  getSecondsUntilFulfillable
+} from '../../src/lib/beacon-time'
+import { txHash } from './fixtures'
+
+const timing = { genesisTimestamp: 1_000n, period: 3n }
+
+describe('beacon time', () => {
+  it('converts rounds to the time they are published and back', () => {
+    expect(getRoundAvailableAt(timing, 1n)).toBe(1_000n)
+    expect(getRoundAvailableAt(timing, 11n)).toBe(1_030n)
+    expect(getLatestRoundAt(timing, 999n)).toBe(0n)
+    expect(getLatestRoundAt(timing, 1_030n)).toBe(11n)
+    expect(getLatestRoundAt(timing, 1_032n)).toBe(11n)
+  })
+
+  it('assigns deadlines to the round that is published just before them', () => {
+    // As Anyrand.getRound, deadlines round up to a multiple of the period
+    expect(getRoundForDeadline(timing, 1_031n)).toBe(11n)
+    expect(getRoundForDeadline(timing, 1_033n)).toBe(11n)
+    expect(getRoundForDeadline(timing, 1_034n)).toBe(12n)
+    expect(getRoundAvailableAt(timing, 11n)).toBeLessThan(1_031n)
+  })
+
+  it('counts down until a request can be fulfilled', () => {
+    expect(getSecondsUntilFulfillable({ deadline: 1_030n }, 1_000n)).toBe(30)
+    expect(getSecondsUntilFulfillable({ deadline: 1_030n }, 1_030n)).toBe(0)
+    expect(getSecondsUntilFulfillable({ deadline: 1_030n }, 1_100n)).toBe(0)
+  })
+
+  it('reads each beacon once', async () => {
+    const readContract = vi.fn(async ({ functionName }: { functionName: string }) => {
+      switch (functionName) {
+        case 'beacon':
+          return '0x6666666666666666666666666666666666666666'
+        case 'publicKey':
+          return '0x'
+        case 'genesisTimestamp':
+          return 1_000n
+        case 'period':
+          return 3n
+      }
+    })
+    const client = { readContract } as unknown as PublicClient
+    const anyrand = '0x5555555555555555555555555555555555555555' as Address
+
+    expect(await fetchBeaconTiming(client, anyrand, txHash(1))).toEqual(timing)
+    expect(await fetchBeaconTiming(client, anyrand, txHash(1))).toEqual(timing)
+    expect(readContract).toHaveBeenCalledTimes(4)
+  })
+})
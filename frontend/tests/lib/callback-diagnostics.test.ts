@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import {
+  concat,
+  encodeAbiParameters,
+  encodeErrorResult,
+  pad,
+  parseAbi,
+  slice,
+  type Hex,
+  type PublicClient
+} from 'viem'
+import { diagnoseCallbackFailure, replayCallback } from '../../src/lib/callback-diagnostics'
+import { alice, consumer } from './fixtures'
+
+const consumerAbi = parseAbi([
+  'error AlwaysBeErroring()',
+  'error TooLate(uint256 requestId, uint256 deadline)'
+])
+
+/** Revert data as emitted by `RandomnessCallbackFailed`: the first 32 bytes, zero-padded */
+function emitted(revertData: Hex) {
+  return pad(slice(revertData, 0, Math.min(32, (revertData.length - 2) / 2)), { dir: 'right' })
+}
+
+const errorString = concat([
+  '0x08c379a0',
+  encodeAbiParameters([{ type: 'string' }], ['Unknown requestId'])
+])
+const panic = concat(['0x4e487b71', encodeAbiParameters([{ type: 'uint256' }], [0x11n])])
+
+describe('diagnoseCallbackFailure', () => {
+  const failure = { gasLimit: 100_000n, actualGasUsed: 30_000n }
+
+  it('detects callbacks that ran out of gas', () => {
+    const diagnosis = diagnoseCallbackFailure({
+      retdata: pad('0x'),
+      gasLimit: 100_000n,
+      actualGasUsed: 102_600n
+    })
+    expect(diagnosis.reason).toBe('out-of-gas')
+    expect(diagnosis.gasUsedRatio).toBeCloseTo(1.026)
+
+    expect(diagnoseCallbackFailure({ ...failure, retdata: pad('0x') }).reason).toBe('empty')
+  })
+
+  it('recognises reason strings & panics, which are cut off', () => {
+    const reason = diagnoseCallbackFailure({ ...failure, retdata: emitted(errorString) })
+    expect(reason).toMatchObject({ reason: 'error-string', selector: '0x08c379a0', truncated: true })
+
+    const panicked = diagnoseCallbackFailure({ ...failure, retdata: emitted(panic) })
+    expect(panicked).toMatchObject({ reason: 'panic', selector: '0x4e487b71', truncated: true })
+  })
+
+  it("identifies custom errors from the consumer's ABI", () => {
+    const noArgs = emitted(encodeErrorResult({ abi: consumerAbi, errorName: 'AlwaysBeErroring' }))
+    expect(diagnoseCallbackFailure({ ...failure, retdata: noArgs }).reason).toBe('unknown')
+    expect(diagnoseCallbackFailure({ ...failure, retdata: noArgs }, consumerAbi)).toMatchObject({
+      reason: 'custom-error',
+      errorName: 'AlwaysBeErroring',
+      truncated: false
+    })
+
+    const withArgs = emitted(
+      encodeErrorResult({ abi: consumerAbi, errorName: 'TooLate', args: [1n, 2n] })
+    )
+    expect(diagnoseCallbackFailure({ ...failure, retdata: withArgs }, consumerAbi)).toMatchObject({
+      reason: 'custom-error',
+      errorName: 'TooLate',
+      truncated: true
+    })
+  })
+})
+
+describe('replayCallback', () => {
+  function traceClient(result: { gas: number; failed: boolean; returnValue: string }) {
+    const calls: unknown[] = []
+    const client = {
+      request: async (args: unknown) => {
+        calls.push(args)
+        return result
+      }
+    } as unknown as PublicClient
+    return { client, calls }
+  }
+
+  const params = {
+    anyrand: alice,
+    requester: consumer,
+    requestId: 1n,
+    randomness: 42n,
+    gasLimit: 100_000n
+  }
+
+  it('decodes the full revert reason', async () => {
+    const { client, calls } = traceClient({
+      gas: 25_000,
+      failed: true,
+      returnValue: errorString.slice(2)
+    })
+    const replay = await replayCallback(client, params)
+    expect(replay).toMatchObject({ success: false, returnData: errorString })
+    expect(replay.error?.message).toBe('Error: Unknown requestId')
+    const { method, params: [call] } = calls[0] as { method: string; params: [{ gas: Hex }] }
+    expect(method).toBe('debug_traceCall')
+    expect(call).toMatchObject({ from: alice, to: consumer })
+    // The callback gets its whole limit on top of the traced call's intrinsic gas
+    const intrinsicGas = BigInt(call.gas) - 100_000n
+    expect(intrinsicGas).toBeGreaterThan(21_000n)
+    expect(replay.gasUsed).toBe(25_000n - intrinsicGas)
+
+    const panicked = await replayCallback(
+      traceClient({ gas: 25_000, failed: true, returnValue: panic }).client,
+      params
+    )
+    expect(panicked.error?.message).toBe('Panic 0x11: Arithmetic overflow or underflow')
+  })
+
+  it("decodes custom errors from the consumer's ABI", async () => {
+    const returnValue = encodeErrorResult({ abi: consumerAbi, errorName: 'TooLate', args: [1n, 2n] })
+    const { client } = traceClient({ gas: 25_000, failed: true, returnValue })
+    expect((await replayCallback(client, params)).error).toBeUndefined()
+
+    const replay = await replayCallback(client, { ...params, consumerAbi })
+    expect(replay.error).toMatchObject({ name: 'TooLate', args: [1n, 2n] })
+    expect(replay.error?.message).toBe('TooLate(1, 2)')
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import {
+  concat,
+  encodeAbiParameters,
+  encodeErrorResult,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  parseEther,
+  RawContractError,
+  UserRejectedRequestError,
+  zeroHash,
+  type Hex
+} from 'viem'
+import { anyrandAbi, anyrandErrorAbi, drandBeaconAbi, RequestState } from 'anyrand-sdk'
+import {
+  isContractError,
+  isNetworkError,
+  isUserRejection,
+  parseContractError
+} from '../../src/lib/contract-errors'
+import { consumer } from './fixtures'
+
+// A revert as viem surfaces it from `eth_call`/`estimateGas`
+function revert(data: Hex) {
+  return new RawContractError({ data })
+}
+
+describe('parseContractError', () => {
+  it("decodes the coordinator's custom errors", () => {
+    const incorrectPayment = parseContractError(
+      revert(
+        encodeErrorResult({
+          abi: anyrandAbi,
+          errorName: 'IncorrectPayment',
+          args: [parseEther('0.001'), parseEther('0.0009')]
+        })
+      )
+    )
+    expect(incorrectPayment).toMatchObject({
+      code: 'INCORRECT_PAYMENT',
+      args: { got: parseEther('0.001'), want: parseEther('0.0009') }
+    })
+    expect(incorrectPayment.userMessage).toMatch(
+      /payment of 0\.001 ETH doesn't match the request price of 0\.0009 ETH/
+    )
+
+    const overGasLimit = parseContractError(
+      revert(encodeErrorResult({ abi: anyrandAbi, errorName: 'OverGasLimit', args: [8_000_000n] }))
+    )
+    expect(overGasLimit.code).toBe('OVER_GAS_LIMIT')
+    expect(overGasLimit.userMessage).toMatch(/callback gas limit of 8000000 is above/)
+
+    const invalidDeadline = parseContractError(
+      revert(encodeErrorResult({ abi: anyrandAbi, errorName: 'InvalidDeadline', args: [1n] }))
+    )
+    expect(invalidDeadline.userMessage).toMatch(/deadline .* is out of range/)
+
+    const invalidRequestState = parseContractError(
+      revert(
+        encodeErrorResult({
+          abi: anyrandAbi,
+          errorName: 'InvalidRequestState',
+          args: [RequestState.Fulfilled]
+        })
+      )
+    )
+    expect(invalidRequestState).toMatchObject({
+      code: 'INVALID_REQUEST_STATE',
+      args: { state: RequestState.Fulfilled },
+      userMessage: 'The request has already been fulfilled.'
+    })
+  })
+
+  it("decodes the beacon's errors, which bubble up through the coordinator", () => {
+    const pubKey = [1n, 2n, 3n, 4n] as const
+    const message = [5n, 6n] as const
+    const signature = [7n, 8n] as const
+    const error = new ContractFunctionExecutionError(
+      new ContractFunctionRevertedError({
+        abi: [...anyrandAbi, ...anyrandErrorAbi],
+        functionName: 'fulfillRandomness',
+        data: encodeErrorResult({
+          abi: drandBeaconAbi,
+          errorName: 'InvalidSignature',
+          args: [pubKey, message, signature]
+        })
+      }),
+      {
+        abi: anyrandAbi,
+        functionName: 'fulfillRandomness',
+        args: [1n, consumer, zeroHash, 100n, 100_000n, signature]
+      }
+    )
+    expect(isContractError(error)).toBe(true)
+    expect(parseContractError(error)).toMatchObject({
+      code: 'INVALID_SIGNATURE',
+      args: { pubKey, message, signature }
+    })
+  })
+
+  it("decodes the consumer's reason strings", () => {
+    const reason = concat([
+      '0x08c379a0',
+      encodeAbiParameters([{ type: 'string' }], ['Deadline is in the past'])
+    ])
+    expect(parseContractError(revert(reason))).toMatchObject({
+      code: 'REVERTED',
+      args: { reason: 'Deadline is in the past' },
+      userMessage: 'Reverted: Deadline is in the past'
+    })
+  })
+
+  it('distinguishes user rejections & RPC failures', () => {
+    const rejection = new UserRejectedRequestError(new Error('User denied transaction'))
+    expect(isUserRejection(rejection)).toBe(true)
+    expect(parseContractError(rejection).code).toBe('USER_REJECTED')
+    // Wallets that don't wrap their errors
+    expect(isUserRejection({ code: 4001, message: 'User rejected' })).toBe(true)
+
+    const networkError = new HttpRequestError({ url: 'https://rpc.example', status: 503 })
+    expect(isNetworkError(networkError)).toBe(true)
+    expect(isContractError(networkError)).toBe(false)
+    expect(parseContractError(networkError).code).toBe('NETWORK_ERROR')
+  })
+
+  it('falls back to the error message', () => {
+    expect(parseContractError(revert('0xdeadbeef'))).toMatchObject({ code: 'UNKNOWN_ERROR' })
+    expect(parseContractError(new Error('Wallet not connected'))).toMatchObject({
+      code: 'UNKNOWN_ERROR',
+      userMessage: 'Wallet not connected'
+    })
+  })
+})
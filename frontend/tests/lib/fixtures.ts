@@ -0,0 +1,79 @@
+import type { Address, Hash } from 'viem'
+import type { IndexedRequest } from '../../src/lib/indexer/store'
+import type { NetworkActivity } from '../../src/lib/network-stats'
+import { RequestStatus } from '../../src/types/anyrand/randomness-request'
+
+export const alice = '0x1111111111111111111111111111111111111111' as Address
+export const bob = '0x2222222222222222222222222222222222222222' as Address
+export const keeper = '0x3333333333333333333333333333333333333333' as Address
+export const consumer = '0x4444444444444444444444444444444444444444' as Address
+
+export function txHash(n: number) {
+  return `0x${n.toString(16).padStart(64, '0')}` as Hash
+}
+
+// A request made through `consumer`, optionally fulfilled by `operator`
+export function makeRequest({
+  id,
+  requestedBy,
+  feePaid,
+  timestamp,
+  fulfilledAt,
+  callbackSuccess = true,
+  operator,
+  fulfilmentTx = Number(id) + 1000
+}: {
+  id: bigint
+  requestedBy: Address
+  feePaid: bigint
+  timestamp: bigint
+  fulfilledAt?: bigint
+  callbackSuccess?: boolean
+  operator?: Address
+  fulfilmentTx?: number
+}): IndexedRequest {
+  return {
+    id,
+    requester: consumer,
+    requestedBy,
+    deadline: timestamp + 30n,
+    callbackGasLimit: 100_000n,
+    feePaid,
+    effectiveFeePerGas: 1n,
+    status: typeof fulfilledAt === 'undefined'
+      ? RequestStatus.Pending
+      : callbackSuccess ? RequestStatus.Fulfilled : RequestStatus.Failed,
+    transactionHash: txHash(Number(id)),
+    blockNumber: timestamp,
+    timestamp,
+    pubKeyHash: txHash(0),
+    round: id,
+    fulfillment: typeof fulfilledAt === 'undefined' ? undefined : {
+      requestId: id,
+      randomness: 42n,
+      operator: operator!,
+      callbackSuccess,
+      actualGasUsed: 50_000n,
+      transactionHash: txHash(fulfilmentTx),
+      blockNumber: fulfilledAt,
+      timestamp: fulfilledAt,
+      pubKeyHash: txHash(0),
+      round: id,
+      signature: [1n, 2n]
+    }
+  }
+}
+
+export const activity: NetworkActivity = {
+  nextRequestId: 5n,
+  latestTimestamp: 10_000n,
+  requests: [
+    // Fulfilled by two different operators, after 30s and 90s
+    makeRequest({ id: 1n, requestedBy: alice, feePaid: 100n, timestamp: 1_000n, fulfilledAt: 1_030n, operator: keeper }),
+    makeRequest({ id: 2n, requestedBy: bob, feePaid: 200n, timestamp: 2_000n, fulfilledAt: 2_090n, operator: alice }),
+    // Callback reverted
+    makeRequest({ id: 3n, requestedBy: alice, feePaid: 300n, timestamp: 3_000n, fulfilledAt: 3_060n, callbackSuccess: false, operator: keeper }),
+    // Pending
+    makeRequest({ id: 4n, requestedBy: bob, feePaid: 400n, timestamp: 9_000n }),
+  ],
+}
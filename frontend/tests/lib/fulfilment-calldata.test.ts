@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { encodeFunctionData, type Hex } from 'viem'
+import { anyrandAbi, anyrandConsumerAbi } from 'anyrand-sdk'
+import { decodeFulfilmentCalldata } from '../../src/lib/fulfilment-calldata'
+import { consumer, txHash } from './fixtures'
+
+const pubKeyHash = txHash(0xab)
+
+function fulfilmentInput(requestId: bigint, round: bigint) {
+  return encodeFunctionData({
+    abi: anyrandAbi,
+    functionName: 'fulfillRandomness',
+    args: [requestId, consumer, pubKeyHash, round, 100_000n, [round, round + 1n]]
+  })
+}
+
+describe('decodeFulfilmentCalldata', () => {
+  it('decodes fulfillRandomness', () => {
+    expect(decodeFulfilmentCalldata(fulfilmentInput(1n, 10n), 1n)).toEqual({
+      pubKeyHash,
+      round: 10n,
+      signature: [10n, 11n]
+    })
+    // Doesn't fulfil this request
+    expect(decodeFulfilmentCalldata(fulfilmentInput(1n, 10n), 2n)).toBeNull()
+  })
+
+  it("finds the request's round in fulfillRandomnessBatch", () => {
+    const fulfilment = (round: bigint, requestIds: bigint[]) => ({
+      pubKeyHash,
+      round,
+      signature: [round, round + 1n] as const,
+      requests: requestIds.map((requestId) => ({
+        requestId,
+        requester: consumer,
+        callbackGasLimit: 100_000n
+      }))
+    })
+    const input = encodeFunctionData({
+      abi: anyrandAbi,
+      functionName: 'fulfillRandomnessBatch',
+      args: [[fulfilment(10n, [1n, 2n]), fulfilment(20n, [3n])]]
+    })
+    expect(decodeFulfilmentCalldata(input, 2n)).toEqual({
+      pubKeyHash,
+      round: 10n,
+      signature: [10n, 11n]
+    })
+    expect(decodeFulfilmentCalldata(input, 3n)?.round).toBe(20n)
+    expect(decodeFulfilmentCalldata(input, 4n)).toBeNull()
+  })
+
+  it("can't decode indirect calls", () => {
+    const getRandom = encodeFunctionData({
+      abi: anyrandConsumerAbi,
+      functionName: 'getRandom',
+      args: [1_000n, 100_000n]
+    })
+    expect(decodeFulfilmentCalldata(getRandom, 1n)).toBeNull()
+    expect(decodeFulfilmentCalldata('0x' as Hex, 1n)).toBeNull()
+  })
+})
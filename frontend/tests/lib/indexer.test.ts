@@ -0,0 +1,366 @@
+import { describe, it, expect } from 'vitest'
+import {
+  encodeFunctionData,
+  HttpRequestError,
+  LimitExceededRpcError,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient
+} from 'viem'
+import { anyrandAbi, type AnyrandDeployment } from 'anyrand-sdk'
+import { AnyrandIndexer } from '../../src/lib/indexer/indexer'
+import { MemoryIndexerStore } from '../../src/lib/indexer/store'
+import { RequestStatus } from '../../src/types/anyrand/randomness-request'
+import { alice, bob, consumer, keeper, txHash } from './fixtures'
+
+const anyrand = '0x5555555555555555555555555555555555555555' as Address
+const beacon = '0x6666666666666666666666666666666666666666' as Address
+
+const deployment: AnyrandDeployment = {
+  chainId: 31337,
+  name: 'Localhost',
+  envName: 'LOCAL',
+  version: 'local',
+  anyrand,
+  beacon,
+  gasStation: beacon,
+  consumer,
+  deployBlock: 10n
+}
+
+interface FakeEvent {
+  eventName: 'RandomnessRequested' | 'RandomnessFulfilled' | 'RandomnessCallbackFailed'
+  args: Record<string, unknown>
+  blockNumber: bigint
+  transactionHash: Hash
+  from: Address
+  input?: Hex
+}
+
+// Blocks are 2s apart, and each block's hash is derived from its number & fork
+class FakeChain {
+  head = 10n
+  fork = 0
+  events: FakeEvent[] = []
+  logRanges: [bigint, bigint][] = []
+  transactionFetches: Hash[] = []
+  // Like public RPCs, rejects `eth_getLogs` over wider ranges than this
+  maxLogRange?: bigint
+  fetchesInFlight = 0
+  maxFetchesInFlight = 0
+
+  blockHash(number: bigint) {
+    return txHash(this.fork * 1_000_000 + Number(number))
+  }
+
+  mine(count: bigint) {
+    this.head += count
+  }
+
+  request(id: bigint, from: Address, blockNumber: bigint) {
+    this.events.push({
+      eventName: 'RandomnessRequested',
+      args: {
+        requestId: id,
+        requester: consumer,
+        pubKeyHash: txHash(0),
+        round: 100n + id,
+        callbackGasLimit: 100_000n,
+        feePaid: 1_000n * id,
+        effectiveFeePerGas: 1n
+      },
+      blockNumber,
+      transactionHash: txHash(Number(id)),
+      from
+    })
+  }
+
+  fulfil(id: bigint, blockNumber: bigint, callbackSuccess = true) {
+    if (!callbackSuccess) {
+      this.events.push({
+        eventName: 'RandomnessCallbackFailed',
+        args: { requestId: id, retdata: `0x${'0'.repeat(64)}`, gasLimit: 100_000n, actualGasUsed: 100_500n },
+        blockNumber,
+        transactionHash: txHash(1_000 + Number(id)),
+        from: keeper
+      })
+    }
+    this.events.push({
+      eventName: 'RandomnessFulfilled',
+      args: { requestId: id, randomness: 42n, callbackSuccess, actualGasUsed: 50_000n },
+      blockNumber,
+      transactionHash: txHash(1_000 + Number(id)),
+      from: keeper
+    })
+  }
+
+  /** Fulfil requests in a single `fulfillRandomnessBatch` transaction */
+  fulfilBatch(ids: bigint[], blockNumber: bigint) {
+    const transactionHash = txHash(2_000 + Number(blockNumber))
+    const input = encodeFunctionData({
+      abi: anyrandAbi,
+      functionName: 'fulfillRandomnessBatch',
+      args: [
+        ids.map((id) => ({
+          pubKeyHash: txHash(0),
+          round: 100n + id,
+          signature: [id, id + 1n] as const,
+          requests: [{ requestId: id, requester: consumer, callbackGasLimit: 100_000n }]
+        }))
+      ]
+    })
+    for (const id of ids) {
+      this.events.push({
+        eventName: 'RandomnessFulfilled',
+        args: { requestId: id, randomness: 42n, callbackSuccess: true, actualGasUsed: 50_000n },
+        blockNumber,
+        transactionHash,
+        from: keeper,
+        input
+      })
+    }
+  }
+
+  /** Replace every block from `blockNumber` onwards */
+  reorg(blockNumber: bigint) {
+    this.fork += 1
+    this.events = this.events.filter((event) => event.blockNumber < blockNumber)
+  }
+
+  /** Track how many blocks & transactions are being fetched at once */
+  private async fetch<T>(result: () => T) {
+    this.fetchesInFlight += 1
+    this.maxFetchesInFlight = Math.max(this.maxFetchesInFlight, this.fetchesInFlight)
+    await new Promise((resolve) => setTimeout(resolve, 1))
+    this.fetchesInFlight -= 1
+    return result()
+  }
+
+  get client() {
+    const toBlock = (number: bigint) => ({
+      number,
+      hash: number < 12n ? txHash(Number(number)) : this.blockHash(number),
+      timestamp: 1_000n + number * 2n
+    })
+    return {
+      getBlock: async ({ blockNumber }: { blockNumber?: bigint }) => {
+        const number = blockNumber ?? this.head
+        if (number > this.head) throw new Error('Block not found')
+        return this.fetch(() => toBlock(number))
+      },
+      getContractEvents: async ({ fromBlock, toBlock: to }: { fromBlock: bigint; toBlock: bigint }) => {
+        this.logRanges.push([fromBlock, to])
+        if (this.maxLogRange && to - fromBlock + 1n > this.maxLogRange) {
+          throw new LimitExceededRpcError(new Error(`Block range exceeds ${this.maxLogRange}`))
+        }
+        return this.events.filter((event) => event.blockNumber >= fromBlock && event.blockNumber <= to)
+      },
+      getTransaction: async ({ hash }: { hash: Hash }) => {
+        this.transactionFetches.push(hash)
+        const event = this.events.find((event) => event.transactionHash === hash)!
+        return this.fetch(() => ({ from: event.from, input: event.input ?? '0x' }))
+      },
+      readContract: async ({ functionName }: { functionName: string }) => {
+        switch (functionName) {
+          case 'beacon':
+            return beacon
+          case 'publicKey':
+            return '0x'
+          case 'genesisTimestamp':
+            return 1_000n
+          case 'period':
+            return 3n
+        }
+        throw new Error(`Unexpected call: ${functionName}`)
+      }
+    } as unknown as PublicClient
+  }
+}
+
+function setup(chunkSize?: bigint) {
+  const chain = new FakeChain()
+  const indexer = new AnyrandIndexer(chain.client, deployment, new MemoryIndexerStore(), chunkSize)
+  return { chain, indexer }
+}
+
+describe('AnyrandIndexer', () => {
+  it('indexes requests from the deploy block in chunks', async () => {
+    const { chain, indexer } = setup(4n)
+    chain.request(1n, alice, 11n)
+    chain.request(2n, bob, 15n)
+    chain.fulfil(1n, 16n)
+    chain.mine(10n)
+
+    const head = await indexer.sync()
+    expect(head.number).toBe(20n)
+    expect(chain.logRanges).toEqual([[10n, 13n], [14n, 17n], [18n, 20n]])
+
+    const [first, second] = await indexer.getRequests()
+    expect(first).toMatchObject({
+      id: 1n,
+      requester: consumer,
+      requestedBy: alice,
+      status: RequestStatus.Fulfilled,
+      timestamp: 1_022n,
+      // Round 101 of a beacon with a 3s period, starting at 1000
+      deadline: 1_300n
+    })
+    expect(first.fulfillment).toMatchObject({ operator: keeper, timestamp: 1_032n, round: 101n })
+    expect(second).toMatchObject({ id: 2n, requestedBy: bob, status: RequestStatus.Pending })
+  })
+
+  it('only syncs blocks produced since the last sync', async () => {
+    const { chain, indexer } = setup()
+    chain.request(1n, alice, 11n)
+    chain.mine(5n)
+    await indexer.sync()
+
+    chain.fulfil(1n, 17n, false)
+    chain.mine(5n)
+    await indexer.sync()
+
+    expect(chain.logRanges).toEqual([[10n, 15n], [16n, 20n]])
+    const request = await indexer.getRequest(1n)
+    expect(request?.status).toBe(RequestStatus.Failed)
+    expect(request?.fulfillment?.callbackSuccess).toBe(false)
+    expect(request?.fulfillment?.callbackFailure).toMatchObject({ gasLimit: 100_000n, actualGasUsed: 100_500n })
+  })
+
+  it('recovers the round & signature of batch fulfilments from their calldata', async () => {
+    const { chain, indexer } = setup()
+    chain.request(1n, alice, 11n)
+    chain.request(2n, bob, 12n)
+    chain.fulfilBatch([1n, 2n], 14n)
+    chain.mine(5n)
+    await indexer.sync()
+
+    for (const id of [1n, 2n]) {
+      const request = await indexer.getRequest(id)
+      expect(request?.fulfillment).toMatchObject({
+        operator: keeper,
+        pubKeyHash: txHash(0),
+        round: 100n + id,
+        signature: [id, id + 1n]
+      })
+    }
+    // The batch's transaction is only fetched once
+    expect(chain.transactionFetches.filter((hash) => hash === txHash(2_014))).toHaveLength(1)
+  })
+
+  it('narrows the block range when the RPC rejects it', async () => {
+    const { chain, indexer } = setup(8n)
+    chain.maxLogRange = 3n
+    chain.request(1n, alice, 11n)
+    chain.request(2n, bob, 15n)
+    chain.fulfil(1n, 16n)
+    chain.mine(10n)
+
+    expect((await indexer.sync()).number).toBe(20n)
+    expect(chain.logRanges).toEqual([
+      [10n, 17n],
+      [10n, 13n],
+      [10n, 11n],
+      [12n, 13n],
+      [14n, 15n],
+      [16n, 17n],
+      [18n, 19n],
+      [20n, 20n]
+    ])
+    expect((await indexer.getRequests()).map((request) => request.status)).toEqual([
+      RequestStatus.Fulfilled,
+      RequestStatus.Pending
+    ])
+    expect((await indexer.store.getCursor())?.number).toBe(20n)
+  })
+
+  it("doesn't narrow the block range when the RPC is unreachable", async () => {
+    const chain = new FakeChain()
+    chain.mine(10n)
+    const client = chain.client
+    client.getContractEvents = async () => {
+      throw new HttpRequestError({ url: 'http://localhost:8545', details: 'fetch failed' })
+    }
+    const indexer = new AnyrandIndexer(client, deployment, new MemoryIndexerStore(), 8n)
+    await expect(indexer.sync()).rejects.toThrow(HttpRequestError)
+  })
+
+  it('only fetches a few blocks & transactions at once', async () => {
+    const { chain, indexer } = setup()
+    for (let id = 1n; id <= 20n; id++) {
+      chain.request(id, alice, 10n + id)
+    }
+    chain.mine(20n)
+    await indexer.sync()
+
+    expect(await indexer.getRequests()).toHaveLength(20)
+    expect(chain.maxFetchesInFlight).toBe(4)
+  })
+
+  it('rolls back blocks that were reorganised away', async () => {
+    const { chain, indexer } = setup()
+    chain.request(1n, alice, 11n)
+    chain.request(2n, bob, 13n)
+    chain.fulfil(1n, 14n)
+    chain.mine(5n)
+    await indexer.sync()
+
+    // Request 2 & the fulfilment are dropped, and request 3 takes their place
+    chain.reorg(12n)
+    chain.request(3n, alice, 14n)
+    chain.mine(1n)
+    await indexer.sync()
+
+    expect(chain.logRanges.at(-1)).toEqual([12n, 16n])
+    const requests = await indexer.getRequests()
+    expect(requests.map((request) => request.id)).toEqual([1n, 3n])
+    expect(requests[0].status).toBe(RequestStatus.Pending)
+    expect(requests[0].fulfillment).toBeUndefined()
+  })
+
+  it('keeps the index if the RPC fails while checking for reorgs', async () => {
+    const { chain, indexer } = setup()
+    chain.request(1n, alice, 11n)
+    chain.mine(5n)
+    await indexer.sync()
+
+    // The latest block can be fetched, but not the indexed ones
+    chain.mine(5n)
+    const client = chain.client
+    const { getBlock } = client
+    client.getBlock = (async (args: { blockNumber?: bigint }) => {
+      if (args.blockNumber !== undefined) {
+        throw new HttpRequestError({ url: 'http://localhost:8545', status: 429, details: 'Too many requests' })
+      }
+      return getBlock(args)
+    }) as PublicClient['getBlock']
+    const failing = new AnyrandIndexer(client, deployment, indexer.store)
+    await expect(failing.sync()).rejects.toThrow(HttpRequestError)
+
+    expect(await indexer.store.getCursor()).toMatchObject({ number: 15n, hash: txHash(15) })
+    expect((await indexer.getRequests()).map((request) => request.id)).toEqual([1n])
+    // Once the RPC recovers, the sync carries on from the cursor
+    await indexer.sync()
+    expect(chain.logRanges.at(-1)).toEqual([16n, 20n])
+  })
+
+  it('queries requests by requester, status, round and time', async () => {
+    const { chain, indexer } = setup()
+    chain.request(1n, alice, 11n)
+    chain.request(2n, bob, 12n)
+    chain.request(3n, alice, 13n)
+    chain.fulfil(3n, 14n)
+    chain.mine(5n)
+    await indexer.sync()
+
+    const ids = async (filter: Parameters<AnyrandIndexer['getRequests']>[0]) =>
+      (await indexer.getRequests(filter)).map((request) => request.id)
+    expect(await ids({ requester: alice })).toEqual([1n, 3n])
+    expect(await ids({ requester: consumer })).toEqual([1n, 2n, 3n])
+    expect(await ids({ status: [RequestStatus.Pending] })).toEqual([1n, 2n])
+    expect(await ids({ operator: keeper })).toEqual([3n])
+    expect(await ids({ round: 102n })).toEqual([2n])
+    expect(await ids({ fromTimestamp: 1_024n, toTimestamp: 1_026n })).toEqual([2n, 3n])
+    expect(await ids({ requestId: 2n })).toEqual([2n])
+  })
+})
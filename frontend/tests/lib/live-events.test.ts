@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { PublicClient } from 'viem'
+import {
+  applyLiveEvents,
+  getWebSocketUrl,
+  toLiveRequestEvents,
+  watchRequestEvents,
+  type AnyrandEventLog,
+  type LiveMode
+} from '../../src/lib/live-events'
+import { RequestStatus } from '../../src/types/anyrand/randomness-request'
+import { alice, bob, consumer, keeper, makeRequest } from './fixtures'
+
+const anyrand = '0x5555555555555555555555555555555555555555'
+
+const logs: AnyrandEventLog[] = [
+  { eventName: 'RandomnessRequested', args: { requestId: 3n, requester: consumer }, blockNumber: 10n },
+  { eventName: 'RandomnessFulfilled', args: { requestId: 1n, callbackSuccess: true }, blockNumber: 11n },
+  { eventName: 'RandomnessCallbackFailed', args: { requestId: 2n }, blockNumber: 11n },
+  { eventName: 'RandomnessFulfilled', args: { requestId: 2n, callbackSuccess: false }, blockNumber: 11n },
+  { eventName: 'OwnershipTransferred', args: {}, blockNumber: 12n }
+]
+
+// Records subscriptions, so that tests can emit logs & errors through them
+function fakeClient() {
+  const watches: { poll?: boolean; onLogs: (logs: AnyrandEventLog[]) => void; onError?: (error: Error) => void; unwatch: () => void }[] = []
+  const client = {
+    watchContractEvent: vi.fn((params) => {
+      const watch = { ...params, unwatch: vi.fn() }
+      watches.push(watch)
+      return watch.unwatch
+    })
+  }
+  return { client: client as unknown as PublicClient, watches }
+}
+
+describe('toLiveRequestEvents', () => {
+  it('picks out requests & fulfilments', () => {
+    expect(toLiveRequestEvents(logs)).toEqual([
+      { type: 'requested', requestId: 3n, blockNumber: 10n },
+      { type: 'fulfilled', requestId: 1n, callbackSuccess: true, blockNumber: 11n },
+      { type: 'fulfilled', requestId: 2n, callbackSuccess: false, blockNumber: 11n }
+    ])
+  })
+})
+
+describe('applyLiveEvents', () => {
+  const requests = [
+    makeRequest({ id: 1n, requestedBy: alice, feePaid: 100n, timestamp: 1_000n }),
+    makeRequest({ id: 2n, requestedBy: bob, feePaid: 100n, timestamp: 1_000n }),
+    makeRequest({ id: 4n, requestedBy: bob, feePaid: 100n, timestamp: 1_000n, fulfilledAt: 1_040n, operator: keeper })
+  ]
+
+  it('settles fulfilled requests ahead of the index', () => {
+    const updated = applyLiveEvents(requests, toLiveRequestEvents(logs))
+    expect(updated.map((request) => request.status)).toEqual([
+      RequestStatus.Fulfilled,
+      RequestStatus.Failed,
+      RequestStatus.Fulfilled
+    ])
+    // Untouched requests keep their identity
+    expect(updated[2]).toBe(requests[2])
+  })
+
+  it('leaves the list alone if nothing changed', () => {
+    expect(applyLiveEvents(requests, toLiveRequestEvents(logs.slice(0, 1)))).toBe(requests)
+  })
+})
+
+describe('watchRequestEvents', () => {
+  it('streams events over WebSockets', () => {
+    const ws = fakeClient()
+    const http = fakeClient()
+    const onEvents = vi.fn()
+    const modes: LiveMode[] = []
+    const unwatch = watchRequestEvents({
+      address: anyrand,
+      webSocketClient: ws.client,
+      httpClient: http.client,
+      onEvents,
+      onModeChange: (mode) => modes.push(mode)
+    })
+    expect(modes).toEqual(['websocket'])
+    expect(http.watches).toHaveLength(0)
+
+    ws.watches[0].onLogs(logs.slice(4))
+    expect(onEvents).not.toHaveBeenCalled()
+    ws.watches[0].onLogs(logs.slice(0, 2))
+    expect(onEvents).toHaveBeenCalledWith([
+      { type: 'requested', requestId: 3n, blockNumber: 10n },
+      { type: 'fulfilled', requestId: 1n, callbackSuccess: true, blockNumber: 11n }
+    ])
+
+    unwatch()
+    expect(ws.watches[0].unwatch).toHaveBeenCalled()
+  })
+
+  it('falls back to polling over HTTP', () => {
+    const ws = fakeClient()
+    const http = fakeClient()
+    const onEvents = vi.fn()
+    const modes: LiveMode[] = []
+    const unwatch = watchRequestEvents({
+      address: anyrand,
+      webSocketClient: ws.client,
+      httpClient: http.client,
+      onEvents,
+      onModeChange: (mode) => modes.push(mode)
+    })
+
+    // e.g. the socket couldn't connect
+    ws.watches[0].onError!(new Error('socket closed'))
+    ws.watches[0].onError!(new Error('socket closed'))
+    expect(ws.watches[0].unwatch).toHaveBeenCalledOnce()
+    expect(http.watches).toHaveLength(1)
+    expect(http.watches[0].poll).toBe(true)
+    expect(modes).toEqual(['websocket', 'polling'])
+
+    http.watches[0].onLogs(logs.slice(1, 2))
+    expect(onEvents).toHaveBeenCalledOnce()
+    unwatch()
+    expect(http.watches[0].unwatch).toHaveBeenCalled()
+  })
+
+  it('polls if the chain has no WebSocket RPC', () => {
+    expect(getWebSocketUrl(534351)).toBe('wss://sepolia-rpc-ws.scroll.io')
+    expect(getWebSocketUrl(31337)).toBeUndefined()
+
+    const http = fakeClient()
+    const modes: LiveMode[] = []
+    watchRequestEvents({
+      address: anyrand,
+      webSocketClient: null,
+      httpClient: http.client,
+      onEvents: vi.fn(),
+      onModeChange: (mode) => modes.push(mode)
+    })
+    expect(modes).toEqual(['polling'])
+    expect(http.watches[0].poll).toBe(true)
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { aggregateNetworkStatistics } from '../../src/lib/network-stats'
+import { activity } from './fixtures'
+
+describe('aggregateNetworkStatistics', () => {
+  it('derives statistics from request activity', () => {
+    expect(aggregateNetworkStatistics(activity)).toEqual({
+      totalRequests: 4n,
+      pendingRequests: 1n,
+      fulfilledRequests: 2n,
+      failedRequests: 1n,
+      successRate: 66,
+      averageFulfillmentTime: 60,
+      totalFeesCollected: 1000n,
+      activeOperators: 2,
+      lastUpdated: 10_000n,
+    })
+  })
+
+  it('only counts activity up to the given timestamp', () => {
+    const stats = aggregateNetworkStatistics(activity, 2_050n)
+    expect(stats.totalRequests).toBe(2n)
+    // Request 2 was made but not yet fulfilled
+    expect(stats.pendingRequests).toBe(1n)
+    expect(stats.fulfilledRequests).toBe(1n)
+    expect(stats.averageFulfillmentTime).toBe(30)
+    expect(stats.totalFeesCollected).toBe(300n)
+    expect(stats.activeOperators).toBe(1)
+    expect(stats.lastUpdated).toBe(2_050n)
+  })
+
+  it('handles a deployment without requests', () => {
+    const stats = aggregateNetworkStatistics({ nextRequestId: 1n, latestTimestamp: 1n, requests: [] })
+    expect(stats.totalRequests).toBe(0n)
+    expect(stats.successRate).toBe(0)
+    expect(stats.averageFulfillmentTime).toBe(0)
+  })
+})
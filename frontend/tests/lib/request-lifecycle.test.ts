@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { buildRequestLifecycle } from '../../src/lib/request-lifecycle'
+import { RequestStatus } from '../../src/types/anyrand/randomness-request'
+import { alice, keeper, makeRequest, txHash } from './fixtures'
+
+// Requested at 1000, with its round published at 1030
+const pending = makeRequest({ id: 1n, requestedBy: alice, feePaid: 100n, timestamp: 1_000n })
+const fulfilled = makeRequest({
+  id: 1n,
+  requestedBy: alice,
+  feePaid: 100n,
+  timestamp: 1_000n,
+  fulfilledAt: 1_040n,
+  operator: keeper
+})
+
+const statuses = (lifecycle: ReturnType<typeof buildRequestLifecycle>) =>
+  lifecycle.steps.map((step) => [step.key, step.status])
+
+describe('buildRequestLifecycle', () => {
+  it('waits for the round, then for a keeper', () => {
+    const beforeRound = buildRequestLifecycle(pending, RequestStatus.Pending, 1_010n)
+    expect(beforeRound).toMatchObject({ roundAvailableAt: 1_030n, isRoundPublished: false, isIndexBehind: false })
+    expect(statuses(beforeRound)).toEqual([
+      ['requested', 'done'],
+      ['round', 'current'],
+      ['fulfilled', 'upcoming'],
+      ['callback', 'upcoming']
+    ])
+
+    const afterRound = buildRequestLifecycle(pending, RequestStatus.Pending, 1_030n)
+    expect(afterRound.isRoundPublished).toBe(true)
+    expect(statuses(afterRound)).toEqual([
+      ['requested', 'done'],
+      ['round', 'done'],
+      ['fulfilled', 'current'],
+      ['callback', 'upcoming']
+    ])
+  })
+
+  it('shows the fulfilment & callback outcome', () => {
+    const lifecycle = buildRequestLifecycle(fulfilled, RequestStatus.Fulfilled, 2_000n)
+    expect(lifecycle.steps[2]).toMatchObject({
+      status: 'done',
+      timestamp: 1_040n,
+      transactionHash: txHash(1_001),
+      account: keeper
+    })
+    expect(lifecycle.steps[3]).toMatchObject({
+      status: 'done',
+      description: 'The requester received the randomness using 50,000 of 100,000 gas'
+    })
+
+    const failed = makeRequest({
+      id: 1n,
+      requestedBy: alice,
+      feePaid: 100n,
+      timestamp: 1_000n,
+      fulfilledAt: 1_040n,
+      callbackSuccess: false,
+      operator: keeper
+    })
+    expect(buildRequestLifecycle(failed, RequestStatus.Failed, 2_000n).steps[3].status).toBe('failed')
+  })
+
+  it('takes the state on chain over the index', () => {
+    // Fulfilled on chain, but the index hasn't seen the fulfilment yet
+    const lifecycle = buildRequestLifecycle(pending, RequestStatus.Failed, 2_000n)
+    expect(lifecycle).toMatchObject({ status: RequestStatus.Failed, isIndexBehind: true })
+    expect(statuses(lifecycle)).toEqual([
+      ['requested', 'done'],
+      ['round', 'done'],
+      ['fulfilled', 'done'],
+      ['callback', 'failed']
+    ])
+    expect(lifecycle.steps[2].transactionHash).toBeUndefined()
+  })
+})
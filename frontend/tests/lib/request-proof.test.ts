@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { bn254 } from '@kevincharm/noble-bn254-drand'
+import { toHex, type Hex } from 'viem'
+import { hashRound } from '@anyrand/lib/bls'
+import { deriveRandomness, verifyProofBundle } from '@anyrand/lib/proof'
+import { buildRequestProof, getProofFileName } from '../../src/lib/request-proof'
+import { alice, keeper, makeRequest } from './fixtures'
+
+const anyrand = '0x5555555555555555555555555555555555555555'
+const secretKey = bn254.utils.randomPrivateKey()
+const { x, y } = bn254.G2.ProjectivePoint.fromPrivateKey(secretKey).toAffine()
+const beaconPublicKey = toHex(
+  new Uint8Array([x.c0, x.c1, y.c0, y.c1].flatMap((word) => [...bn254.fields.Fp.toBytes(word)]))
+) as Hex
+
+// Fulfilled with a real signature of its round (10)
+function fulfilledRequest() {
+  const request = makeRequest({
+    id: 10n,
+    requestedBy: alice,
+    feePaid: 100n,
+    timestamp: 1_000n,
+    fulfilledAt: 1_040n,
+    operator: keeper
+  })
+  const signature = bn254.signShortSignature(hashRound(10n), secretKey).toAffine()
+  const fulfillment = request.fulfillment!
+  fulfillment.signature = [signature.x, signature.y]
+  fulfillment.randomness = deriveRandomness({
+    signature: fulfillment.signature,
+    chainId: 534351n,
+    anyrand,
+    requestId: request.id,
+    requester: request.requester
+  })
+  return request
+}
+
+describe('buildRequestProof', () => {
+  it('exports a proof that verifies', () => {
+    const bundle = buildRequestProof(fulfilledRequest(), { chainId: 534351, anyrand, beaconPublicKey })
+    expect(bundle).toMatchObject({ chainId: '534351', requestId: '10', round: '10', anyrand })
+    expect(getProofFileName(bundle)).toBe('anyrand-proof-534351-10.json')
+    expect(verifyProofBundle(bundle).isValid).toBe(true)
+  })
+
+  it("can't export proofs of requests without a known signature", () => {
+    const context = { chainId: 534351, anyrand, beaconPublicKey }
+    const pending = makeRequest({ id: 10n, requestedBy: alice, feePaid: 100n, timestamp: 1_000n })
+    expect(() => buildRequestProof(pending, context)).toThrow("hasn't been fulfilled yet")
+
+    // Fulfilled through a contract, so the signature wasn't in the calldata
+    const indirect = fulfilledRequest()
+    indirect.fulfillment!.signature = [0n, 0n]
+    expect(() => buildRequestProof(indirect, context)).toThrow("Couldn't recover the signature")
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import {
+  encodeAbiParameters,
+  encodeEventTopics,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt
+} from 'viem'
+import { anyrandAbi } from 'anyrand-sdk'
+import { getRequestedEvent, waitForRequest } from '../../src/lib/request-receipt'
+import { RequestStatus } from '../../src/types/anyrand/randomness-request'
+import { consumer, txHash } from './fixtures'
+
+const anyrand = '0x5555555555555555555555555555555555555555' as Address
+const otherAnyrand = '0x7777777777777777777777777777777777777777' as Address
+const beacon = '0x6666666666666666666666666666666666666666' as Address
+const pubKeyHash = `0x${'ab'.repeat(32)}` as Hex
+
+// A `RandomnessRequested` log, as emitted by `address`
+function requestedLog(address: Address, requestId: bigint, round: bigint) {
+  return {
+    address,
+    topics: encodeEventTopics({
+      abi: anyrandAbi,
+      eventName: 'RandomnessRequested',
+      args: { requestId, requester: consumer, pubKeyHash }
+    }),
+    data: encodeAbiParameters(
+      [{ type: 'uint256' }, { type: 'uint256' }, { type: 'uint256' }, { type: 'uint256' }],
+      [round, 100_000n, 1000n, 10n]
+    ),
+    blockNumber: 20n,
+    transactionHash: txHash(1),
+    logIndex: 0,
+    blockHash: txHash(20),
+    transactionIndex: 0,
+    removed: false
+  }
+}
+
+// The consumer's `getRandom`: the consumer logs something of its own, and
+// Anyrand emits `RandomnessRequested`
+function makeReceipt(status: 'success' | 'reverted' = 'success') {
+  return {
+    status,
+    transactionHash: txHash(1),
+    blockNumber: 20n,
+    logs: [
+      { ...requestedLog(consumer, 1n, 1n), topics: [txHash(99)] },
+      requestedLog(otherAnyrand, 99n, 99n),
+      requestedLog(anyrand, 42n, 7n)
+    ]
+  } as unknown as TransactionReceipt
+}
+
+function fakeClient(receipt: TransactionReceipt) {
+  return {
+    waitForTransactionReceipt: async ({ hash }: { hash: Hash }) => {
+      expect(hash).toBe(txHash(1))
+      return receipt
+    },
+    getBlock: async () => ({ timestamp: 1_040n }),
+    readContract: async ({ functionName }: { functionName: string }) => {
+      switch (functionName) {
+        case 'beacon':
+          return beacon
+        case 'publicKey':
+          return '0x'
+        case 'genesisTimestamp':
+          return 1_000n
+        case 'period':
+          return 3n
+      }
+      throw new Error(`Unexpected call: ${functionName}`)
+    }
+  } as unknown as PublicClient
+}
+
+describe('request receipts', () => {
+  it("decodes the coordinator's RandomnessRequested event", () => {
+    expect(getRequestedEvent(makeReceipt(), anyrand).args).toEqual({
+      requestId: 42n,
+      requester: consumer,
+      pubKeyHash,
+      round: 7n,
+      callbackGasLimit: 100_000n,
+      feePaid: 1000n,
+      effectiveFeePerGas: 10n
+    })
+    expect(() =>
+      getRequestedEvent({ ...makeReceipt(), logs: [] }, anyrand)
+    ).toThrow(/didn't request randomness/)
+  })
+
+  it('waits for the request to be confirmed', async () => {
+    expect(await waitForRequest(fakeClient(makeReceipt()), txHash(1), anyrand)).toEqual({
+      id: 42n,
+      requester: consumer,
+      // Round 7 of a beacon with a 3s period from genesis at 1000
+      deadline: 1_018n,
+      callbackGasLimit: 100_000n,
+      feePaid: 1000n,
+      effectiveFeePerGas: 10n,
+      status: RequestStatus.Pending,
+      transactionHash: txHash(1),
+      blockNumber: 20n,
+      timestamp: 1_040n,
+      pubKeyHash,
+      round: 7n
+    })
+    await expect(
+      waitForRequest(fakeClient(makeReceipt('reverted')), txHash(1), anyrand)
+    ).rejects.toThrow(/reverted/)
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import {
+  decodeFunctionData,
+  encodeErrorResult,
+  encodeFunctionResult,
+  parseEther,
+  parseGwei,
+  RawContractError,
+  type Address,
+  type Hex,
+  type PublicClient
+} from 'viem'
+import { anyrandAbi, type ScenarioQuote } from 'anyrand-sdk'
+import { getFeeBreakdown, simulateRequest } from '../../src/lib/request-simulation'
+import { alice, consumer } from './fixtures'
+
+const anyrand = '0x5555555555555555555555555555555555555555' as Address
+const gasPrice = parseGwei('2')
+const callbackGasLimit = 100_000n
+// Raw cost of fulfilment at `gasPrice` is (200k + 100k) * 2 gwei = 0.0006 ETH
+const rawCost = parseEther('0.0006')
+
+function scenarioQuote(overrides: Partial<ScenarioQuote> = {}): ScenarioQuote {
+  return {
+    scenario: 'fast',
+    gasPrice,
+    value: (rawCost * 15_000n) / 10_000n,
+    effectiveFeePerGas: gasPrice,
+    l1Fee: 0n,
+    l2Fee: (rawCost * 15_000n) / 10_000n,
+    capped: false,
+    ...overrides
+  }
+}
+
+describe('getFeeBreakdown', () => {
+  it('splits the fee into the raw cost & premium', () => {
+    expect(getFeeBreakdown(scenarioQuote(), callbackGasLimit, 15_000n)).toMatchObject({
+      gasPrice,
+      baseFee: rawCost,
+      l1Fee: 0n,
+      operatorReward: rawCost,
+      protocolFee: rawCost / 2n,
+      totalFee: (rawCost * 3n) / 2n
+    })
+
+    // The L1 data fee is quoted with the premium applied
+    const l1Fee = parseEther('0.0003')
+    const breakdown = getFeeBreakdown(
+      scenarioQuote({
+        value: ((rawCost + l1Fee) * 15_000n) / 10_000n,
+        l1Fee: (l1Fee * 15_000n) / 10_000n
+      }),
+      callbackGasLimit,
+      15_000n
+    )
+    expect(breakdown).toMatchObject({ baseFee: rawCost, l1Fee, operatorReward: rawCost + l1Fee })
+    expect(breakdown.protocolFee).toBe((rawCost + l1Fee) / 2n)
+  })
+
+  it("doesn't split capped fees", () => {
+    const value = parseGwei('5') * callbackGasLimit
+    expect(
+      getFeeBreakdown(scenarioQuote({ value, capped: true }), callbackGasLimit, 15_000n)
+    ).toMatchObject({ baseFee: value, operatorReward: value, protocolFee: 0n, capped: true })
+  })
+})
+
+describe('simulateRequest', () => {
+  // Prices requests like GasStationEthereum with a 150% premium, and runs
+  // `getRandom` with `revertData` (if any)
+  function fakeClient(revertData?: Hex) {
+    const calls: { to: Address; value?: bigint; gasPrice?: bigint }[] = []
+    const client = {
+      getGasPrice: async () => parseGwei('1'),
+      readContract: async ({ functionName }: { functionName: string }) =>
+        functionName === 'maxFeePerGas' ? parseGwei('50') : 15_000n,
+      call: async (tx: { to: Address; data: Hex; value?: bigint; gasPrice?: bigint }) => {
+        calls.push(tx)
+        if (tx.to === anyrand) {
+          const { args } = decodeFunctionData({ abi: anyrandAbi, data: tx.data })
+          const rawTxCost = (200_000n + (args![0] as bigint)) * tx.gasPrice!
+          return {
+            data: encodeFunctionResult({
+              abi: anyrandAbi,
+              functionName: 'getRequestPrice',
+              result: [(rawTxCost * 15_000n) / 10_000n, tx.gasPrice!]
+            })
+          }
+        }
+        if (revertData) throw new RawContractError({ data: revertData })
+        return { data: '0x' }
+      },
+      estimateGas: async () => 150_000n
+    } as unknown as PublicClient
+    return { client, calls }
+  }
+
+  const params = { anyrand, consumer, account: alice, deadline: 1000n, callbackGasLimit }
+
+  it('simulates the request with the exact quoted fee', async () => {
+    const { client, calls } = fakeClient()
+    const result = await simulateRequest(client, params)
+    expect(result).toMatchObject({ success: true, gasEstimate: 150_000n, warnings: [] })
+    // Sent at the fast (150%) gas price
+    expect(result.feeBreakdown).toMatchObject({
+      gasPrice: parseGwei('1.5'),
+      baseFee: 300_000n * parseGwei('1.5'),
+      totalFee: (300_000n * parseGwei('1.5') * 3n) / 2n
+    })
+    const request = calls.find((call) => call.to === consumer)
+    expect(request).toMatchObject({
+      value: result.feeBreakdown.totalFee,
+      gasPrice: parseGwei('1.5')
+    })
+  })
+
+  it('explains why the request would revert', async () => {
+    const { client } = fakeClient(
+      encodeErrorResult({ abi: anyrandAbi, errorName: 'OverGasLimit', args: [callbackGasLimit] })
+    )
+    const result = await simulateRequest(client, params)
+    expect(result.success).toBe(false)
+    expect(result.revertReason).toMatch(/callback gas limit of 100000 is above/)
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { aggregateUserActivity, getOperatorPerformance } from '../../src/lib/user-activity'
+import { calculateProfitability, getUserRole } from '../../src/types/anyrand/user-activity'
+import { activity, alice, bob, keeper, makeRequest, txHash } from './fixtures'
+
+describe('aggregateUserActivity', () => {
+  it('attributes requests made through a consumer to the sender', () => {
+    const userActivity = aggregateUserActivity(activity, bob, new Map())
+    expect(userActivity.requestsSubmitted).toBe(2n)
+    expect(userActivity.totalFeesSpent).toBe(600n)
+    expect(userActivity.averageRequestValue).toBe(300n)
+    expect(userActivity.activeRequests.map((request) => request.id)).toEqual([4n])
+    // Most recent first
+    expect(userActivity.recentRequests.map((request) => request.id)).toEqual([4n, 2n])
+    expect(userActivity.requestsFulfilled).toBe(0n)
+    expect(getUserRole(userActivity)).toBe('requester')
+  })
+
+  it('nets fees earned against the gas spent fulfilling', () => {
+    const costs = new Map([[txHash(1001), 30n], [txHash(1003), 50n]])
+    const userActivity = aggregateUserActivity(activity, keeper, costs)
+    expect(userActivity.requestsFulfilled).toBe(2n)
+    expect(userActivity.totalFeesEarned).toBe(100n - 30n + 300n - 50n)
+    expect(userActivity.recentFulfillments.map((fulfillment) => fulfillment.requestId)).toEqual([3n, 1n])
+    expect(userActivity.firstActivityTimestamp).toBe(1_030n)
+    expect(userActivity.lastActivityTimestamp).toBe(3_060n)
+    expect(calculateProfitability(userActivity).netProfit).toBe(320n)
+    expect(getUserRole(userActivity)).toBe('operator')
+  })
+
+  it('splits the cost of a transaction that fulfilled several requests', () => {
+    const batched = {
+      ...activity,
+      requests: [
+        makeRequest({ id: 1n, requestedBy: alice, feePaid: 100n, timestamp: 1_000n, fulfilledAt: 1_030n, operator: keeper, fulfilmentTx: 7 }),
+        makeRequest({ id: 2n, requestedBy: alice, feePaid: 100n, timestamp: 1_000n, fulfilledAt: 1_030n, operator: keeper, fulfilmentTx: 7 }),
+      ],
+    }
+    const userActivity = aggregateUserActivity(batched, keeper, new Map([[txHash(7), 60n]]))
+    expect(userActivity.totalFeesEarned).toBe(200n - 60n)
+  })
+
+  it('tracks accounts that both request and fulfil', () => {
+    const userActivity = aggregateUserActivity(activity, alice, new Map())
+    expect(userActivity.requestsSubmitted).toBe(2n)
+    expect(userActivity.requestsFulfilled).toBe(1n)
+    expect(getUserRole(userActivity)).toBe('hybrid')
+  })
+})
+
+describe('getOperatorPerformance', () => {
+  it('measures response time and callback success', () => {
+    expect(getOperatorPerformance(activity, keeper)).toEqual({
+      successRate: 50,
+      averageResponseTime: 45,
+    })
+    expect(getOperatorPerformance(activity, bob)).toEqual({
+      successRate: 0,
+      averageResponseTime: 0,
+    })
+  })
+})
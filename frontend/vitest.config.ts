@@ -29,7 +29,10 @@ export default defineConfig({
       '@/components': path.resolve(__dirname, './src/components'),
       '@/hooks': path.resolve(__dirname, './src/hooks'),
       '@/types': path.resolve(__dirname, './src/types'),
-      '@/lib': path.resolve(__dirname, './src/lib')
-    }
+      '@/lib': path.resolve(__dirname, './src/lib'),
+      '@anyrand/lib': path.resolve(__dirname, '../lib'),
+      'anyrand-sdk': path.resolve(__dirname, '../sdk/src')
+    },
+    dedupe: ['@kevincharm/noble-bn254-drand', '@noble/curves', '@noble/hashes', 'viem']
   }
 })
\ No newline at end of file
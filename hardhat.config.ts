@@ -54,7 +54,7 @@ const config: HardhatUserConfig = {
         runOnCompile: true,
         clear: true,
         flat: true,
-        only: ['Anyrand'],
+        only: ['Anyrand', 'DrandBeacon'],
         except: ['test/*'],
     },
 }
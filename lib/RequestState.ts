@@ -1,7 +1 @@
-// From IAnyrand
-export enum RequestState {
-    Nonexistent,
-    Pending,
-    Fulfilled,
-    Failed,
-}
+export { RequestState } from '../sdk/src/types'
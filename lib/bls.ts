@@ -0,0 +1,82 @@
+import { bn254 } from '@kevincharm/noble-bn254-drand'
+import { keccak_256 } from '@noble/hashes/sha3'
+
+// NB: This module is shared with the frontend, so it must not depend on ethers
+// or anything else that is only available to the hardhat project.
+
+/// Domain separation tag of the drand evmnet scheme, as used by `DrandBeacon`
+export const DRAND_BN254_DST = 'BLS_SIG_BN254G1_XMD:KECCAK-256_SVDW_RO_NUL_'
+
+export type G1 = typeof bn254.G1.ProjectivePoint.BASE
+export type G2 = typeof bn254.G2.ProjectivePoint.BASE
+
+/// Beacon public key, either as the raw bytes returned by
+/// `DrandBeacon.publicKey()` or the uint256[4] the beacon was deployed with.
+export type BeaconPublicKey = string | Uint8Array | readonly [bigint, bigint, bigint, bigint] | G2
+
+/// Hash a round to a G1 point exactly like `DrandBeacon.verifyBeaconRound`:
+/// keccak256 of the round as a big-endian uint64, then hash-to-curve.
+export function hashRound(round: bigint): G1 {
+    const roundBytes = new Uint8Array(8)
+    new DataView(roundBytes.buffer).setBigUint64(0, BigInt.asUintN(64, round))
+    return bn254.G1.hashToCurve(keccak_256(roundBytes), { DST: DRAND_BN254_DST }) as G1
+}
+
+function toWords(publicKey: string | Uint8Array) {
+    const hex =
+        typeof publicKey === 'string'
+            ? publicKey.replace(/^0x/, '')
+            : Array.from(publicKey, (byte) => byte.toString(16).padStart(2, '0')).join('')
+    if (hex.length !== 256) {
+        throw new Error(`Expected 128-byte public key, got ${hex.length / 2} bytes`)
+    }
+    return [0, 1, 2, 3].map((i) => BigInt('0x' + hex.slice(i * 64, (i + 1) * 64))) as [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+    ]
+}
+
+/// Decode a beacon public key; words are laid out as [x.c0, x.c1, y.c0, y.c1]
+export function decodeBeaconPublicKey(publicKey: BeaconPublicKey): G2 {
+    if (publicKey instanceof bn254.G2.ProjectivePoint) {
+        return publicKey as G2
+    }
+    const [x0, x1, y0, y1] =
+        typeof publicKey === 'string' || publicKey instanceof Uint8Array
+            ? toWords(publicKey)
+            : (publicKey as readonly [bigint, bigint, bigint, bigint])
+    const { Fp2 } = bn254.fields
+    const point = bn254.G2.ProjectivePoint.fromAffine({
+        x: Fp2.fromBigTuple([x0, x1]),
+        y: Fp2.fromBigTuple([y0, y1]),
+    })
+    point.assertValidity()
+    return point as G2
+}
+
+/// Check that a signature is a valid G1 point, like `BLS.isValidSignature`
+export function isValidSignature(signature: readonly [bigint, bigint]) {
+    try {
+        const point = bn254.G1.ProjectivePoint.fromAffine({ x: signature[0], y: signature[1] })
+        point.assertValidity()
+        return !point.equals(bn254.G1.ProjectivePoint.ZERO)
+    } catch {
+        return false
+    }
+}
+
+/// Verify a beacon signature over a round. Returns true iff
+/// `DrandBeacon.verifyBeaconRound` would accept the same inputs.
+export function verifyBeaconRound(
+    publicKey: BeaconPublicKey,
+    round: bigint,
+    signature: readonly [bigint, bigint],
+): boolean {
+    if (!isValidSignature(signature)) {
+        return false
+    }
+    const sig = bn254.G1.ProjectivePoint.fromAffine({ x: signature[0], y: signature[1] })
+    return bn254.verifyShortSignature(sig, hashRound(round), decodeBeaconPublicKey(publicKey))
+}
@@ -0,0 +1,40 @@
+import {
+    AnyrandDeployment,
+    Hex,
+    getDeployment as getRegistryDeployment,
+    getDeploymentEnvName,
+} from '../sdk/src'
+
+/// Deployment on a chain for scripts. Addresses can be overridden with env
+/// vars, e.g. ANYRAND_SCROLL_SEPOLIA_ADDRESS, which is also how local deployments
+/// (ANYRAND_LOCAL_ADDRESS etc., written by `yarn deploy:local`) are configured.
+export function getDeployment(
+    chainId: number | bigint,
+    env: Record<string, string | undefined> = process.env,
+): AnyrandDeployment | undefined {
+    const envName = getDeploymentEnvName(chainId)
+    const address = (contract: string) => env[`${contract}_${envName}_ADDRESS`] as Hex | undefined
+    return getRegistryDeployment(chainId, {
+        anyrand: address('ANYRAND'),
+        beacon: address('BEACON'),
+        gasStation: address('GAS_STATION'),
+        consumer: address('CONSUMER'),
+    })
+}
+
+/// Like `getDeployment`, but throws if there is no deployment on the chain
+export function requireDeployment(
+    chainId: number | bigint,
+    env: Record<string, string | undefined> = process.env,
+): AnyrandDeployment {
+    const deployment = getDeployment(chainId, env)
+    if (!deployment) {
+        const envName = getDeploymentEnvName(chainId)
+        throw new Error(
+            `No Anyrand deployment on chain ${chainId}. Add it to the registry in ` +
+                `scripts/generateSdk.ts, or set ANYRAND_${envName}_ADDRESS, ` +
+                `BEACON_${envName}_ADDRESS and GAS_STATION_${envName}_ADDRESS`,
+        )
+    }
+    return deployment
+}
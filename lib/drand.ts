@@ -18,28 +18,232 @@ export const DrandBeaconRoundSchema = z.object({
 })
 export type DrandBeaconRound = z.infer<typeof DrandBeaconRoundSchema>
 
-export async function getDrandBeaconInfo(beaconId: string) {
-    const res = await fetch(`https://api.drand.sh/v2/beacons/${beaconId}/info`)
-    if (res.status >= 400) {
-        throw new Error(`Failed to get Drand beacon info: ${res.statusText}`)
+/// Public drand relays serving the v2 HTTP API, in order of preference
+export const DEFAULT_DRAND_RELAYS = [
+    'https://api.drand.sh',
+    'https://api2.drand.sh',
+    'https://drand.cloudflare.com',
+]
+
+/// Relays to use when none are configured explicitly. `DRAND_URL` may be set to
+/// one or more comma-separated base URLs, e.g. a local simulator (see
+/// lib/drandSimulator.ts), in which case only those are used.
+export function getDrandRelays() {
+    const custom = (process.env.DRAND_URL || '')
+        .split(',')
+        .map((url) => url.trim().replace(/\/+$/, ''))
+        .filter(Boolean)
+    return custom.length > 0 ? custom : DEFAULT_DRAND_RELAYS
+}
+
+/// Primary drand relay
+export function getDrandUrl() {
+    return getDrandRelays()[0]
+}
+
+/// Describes what was being fetched, for error messages
+export interface DrandRequestContext {
+    beaconId: string
+    /// Omitted for beacon info; 'latest' for the latest round
+    round?: number | 'latest'
+}
+
+function describeRequest({ beaconId, round }: DrandRequestContext) {
+    return typeof round === 'undefined'
+        ? `drand beacon info for ${beaconId}`
+        : `drand round ${round} of ${beaconId}`
+}
+
+/// A single failed attempt against a single relay
+export class DrandRelayError extends Error {
+    constructor(
+        public readonly relay: string,
+        public readonly context: DrandRequestContext,
+        reason: string,
+        /// HTTP status, if the relay responded at all
+        public readonly status?: number,
+        /// Whether the same relay may succeed if retried
+        public readonly isRetryable = true,
+    ) {
+        super(`Failed to get ${describeRequest(context)} from ${relay}: ${reason}`)
     }
-    return DrandBeaconInfoSchema.parse(await res.json())
 }
 
-export async function getDrandBeaconRound(beaconId: string, round: number) {
-    const res = await fetch(`https://api.drand.sh/v2/beacons/${beaconId}/rounds/${round}`)
-    if (res.status >= 400) {
-        throw new Error(`Failed to get Drand beacon info: ${res.statusText}`)
+/// Every relay failed; `errors` holds the last error from each relay
+export class DrandRequestError extends Error {
+    constructor(
+        public readonly context: DrandRequestContext,
+        public readonly errors: DrandRelayError[],
+    ) {
+        super(
+            `Failed to get ${describeRequest(context)} from all relays:\n` +
+                errors.map((err) => `  ${err.message}`).join('\n'),
+        )
+    }
+
+    get beaconId() {
+        return this.context.beaconId
+    }
+
+    get round() {
+        return this.context.round
+    }
+
+    /// True if every relay reported that the round does not exist (yet)
+    get isRoundUnavailable() {
+        return this.errors.every((err) => err.status === 404 || err.status === 425)
     }
-    return DrandBeaconRoundSchema.parse(await res.json())
 }
 
-export async function getDrandBeaconLatestRound(beaconId: string) {
-    const res = await fetch(`https://api.drand.sh/v2/beacons/${beaconId}/rounds/latest`)
-    if (res.status >= 400) {
-        throw new Error(`Failed to get Drand beacon info: ${res.statusText}`)
+export interface DrandClientConfig {
+    /// Base URLs of drand relays, tried in order. Defaults to `getDrandRelays()`.
+    relays?: string[]
+    /// Timeout for each individual request
+    timeoutMs?: number
+    /// Number of retries against each relay for transient failures
+    retries?: number
+    /// Delay before the first retry; doubles on each subsequent retry
+    backoffMs?: number
+}
+
+/// drand HTTP API client that fails over across relays. The relay that last
+/// succeeded is tried first on subsequent requests.
+export class DrandClient {
+    public readonly relays: string[]
+    private readonly timeoutMs: number
+    private readonly retries: number
+    private readonly backoffMs: number
+    private preferredRelay = 0
+
+    constructor(config: DrandClientConfig = {}) {
+        this.relays = (config.relays || getDrandRelays()).map((url) => url.replace(/\/+$/, ''))
+        if (this.relays.length === 0) {
+            throw new Error('No drand relays configured')
+        }
+        this.timeoutMs = config.timeoutMs ?? 5000
+        this.retries = config.retries ?? 2
+        this.backoffMs = config.backoffMs ?? 250
+    }
+
+    async getBeaconInfo(beaconId: string) {
+        return this.request(`/v2/beacons/${beaconId}/info`, DrandBeaconInfoSchema, { beaconId })
+    }
+
+    async getBeaconRound(beaconId: string, round: number) {
+        return this.request(`/v2/beacons/${beaconId}/rounds/${round}`, DrandBeaconRoundSchema, {
+            beaconId,
+            round,
+        })
+    }
+
+    async getBeaconLatestRound(beaconId: string) {
+        return this.request(`/v2/beacons/${beaconId}/rounds/latest`, DrandBeaconRoundSchema, {
+            beaconId,
+            round: 'latest',
+        })
+    }
+
+    private async request<T extends z.ZodTypeAny>(
+        path: string,
+        schema: T,
+        context: DrandRequestContext,
+    ): Promise<z.infer<T>> {
+        const errors: DrandRelayError[] = []
+        for (let i = 0; i < this.relays.length; i++) {
+            const relayIndex = (this.preferredRelay + i) % this.relays.length
+            const relay = this.relays[relayIndex]
+            for (let attempt = 0; ; attempt++) {
+                try {
+                    const result = await this.fetchOnce(relay, path, schema, context)
+                    this.preferredRelay = relayIndex
+                    return result
+                } catch (err) {
+                    if (!(err instanceof DrandRelayError)) throw err
+                    if (!err.isRetryable || attempt >= this.retries) {
+                        errors.push(err)
+                        break
+                    }
+                    await new Promise((resolve) =>
+                        setTimeout(resolve, this.backoffMs * 2 ** attempt),
+                    )
+                }
+            }
+        }
+        throw new DrandRequestError(context, errors)
+    }
+
+    private async fetchOnce<T extends z.ZodTypeAny>(
+        relay: string,
+        path: string,
+        schema: T,
+        context: DrandRequestContext,
+    ): Promise<z.infer<T>> {
+        let res: Response
+        try {
+            res = await fetch(`${relay}${path}`, {
+                signal: AbortSignal.timeout(this.timeoutMs),
+            })
+        } catch (err) {
+            const isTimeout = err instanceof Error && err.name === 'TimeoutError'
+            throw new DrandRelayError(
+                relay,
+                context,
+                isTimeout ? `timed out after ${this.timeoutMs}ms` : String(err),
+            )
+        }
+        if (res.status >= 400) {
+            // Client errors other than timeouts/rate limits will not go away
+            // by retrying the same relay
+            const isRetryable = res.status >= 500 || res.status === 408 || res.status === 429
+            throw new DrandRelayError(
+                relay,
+                context,
+                `${res.status} ${res.statusText}`,
+                res.status,
+                isRetryable,
+            )
+        }
+        let body: unknown
+        try {
+            body = await res.json()
+        } catch (err) {
+            throw new DrandRelayError(relay, context, `invalid JSON response`, res.status, false)
+        }
+        const parsed = schema.safeParse(body)
+        if (!parsed.success) {
+            throw new DrandRelayError(
+                relay,
+                context,
+                `unexpected response: ${parsed.error.message}`,
+                res.status,
+                false,
+            )
+        }
+        return parsed.data
+    }
+}
+
+let defaultClient: DrandClient | undefined
+
+/// Shared client for the configured relays (see `getDrandRelays`)
+export function getDefaultDrandClient() {
+    const relays = getDrandRelays()
+    if (!defaultClient || defaultClient.relays.join(',') !== relays.join(',')) {
+        defaultClient = new DrandClient({ relays })
     }
-    return DrandBeaconRoundSchema.parse(await res.json())
+    return defaultClient
+}
+
+export async function getDrandBeaconInfo(beaconId: string) {
+    return getDefaultDrandClient().getBeaconInfo(beaconId)
+}
+
+export async function getDrandBeaconRound(beaconId: string, round: number) {
+    return getDefaultDrandClient().getBeaconRound(beaconId, round)
+}
+
+export async function getDrandBeaconLatestRound(beaconId: string) {
+    return getDefaultDrandClient().getBeaconLatestRound(beaconId)
 }
 
 export function decodeG2(point: string) {
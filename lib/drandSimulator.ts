@@ -0,0 +1,183 @@
+import http from 'node:http'
+import { AddressInfo } from 'node:net'
+import { bn254 } from '@kevincharm/noble-bn254-drand'
+import { keccak256, sha256, toUtf8Bytes } from 'ethers'
+import { DrandBeaconInfo } from './drand'
+import { hashRound } from './bls'
+
+/// Chain hash of the real evmnet beacon. The simulator reuses it by default so
+/// that anything addressing evmnet by chain hash only needs its base URL swapped.
+export const EVMNET_CHAIN_HASH = '52db9ba70e0cc0f6eaf7803dd07447a1f5477735fd3f661792ba94600c84e971'
+/// Arbitrary fixed genesis so that restarting the simulator keeps round timings
+/// consistent with beacons that have already been deployed against it
+export const DRAND_SIMULATOR_DEFAULT_GENESIS = 1727521075
+
+export interface DrandSimulatorConfig {
+    /// BN254 secret key of the simulated beacon. Takes precedence over `seed`.
+    secretKey?: bigint
+    /// Deterministically derive the secret key from this seed. If neither
+    /// `secretKey` nor `seed` are given, a random key is generated.
+    seed?: string
+    genesisTime?: number
+    period?: number
+    beaconId?: string
+    chainHash?: string
+    /// Current unix time in seconds; defaults to the wall clock
+    now?: () => number
+}
+
+export interface SimulatedBeaconRound {
+    round: number
+    randomness: string
+    signature: string
+}
+
+export class DrandRoundNotAvailableError extends Error {
+    constructor(public readonly round: number) {
+        super(`Round ${round} is not available yet`)
+    }
+}
+
+/// A local stand-in for the drand HTTP API that signs rounds of a BN254
+/// beacon with a known secret key.
+export class DrandSimulator {
+    public readonly secretKey: bigint
+    public readonly info: DrandBeaconInfo
+    private readonly now: () => number
+    private readonly cache = new Map<number, SimulatedBeaconRound>()
+    private server?: http.Server
+
+    constructor(config: DrandSimulatorConfig = {}) {
+        if (typeof config.secretKey !== 'undefined') {
+            this.secretKey = config.secretKey
+        } else if (typeof config.seed !== 'undefined') {
+            this.secretKey = bn254.fields.Fr.create(BigInt(keccak256(toUtf8Bytes(config.seed))))
+        } else {
+            this.secretKey = bn254.fields.Fr.create(
+                BigInt('0x' + Buffer.from(bn254.utils.randomPrivateKey()).toString('hex')),
+            )
+        }
+        if (this.secretKey === 0n) {
+            throw new Error('Invalid secret key')
+        }
+        this.now = config.now || (() => Math.floor(Date.now() / 1000))
+
+        const publicKey = bn254.G2.ProjectivePoint.fromPrivateKey(this.secretKey).toHex()
+        this.info = {
+            public_key: publicKey,
+            period: config.period || 3,
+            genesis_time: config.genesisTime || DRAND_SIMULATOR_DEFAULT_GENESIS,
+            genesis_seed: keccak256('0x' + publicKey).slice(2),
+            chain_hash: config.chainHash || EVMNET_CHAIN_HASH,
+            scheme: 'bls-bn254-unchained-on-g1',
+            beacon_id: config.beaconId || 'evmnet',
+        }
+    }
+
+    /// Latest round that has been published at the current time
+    latestRound() {
+        const elapsed = this.now() - this.info.genesis_time
+        return elapsed < 0 ? 0 : Math.floor(elapsed / this.info.period) + 1
+    }
+
+    /// Sign a round, regardless of whether it has been published yet
+    signRound(round: number): SimulatedBeaconRound {
+        let beaconRound = this.cache.get(round)
+        if (!beaconRound) {
+            const signature = bn254
+                .signShortSignature(hashRound(BigInt(round)), this.secretKey)
+                .toHex()
+            beaconRound = {
+                round,
+                // As with drand, randomness is the sha256 of the signature
+                randomness: sha256('0x' + signature).slice(2),
+                signature,
+            }
+            this.cache.set(round, beaconRound)
+        }
+        return beaconRound
+    }
+
+    /// Get a published round
+    getRound(round: number) {
+        if (round < 1 || round > this.latestRound()) {
+            throw new DrandRoundNotAvailableError(round)
+        }
+        return this.signRound(round)
+    }
+
+    /// Serves the following endpoints:
+    ///  /v2/beacons/{beaconId}/info
+    ///  /v2/beacons/{beaconId}/rounds/{round|latest}
+    ///  [/{chainHash}]/info
+    ///  [/{chainHash}]/public/{round|latest}
+    handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        const send = (status: number, body: unknown) => {
+            res.writeHead(status, {
+                'Content-Type': 'application/json',
+                'Access-Control-Allow-Origin': '*',
+            })
+            res.end(JSON.stringify(body))
+        }
+
+        const segments = new URL(req.url || '/', 'http://localhost').pathname
+            .split('/')
+            .filter(Boolean)
+        if (req.method !== 'GET') {
+            return send(405, { error: 'Method not allowed' })
+        }
+
+        let route: string[]
+        let isLegacy: boolean
+        if (segments[0] === 'v2' && segments[1] === 'beacons') {
+            if (segments[2] !== this.info.beacon_id) {
+                return send(404, { error: `Unknown beacon: ${segments[2]}` })
+            }
+            route = segments.slice(3)
+            isLegacy = false
+        } else {
+            route = segments[0] === this.info.chain_hash ? segments.slice(1) : segments
+            isLegacy = true
+        }
+
+        if (route.length === 1 && route[0] === 'info') {
+            return send(200, this.info)
+        }
+        if (route.length === 2 && route[0] === (isLegacy ? 'public' : 'rounds')) {
+            const round = route[1] === 'latest' ? this.latestRound() : Number(route[1])
+            if (!Number.isSafeInteger(round)) {
+                return send(400, { error: `Invalid round: ${route[1]}` })
+            }
+            try {
+                const { signature, randomness } = this.getRound(round)
+                return send(200, isLegacy ? { round, randomness, signature } : { round, signature })
+            } catch (err) {
+                if (err instanceof DrandRoundNotAvailableError) {
+                    return send(425, { error: err.message })
+                }
+                throw err
+            }
+        }
+        return send(404, { error: 'Not found' })
+    }
+
+    async listen(port = 0, host = '127.0.0.1'): Promise<AddressInfo> {
+        const server = http.createServer((req, res) => this.handle(req, res))
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject)
+            server.listen(port, host, resolve)
+        })
+        this.server = server
+        return server.address() as AddressInfo
+    }
+
+    async close() {
+        const server = this.server
+        this.server = undefined
+        if (server) {
+            await new Promise<void>((resolve, reject) =>
+                server.close((err) => (err ? reject(err) : resolve())),
+            )
+        }
+    }
+}
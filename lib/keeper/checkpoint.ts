@@ -0,0 +1,80 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+/// A request that has been observed on-chain but not yet fulfilled
+export interface PendingRequest {
+    requestId: bigint
+    requester: string
+    pubKeyHash: string
+    round: bigint
+    callbackGasLimit: bigint
+    feePaid: bigint
+    effectiveFeePerGas: bigint
+}
+
+export interface KeeperCheckpoint {
+    /// Last block (inclusive) that has been scanned for requests
+    lastBlock: number
+    pending: PendingRequest[]
+}
+
+export interface CheckpointStore {
+    load(): Promise<KeeperCheckpoint | undefined>
+    save(checkpoint: KeeperCheckpoint): Promise<void>
+}
+
+/// Keeps the checkpoint in memory only; state is lost on restart
+export class MemoryCheckpointStore implements CheckpointStore {
+    private checkpoint?: KeeperCheckpoint
+
+    async load() {
+        return this.checkpoint && structuredClone(this.checkpoint)
+    }
+
+    async save(checkpoint: KeeperCheckpoint) {
+        this.checkpoint = structuredClone(checkpoint)
+    }
+}
+
+/// Persists the checkpoint as JSON. Bigints are serialised as decimal strings.
+export class FileCheckpointStore implements CheckpointStore {
+    constructor(public readonly filePath: string) {}
+
+    async load(): Promise<KeeperCheckpoint | undefined> {
+        let raw: string
+        try {
+            raw = await fs.readFile(this.filePath, 'utf-8')
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined
+            }
+            throw err
+        }
+        const json = JSON.parse(raw)
+        return {
+            lastBlock: Number(json.lastBlock),
+            pending: (json.pending as Record<string, string>[]).map((req) => ({
+                requestId: BigInt(req.requestId),
+                requester: req.requester,
+                pubKeyHash: req.pubKeyHash,
+                round: BigInt(req.round),
+                callbackGasLimit: BigInt(req.callbackGasLimit),
+                feePaid: BigInt(req.feePaid),
+                effectiveFeePerGas: BigInt(req.effectiveFeePerGas),
+            })),
+        }
+    }
+
+    async save(checkpoint: KeeperCheckpoint) {
+        const json = JSON.stringify(
+            checkpoint,
+            (_, value) => (typeof value === 'bigint' ? value.toString() : value),
+            4,
+        )
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+        // Write to a temp file first so a crash never leaves a truncated checkpoint
+        const tmpPath = `${this.filePath}.tmp`
+        await fs.writeFile(tmpPath, json, 'utf-8')
+        await fs.rename(tmpPath, this.filePath)
+    }
+}
@@ -0,0 +1,320 @@
+import {
+    Anyrand,
+    DrandBeacon__factory,
+    IGasStation,
+    IGasStation__factory,
+} from '../../typechain-types'
+import { Signer } from 'ethers'
+import { DrandClient, decodeG1, getDefaultDrandClient } from '../drand'
+import { RequestState, getRoundTimestamp, groupByRound } from '../../sdk/src'
+import { getAnyrandError } from '../../sdk/src/ethers'
+import { verifyBeaconRound } from '../bls'
+import { sleep } from '../sleep'
+import {
+    CheckpointStore,
+    KeeperCheckpoint,
+    MemoryCheckpointStore,
+    PendingRequest,
+} from './checkpoint'
+import { ProfitabilityPolicy, assessProfitability } from './profitability'
+
+export type GetBeaconSignature = (pubKeyHash: string, round: bigint) => Promise<[bigint, bigint]>
+
+export interface KeeperConfig {
+    anyrand: Anyrand
+    /// Where the last scanned block & pending requests are persisted
+    store?: CheckpointStore
+    /// Fetches the beacon signature for a round. Defaults to the drand HTTP API.
+    getSignature?: GetBeaconSignature
+    /// drand beacon id used by the default `getSignature`
+    beaconId?: string
+    /// Decides whether fulfilling a request is worth it at the current gas
+    /// price. If unset, every request is fulfilled as soon as its round is
+    /// published.
+    policy?: ProfitabilityPolicy
+    /// Block to start scanning from if there is no checkpoint
+    startBlock?: number
+    /// Only scan blocks that have at least this many confirmations
+    confirmations?: number
+    /// Maximum block range per `eth_getLogs` query
+    logChunkSize?: number
+    pollIntervalMs?: number
+    log?: (message: string) => void
+}
+
+interface BeaconDetails {
+    publicKey: string
+    genesisTimestamp: bigint
+    period: bigint
+}
+
+export function drandSignatureFetcher(
+    beaconId: string,
+    client: DrandClient = getDefaultDrandClient(),
+): GetBeaconSignature {
+    return async (_pubKeyHash, round) => {
+        const beaconRound = await client.getBeaconRound(beaconId, Number(round))
+        return decodeG1(beaconRound.signature)
+    }
+}
+
+/// Watches an Anyrand coordinator for `RandomnessRequested` events and fulfils
+/// each request once its target drand round has been published.
+export class Keeper {
+    public readonly anyrand: Anyrand
+    private readonly store: CheckpointStore
+    private readonly getSignature: GetBeaconSignature
+    private readonly policy?: ProfitabilityPolicy
+    private readonly startBlock: number
+    private readonly confirmations: number
+    private readonly logChunkSize: number
+    private readonly pollIntervalMs: number
+    private readonly log: (message: string) => void
+    private readonly beacons = new Map<string, BeaconDetails>()
+    private gasStation?: IGasStation
+    private maxFeePerGas?: bigint
+    private checkpoint?: KeeperCheckpoint
+
+    constructor(config: KeeperConfig) {
+        this.anyrand = config.anyrand
+        this.store = config.store || new MemoryCheckpointStore()
+        this.getSignature =
+            config.getSignature || drandSignatureFetcher(config.beaconId || 'evmnet')
+        this.policy = config.policy
+        this.startBlock = config.startBlock || 0
+        this.confirmations = config.confirmations || 0
+        this.logChunkSize = config.logChunkSize || 1000
+        this.pollIntervalMs = config.pollIntervalMs || 5000
+        this.log = config.log || console.log
+    }
+
+    /// Requests that have been seen but not yet fulfilled
+    get pending(): PendingRequest[] {
+        return this.checkpoint ? [...this.checkpoint.pending] : []
+    }
+
+    get lastBlock(): number {
+        return this.checkpoint ? this.checkpoint.lastBlock : this.startBlock - 1
+    }
+
+    private async loadCheckpoint() {
+        if (!this.checkpoint) {
+            this.checkpoint = (await this.store.load()) || {
+                lastBlock: this.startBlock - 1,
+                pending: [],
+            }
+        }
+        return this.checkpoint
+    }
+
+    /// Scan new blocks for `RandomnessRequested` events and add them to the
+    /// pending set.
+    async sync() {
+        const checkpoint = await this.loadCheckpoint()
+        const provider = this.anyrand.runner!.provider!
+        const head = (await provider.getBlockNumber()) - this.confirmations
+        while (checkpoint.lastBlock < head) {
+            const fromBlock = checkpoint.lastBlock + 1
+            const toBlock = Math.min(fromBlock + this.logChunkSize - 1, head)
+            const events = await this.anyrand.queryFilter(
+                this.anyrand.filters.RandomnessRequested(),
+                fromBlock,
+                toBlock,
+            )
+            for (const event of events) {
+                const {
+                    requestId,
+                    requester,
+                    pubKeyHash,
+                    round,
+                    callbackGasLimit,
+                    feePaid,
+                    effectiveFeePerGas,
+                } = event.args
+                if (checkpoint.pending.some((req) => req.requestId === requestId)) continue
+                this.log(`Observed request ${requestId} for round ${round}`)
+                checkpoint.pending.push({
+                    requestId,
+                    requester,
+                    pubKeyHash,
+                    round,
+                    callbackGasLimit,
+                    feePaid,
+                    effectiveFeePerGas,
+                })
+            }
+            checkpoint.lastBlock = toBlock
+            await this.store.save(checkpoint)
+        }
+    }
+
+    private async getBeacon(pubKeyHash: string) {
+        let details = this.beacons.get(pubKeyHash)
+        if (!details) {
+            const beacon = DrandBeacon__factory.connect(
+                await this.anyrand.beacon(pubKeyHash),
+                this.anyrand.runner,
+            )
+            details = {
+                publicKey: await beacon.publicKey(),
+                genesisTimestamp: await beacon.genesisTimestamp(),
+                period: await beacon.period(),
+            }
+            this.beacons.set(pubKeyHash, details)
+        }
+        return details
+    }
+
+    private async getGasStation() {
+        if (!this.gasStation) {
+            this.gasStation = IGasStation__factory.connect(
+                await this.anyrand.gasStation(),
+                this.anyrand.runner,
+            )
+        }
+        return this.gasStation
+    }
+
+    private async getMaxFeePerGas() {
+        if (typeof this.maxFeePerGas === 'undefined') {
+            this.maxFeePerGas = await this.anyrand.maxFeePerGas()
+        }
+        return this.maxFeePerGas
+    }
+
+    /// Fulfil every pending request whose round has been published. Requests
+    /// that are no longer pending on-chain (e.g. fulfilled by another keeper)
+    /// are dropped.
+    ///
+    /// Requests pile up on the same round after a quiet period, so each round's
+    /// signature is fetched once, and fulfilments are sent back to back with
+    /// consecutive nonces rather than waiting for each to be mined.
+    async fulfillReady() {
+        const checkpoint = await this.loadCheckpoint()
+        const provider = this.anyrand.runner!.provider!
+        const latestBlock = await provider.getBlock('latest')
+        const now = BigInt(latestBlock!.timestamp)
+        const { gasPrice } = await provider.getFeeData()
+
+        const remaining: PendingRequest[] = []
+        const fail = (request: PendingRequest) => (err: unknown) => {
+            const decoded = getAnyrandError(err)
+            const reason = decoded ? `${decoded.name}: ${decoded.userMessage}` : err
+            this.log(`Failed to fulfil request ${request.requestId}: ${reason}`)
+            remaining.push(request)
+        }
+        const mined: Promise<void>[] = []
+        let nonce: number | undefined
+        for (const { pubKeyHash, round, requests } of groupByRound(checkpoint.pending)) {
+            let signature: ReturnType<GetBeaconSignature> | undefined
+            for (const request of requests) {
+                try {
+                    const readiness = await this.checkReadiness(request, now, gasPrice!)
+                    if (readiness === 'wait') remaining.push(request)
+                    if (readiness !== 'fulfil') continue
+
+                    signature ??= this.getVerifiedSignature(pubKeyHash, round)
+                    const verifiedSignature = await signature
+                    nonce ??= await (this.anyrand.runner as Signer).getNonce('pending')
+                    const tx = await this.anyrand.fulfillRandomness(
+                        request.requestId,
+                        request.requester,
+                        pubKeyHash,
+                        round,
+                        request.callbackGasLimit,
+                        verifiedSignature,
+                        {
+                            nonce,
+                            // Pay the gas price that profitability was assessed at
+                            ...(this.policy ? { gasPrice } : {}),
+                        },
+                    )
+                    nonce++
+                    mined.push(
+                        tx.wait(1).then((receipt) => {
+                            this.log(
+                                `Fulfilled request ${request.requestId} in tx ${receipt?.hash}`,
+                            )
+                        }, fail(request)),
+                    )
+                } catch (err) {
+                    fail(request)(err)
+                }
+            }
+        }
+        await Promise.all(mined)
+        checkpoint.pending = remaining
+        await this.store.save(checkpoint)
+    }
+
+    /// Whether a request should be fulfilled now, waited on (its round isn't
+    /// published yet, or it's deferred until it's profitable) or dropped
+    private async checkReadiness(
+        request: PendingRequest,
+        now: bigint,
+        gasPrice: bigint,
+    ): Promise<'fulfil' | 'wait' | 'drop'> {
+        const { requestId, pubKeyHash, round } = request
+        const state = Number(await this.anyrand.getRequestState(requestId))
+        if (state !== RequestState.Pending) {
+            this.log(`Request ${requestId} is no longer pending (state: ${RequestState[state]})`)
+            return 'drop'
+        }
+
+        const { genesisTimestamp, period } = await this.getBeacon(pubKeyHash)
+        const roundTimestamp = getRoundTimestamp(genesisTimestamp, period, round)
+        if (roundTimestamp > now) {
+            return 'wait'
+        }
+
+        if (this.policy) {
+            const { decision, profit, effectiveFeePerGas } = await assessProfitability(
+                await this.getGasStation(),
+                request,
+                gasPrice,
+                now - roundTimestamp,
+                {
+                    ...this.policy,
+                    maxFeePerGas: this.policy.maxFeePerGas ?? (await this.getMaxFeePerGas()),
+                },
+            )
+            if (decision === 'defer') {
+                this.log(
+                    `Deferring request ${requestId}: profit ${profit} wei at ${effectiveFeePerGas} wei/gas`,
+                )
+                return 'wait'
+            } else if (decision === 'fulfil-at-loss') {
+                this.log(`Fulfilling request ${requestId} at a loss of ${-profit} wei`)
+            }
+        }
+        return 'fulfil'
+    }
+
+    private async getVerifiedSignature(pubKeyHash: string, round: bigint) {
+        const { publicKey } = await this.getBeacon(pubKeyHash)
+        const signature = await this.getSignature(pubKeyHash, round)
+        // Don't pay for txs that would revert with InvalidSignature
+        if (!verifyBeaconRound(publicKey, round, signature)) {
+            throw new Error(`Invalid beacon signature for round ${round}`)
+        }
+        return signature
+    }
+
+    /// Sync & fulfil once
+    async tick() {
+        await this.sync()
+        await this.fulfillReady()
+    }
+
+    /// Run until the signal is aborted
+    async run(signal?: AbortSignal) {
+        while (!signal?.aborted) {
+            try {
+                await this.tick()
+            } catch (err) {
+                this.log(`Keeper tick failed: ${err}`)
+            }
+            await sleep(this.pollIntervalMs, signal)
+        }
+    }
+}
@@ -0,0 +1,100 @@
+import { IGasStation } from '../../typechain-types'
+import { FULFILL_GAS_OVERHEAD } from '../../sdk/src'
+import { PendingRequest } from './checkpoint'
+
+export type FulfilmentDecision = 'fulfil' | 'defer' | 'fulfil-at-loss'
+
+export interface ProfitabilityPolicy {
+    /// Minimum profit (in wei) for a request to be fulfilled outright.
+    /// Defaults to 0, i.e. break-even.
+    minProfit?: bigint
+    /// Absolute loss (in wei) that the keeper is willing to eat on a request
+    maxLoss?: bigint
+    /// Loss that the keeper is willing to eat, relative to the fee paid
+    maxLossBps?: bigint
+    /// Loss-making requests are never fulfilled while the effective fee per
+    /// gas is above this. The keeper defaults this to the coordinator's
+    /// `maxFeePerGas`.
+    maxFeePerGas?: bigint
+    /// Seconds after the round is published after which a request is
+    /// fulfilled regardless of cost, so that it is never stranded.
+    maxDeferral?: bigint
+}
+
+export interface ProfitabilityAssessment {
+    decision: FulfilmentDecision
+    /// Estimated cost of the fulfilment tx (in wei)
+    txCost: bigint
+    effectiveFeePerGas: bigint
+    /// Fee paid minus estimated tx cost; negative if loss-making
+    profit: bigint
+}
+
+export interface DecideFulfilmentParams {
+    feePaid: bigint
+    txCost: bigint
+    effectiveFeePerGas: bigint
+    /// Seconds elapsed since the request's round was published
+    waited: bigint
+    policy: ProfitabilityPolicy
+}
+
+export function decideFulfilment({
+    feePaid,
+    txCost,
+    effectiveFeePerGas,
+    waited,
+    policy,
+}: DecideFulfilmentParams): FulfilmentDecision {
+    const profit = feePaid - txCost
+    if (profit >= (policy.minProfit || 0n)) {
+        return 'fulfil'
+    }
+
+    const loss = -profit
+    const hasLossTolerance =
+        typeof policy.maxLoss !== 'undefined' || typeof policy.maxLossBps !== 'undefined'
+    const isLossTolerated =
+        hasLossTolerance &&
+        (typeof policy.maxLoss === 'undefined' || loss <= policy.maxLoss) &&
+        (typeof policy.maxLossBps === 'undefined' || loss * 10_000n <= feePaid * policy.maxLossBps)
+    const isGasPriceAcceptable =
+        typeof policy.maxFeePerGas === 'undefined' || effectiveFeePerGas <= policy.maxFeePerGas
+    if (isLossTolerated && isGasPriceAcceptable) {
+        return 'fulfil-at-loss'
+    }
+
+    if (typeof policy.maxDeferral !== 'undefined' && waited >= policy.maxDeferral) {
+        return 'fulfil-at-loss'
+    }
+
+    return 'defer'
+}
+
+/// Estimate the cost of fulfilling `request` at `gasPrice` using the
+/// coordinator's gas station, and decide whether to fulfil it.
+export async function assessProfitability(
+    gasStation: IGasStation,
+    request: PendingRequest,
+    gasPrice: bigint,
+    waited: bigint,
+    policy: ProfitabilityPolicy,
+): Promise<ProfitabilityAssessment> {
+    // NB: The gas station uses `tx.gasprice`, so it must be set explicitly
+    const [txCost, effectiveFeePerGas] = await gasStation.getTxCost(
+        FULFILL_GAS_OVERHEAD + request.callbackGasLimit,
+        { gasPrice },
+    )
+    return {
+        decision: decideFulfilment({
+            feePaid: request.feePaid,
+            txCost,
+            effectiveFeePerGas,
+            waited,
+            policy,
+        }),
+        txCost,
+        effectiveFeePerGas,
+        profit: request.feePaid - txCost,
+    }
+}
@@ -0,0 +1,186 @@
+import { Anyrand } from '../../typechain-types'
+import { ANYRAND_EVENT_NAMES } from '../../sdk/src'
+import { anyrandInterface, decodeAnyrandLog } from '../../sdk/src/ethers'
+import { sleep } from '../sleep'
+import {
+    DeadLetterLog,
+    MemoryNotifierStore,
+    NotifierCheckpoint,
+    NotifierCheckpointStore,
+} from './store'
+import { RetryOptions, Webhook, WebhookPayload, deliverWebhook, isSubscribed } from './webhooks'
+
+export interface NotifierConfig {
+    anyrand: Anyrand
+    webhooks: Webhook[]
+    /// Where the last notified block is persisted
+    store?: NotifierCheckpointStore
+    /// Where deliveries that failed on every attempt are recorded
+    deadLetters?: DeadLetterLog
+    retry?: RetryOptions
+    /// Block to start scanning from if there is no checkpoint
+    startBlock?: number
+    /// Only notify about blocks that have at least this many confirmations
+    confirmations?: number
+    /// Maximum block range per `eth_getLogs` query
+    logChunkSize?: number
+    pollIntervalMs?: number
+    log?: (message: string) => void
+}
+
+const EVENT_TOPICS = ANYRAND_EVENT_NAMES.map((name) => anyrandInterface.getEvent(name)!.topicHash)
+
+/// Watches an Anyrand coordinator for request lifecycle events and POSTs each
+/// one to the webhooks subscribed to its requester. Delivery is at-least-once:
+/// the checkpoint only advances once every event in a block range has either
+/// been delivered or dead-lettered.
+export class Notifier {
+    public readonly anyrand: Anyrand
+    private readonly webhooks: Webhook[]
+    private readonly store: NotifierCheckpointStore
+    private readonly deadLetters: DeadLetterLog
+    private readonly retry: RetryOptions
+    private readonly startBlock: number
+    private readonly confirmations: number
+    private readonly logChunkSize: number
+    private readonly pollIntervalMs: number
+    private readonly log: (message: string) => void
+    private chainId?: number
+    private checkpoint?: NotifierCheckpoint
+
+    constructor(config: NotifierConfig) {
+        this.anyrand = config.anyrand
+        this.webhooks = config.webhooks
+        const memoryStore = new MemoryNotifierStore()
+        this.store = config.store || memoryStore
+        this.deadLetters = config.deadLetters || memoryStore
+        this.retry = config.retry || {}
+        this.startBlock = config.startBlock || 0
+        this.confirmations = config.confirmations || 0
+        this.logChunkSize = config.logChunkSize || 1000
+        this.pollIntervalMs = config.pollIntervalMs || 5000
+        this.log = config.log || console.log
+    }
+
+    get lastBlock(): number {
+        return this.checkpoint ? this.checkpoint.lastBlock : this.startBlock - 1
+    }
+
+    private async loadCheckpoint() {
+        if (!this.checkpoint) {
+            this.checkpoint = (await this.store.load()) || {
+                lastBlock: this.startBlock - 1,
+                requesters: {},
+            }
+        }
+        return this.checkpoint
+    }
+
+    private async getChainId() {
+        if (typeof this.chainId === 'undefined') {
+            const network = await this.anyrand.runner!.provider!.getNetwork()
+            this.chainId = Number(network.chainId)
+        }
+        return this.chainId
+    }
+
+    /// Requester of a request that was made before the checkpoint started
+    /// tracking requesters, looked up from its `RandomnessRequested` event
+    private async findRequester(requestId: bigint, toBlock: number) {
+        const [event] = await this.anyrand.queryFilter(
+            this.anyrand.filters.RandomnessRequested(requestId),
+            this.startBlock,
+            toBlock,
+        )
+        return event ? event.args.requester : null
+    }
+
+    /// Scan new blocks for lifecycle events and notify webhooks about them
+    async sync() {
+        const checkpoint = await this.loadCheckpoint()
+        const provider = this.anyrand.runner!.provider!
+        const anyrandAddress = await this.anyrand.getAddress()
+        const chainId = await this.getChainId()
+        const head = (await provider.getBlockNumber()) - this.confirmations
+        while (checkpoint.lastBlock < head) {
+            const fromBlock = checkpoint.lastBlock + 1
+            const toBlock = Math.min(fromBlock + this.logChunkSize - 1, head)
+            const logs = await provider.getLogs({
+                address: anyrandAddress,
+                topics: [EVENT_TOPICS],
+                fromBlock,
+                toBlock,
+            })
+            for (const log of logs) {
+                const event = decodeAnyrandLog(log)
+                if (!event) continue
+                const requestId = event.args.requestId
+                let requester: string | null
+                if (event.eventName === 'RandomnessRequested') {
+                    requester = event.args.requester
+                    checkpoint.requesters[requestId.toString()] = requester
+                } else {
+                    requester =
+                        checkpoint.requesters[requestId.toString()] ??
+                        (await this.findRequester(requestId, log.blockNumber))
+                }
+                await this.notify({
+                    id: `${log.transactionHash}-${log.index}`,
+                    chainId,
+                    anyrand: anyrandAddress,
+                    event: event.eventName,
+                    requestId,
+                    requester,
+                    blockNumber: log.blockNumber,
+                    transactionHash: log.transactionHash,
+                    logIndex: log.index,
+                    args: event.args,
+                })
+                // Nothing comes after fulfilment, so the requester isn't needed anymore
+                if (event.eventName === 'RandomnessFulfilled') {
+                    delete checkpoint.requesters[requestId.toString()]
+                }
+            }
+            checkpoint.lastBlock = toBlock
+            await this.store.save(checkpoint)
+        }
+    }
+
+    /// Deliver a payload to every webhook subscribed to its requester. Failed
+    /// deliveries are dead-lettered rather than blocking later events.
+    private async notify(payload: WebhookPayload) {
+        const webhooks = this.webhooks.filter((webhook) => isSubscribed(webhook, payload.requester))
+        await Promise.all(
+            webhooks.map(async (webhook) => {
+                const result = await deliverWebhook(webhook, payload, this.retry)
+                if (result.delivered) {
+                    this.log(`Delivered ${payload.event} for request ${payload.requestId}`)
+                    return
+                }
+                this.log(
+                    `Failed to deliver ${payload.event} for request ${payload.requestId} to ${webhook.url} after ${result.attempts} attempts`,
+                )
+                await this.deadLetters.append({
+                    url: webhook.url,
+                    payload,
+                    attempts: result.attempts,
+                    status: result.status,
+                    error: result.error,
+                    failedAt: new Date().toISOString(),
+                })
+            }),
+        )
+    }
+
+    /// Run until the signal is aborted
+    async run(signal?: AbortSignal) {
+        while (!signal?.aborted) {
+            try {
+                await this.sync()
+            } catch (err) {
+                this.log(`Notifier tick failed: ${err}`)
+            }
+            await sleep(this.pollIntervalMs, signal)
+        }
+    }
+}
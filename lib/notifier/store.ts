@@ -0,0 +1,89 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { WebhookPayload } from './webhooks'
+
+export interface NotifierCheckpoint {
+    /// Last block (inclusive) whose events have been delivered
+    lastBlock: number
+    /// Requesters of requests that haven't been fulfilled yet, by request ID.
+    /// Fulfilment events don't include the requester, so this is how they're
+    /// matched to webhooks.
+    requesters: Record<string, string>
+}
+
+export interface NotifierCheckpointStore {
+    load(): Promise<NotifierCheckpoint | undefined>
+    save(checkpoint: NotifierCheckpoint): Promise<void>
+}
+
+/// A delivery that failed on every attempt
+export interface DeadLetter {
+    url: string
+    payload: WebhookPayload
+    attempts: number
+    status?: number
+    error?: string
+    failedAt: string
+}
+
+export interface DeadLetterLog {
+    append(deadLetter: DeadLetter): Promise<void>
+}
+
+/// Keeps state in memory only; it is lost on restart
+export class MemoryNotifierStore implements NotifierCheckpointStore, DeadLetterLog {
+    private checkpoint?: NotifierCheckpoint
+    public readonly deadLetters: DeadLetter[] = []
+
+    async load() {
+        return this.checkpoint && structuredClone(this.checkpoint)
+    }
+
+    async save(checkpoint: NotifierCheckpoint) {
+        this.checkpoint = structuredClone(checkpoint)
+    }
+
+    async append(deadLetter: DeadLetter) {
+        this.deadLetters.push(structuredClone(deadLetter))
+    }
+}
+
+/// Persists the checkpoint as JSON
+export class FileNotifierCheckpointStore implements NotifierCheckpointStore {
+    constructor(public readonly filePath: string) {}
+
+    async load(): Promise<NotifierCheckpoint | undefined> {
+        let raw: string
+        try {
+            raw = await fs.readFile(this.filePath, 'utf-8')
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined
+            }
+            throw err
+        }
+        return JSON.parse(raw)
+    }
+
+    async save(checkpoint: NotifierCheckpoint) {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+        // Write to a temp file first so a crash never leaves a truncated checkpoint
+        const tmpPath = `${this.filePath}.tmp`
+        await fs.writeFile(tmpPath, JSON.stringify(checkpoint, null, 4), 'utf-8')
+        await fs.rename(tmpPath, this.filePath)
+    }
+}
+
+/// Appends dead letters to a file, one JSON object per line, so that they can
+/// be inspected and replayed
+export class FileDeadLetterLog implements DeadLetterLog {
+    constructor(public readonly filePath: string) {}
+
+    async append(deadLetter: DeadLetter) {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+        const line = JSON.stringify(deadLetter, (_, value) =>
+            typeof value === 'bigint' ? value.toString() : value,
+        )
+        await fs.appendFile(this.filePath, `${line}\n`, 'utf-8')
+    }
+}
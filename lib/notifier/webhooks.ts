@@ -0,0 +1,134 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import fs from 'node:fs/promises'
+import { AnyrandEvent } from '../../sdk/src'
+
+/// A registered webhook endpoint
+export interface Webhook {
+    url: string
+    /// Shared secret that payloads are signed with
+    secret: string
+    /// Only notify about requests made by these addresses (usually consumer
+    /// contracts). Notifies about every request if unset.
+    requesters?: string[]
+}
+
+/// Body POSTed to webhooks. Bigints are serialised as decimal strings.
+export interface WebhookPayload {
+    /// Unique per event, so that receivers can deduplicate retried deliveries
+    id: string
+    chainId: number
+    anyrand: string
+    event: AnyrandEvent['eventName']
+    requestId: bigint
+    /// Unknown if the request was made before the notifier started watching
+    requester: string | null
+    blockNumber: number
+    transactionHash: string
+    logIndex: number
+    args: AnyrandEvent['args']
+}
+
+export const SIGNATURE_HEADER = 'X-Anyrand-Signature'
+export const EVENT_HEADER = 'X-Anyrand-Event'
+export const DELIVERY_HEADER = 'X-Anyrand-Delivery'
+
+export function serialisePayload(payload: WebhookPayload) {
+    return JSON.stringify(payload, (_, value) =>
+        typeof value === 'bigint' ? value.toString() : value,
+    )
+}
+
+/// HMAC-SHA256 of the raw request body, sent in the `X-Anyrand-Signature`
+/// header as `sha256=<hex>`
+export function signPayload(secret: string, body: string) {
+    return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+}
+
+/// Check the signature of a delivery, as a receiver would
+export function verifyPayloadSignature(secret: string, body: string, signature: string) {
+    const expected = Buffer.from(signPayload(secret, body))
+    const actual = Buffer.from(signature)
+    return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+export function isSubscribed(webhook: Webhook, requester: string | null) {
+    if (!webhook.requesters) return true
+    return (
+        requester !== null &&
+        webhook.requesters.some((address) => address.toLowerCase() === requester.toLowerCase())
+    )
+}
+
+/// Read the registered webhooks from a JSON file containing an array of
+/// `Webhook`s
+export async function loadWebhooks(filePath: string): Promise<Webhook[]> {
+    const webhooks = JSON.parse(await fs.readFile(filePath, 'utf-8')) as Webhook[]
+    for (const webhook of webhooks) {
+        if (!webhook.url || !webhook.secret) {
+            throw new Error(`Webhook in ${filePath} is missing a url or secret`)
+        }
+        new URL(webhook.url)
+    }
+    return webhooks
+}
+
+export interface RetryOptions {
+    /// Total attempts, including the first (default 5)
+    maxAttempts?: number
+    /// Delay before the first retry, doubled on every retry after (default 1000)
+    initialBackoffMs?: number
+    /// Per-attempt timeout (default 10000)
+    timeoutMs?: number
+}
+
+export interface DeliveryResult {
+    delivered: boolean
+    attempts: number
+    /// HTTP status of the last attempt, if there was a response
+    status?: number
+    error?: string
+}
+
+/// Whether a failed delivery is worth retrying. Client errors other than rate
+/// limiting won't go away by themselves.
+function isRetryable(status: number) {
+    return status >= 500 || status === 408 || status === 429
+}
+
+/// POST a payload to a webhook, retrying with exponential backoff
+export async function deliverWebhook(
+    webhook: Webhook,
+    payload: WebhookPayload,
+    { maxAttempts = 5, initialBackoffMs = 1000, timeoutMs = 10_000 }: RetryOptions = {},
+): Promise<DeliveryResult> {
+    const body = serialisePayload(payload)
+    const headers = {
+        'Content-Type': 'application/json',
+        [SIGNATURE_HEADER]: signPayload(webhook.secret, body),
+        [EVENT_HEADER]: payload.event,
+        [DELIVERY_HEADER]: payload.id,
+    }
+    let result: DeliveryResult = { delivered: false, attempts: 0 }
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        if (attempt > 1) {
+            await new Promise((resolve) =>
+                setTimeout(resolve, initialBackoffMs * 2 ** (attempt - 2)),
+            )
+        }
+        try {
+            const res = await fetch(webhook.url, {
+                method: 'POST',
+                headers,
+                body,
+                signal: AbortSignal.timeout(timeoutMs),
+            })
+            result = { delivered: res.ok, attempts: attempt, status: res.status }
+            if (res.ok || !isRetryable(res.status)) {
+                return result
+            }
+        } catch (err) {
+            result = { delivered: false, attempts: attempt, error: String(err) }
+        }
+    }
+    return result
+}
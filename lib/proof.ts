@@ -0,0 +1,178 @@
+import { keccak_256 } from '@noble/hashes/sha3'
+import { verifyBeaconRound } from './bls'
+
+// NB: Like lib/bls, this module is shared with the frontend, so it must not
+// depend on ethers or anything else that is only available to the hardhat project.
+
+/// Version of the proof bundle format, bumped on breaking changes
+export const PROOF_BUNDLE_VERSION = 1
+
+/// Everything needed to re-check a fulfilled request offline. Integers are
+/// decimal strings and byte strings are 0x-prefixed hex, so that the bundle is
+/// plain JSON that can be published as is.
+export interface ProofBundle {
+    version: typeof PROOF_BUNDLE_VERSION
+    chainId: string
+    /// Anyrand coordinator that fulfilled the request
+    anyrand: string
+    requestId: string
+    requester: string
+    /// Raw beacon public key, as returned by `DrandBeacon.publicKey()`
+    beaconPublicKey: string
+    round: string
+    signature: [string, string]
+    /// Randomness delivered to the requester, as emitted in `RandomnessFulfilled`
+    randomness: string
+}
+
+export interface ProofBundleParams {
+    chainId: bigint
+    anyrand: string
+    requestId: bigint
+    requester: string
+    beaconPublicKey: string
+    round: bigint
+    signature: readonly [bigint, bigint]
+    randomness: bigint
+}
+
+export interface ProofVerification {
+    /// The signature is the beacon's signature of the round
+    isSignatureValid: boolean
+    /// The randomness is what Anyrand derives from the signature for this request
+    isRandomnessValid: boolean
+    isValid: boolean
+    expectedRandomness: bigint
+    /// Should match the `pubKeyHash` of a beacon registered with the coordinator
+    beaconPubKeyHash: string
+}
+
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/
+const PUBLIC_KEY_RE = /^0x[0-9a-fA-F]{256}$/
+const UINT_RE = /^\d+$/
+
+function toWord(value: bigint) {
+    if (value < 0n || value >= 2n ** 256n) {
+        throw new Error(`Not a uint256: ${value}`)
+    }
+    return value.toString(16).padStart(64, '0')
+}
+
+function toBytes(hex: string) {
+    const digits = hex.replace(/^0x/, '')
+    return Uint8Array.from({ length: digits.length / 2 }, (_, i) =>
+        parseInt(digits.slice(i * 2, i * 2 + 2), 16),
+    )
+}
+
+function toHex(bytes: Uint8Array) {
+    return '0x' + Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/// Derive a request's randomness from the signature it was fulfilled with,
+/// exactly like `Anyrand.fulfillRandomness`:
+/// keccak256(abi.encode(sig0, sig1, chainid, anyrand, requestId, requester))
+export function deriveRandomness({
+    signature,
+    chainId,
+    anyrand,
+    requestId,
+    requester,
+}: Pick<ProofBundleParams, 'signature' | 'chainId' | 'anyrand' | 'requestId' | 'requester'>) {
+    const encoded = [
+        signature[0],
+        signature[1],
+        chainId,
+        BigInt(anyrand),
+        requestId,
+        BigInt(requester),
+    ]
+        .map(toWord)
+        .join('')
+    return BigInt(toHex(keccak_256(toBytes(encoded))))
+}
+
+export function createProofBundle(params: ProofBundleParams): ProofBundle {
+    return parseProofBundle({
+        version: PROOF_BUNDLE_VERSION,
+        chainId: params.chainId.toString(),
+        anyrand: params.anyrand,
+        requestId: params.requestId.toString(),
+        requester: params.requester,
+        beaconPublicKey: params.beaconPublicKey,
+        round: params.round.toString(),
+        signature: [params.signature[0].toString(), params.signature[1].toString()],
+        randomness: params.randomness.toString(),
+    })
+}
+
+/// Validate the shape of a proof bundle, e.g. one that was read from a file.
+/// Throws if any field is missing or malformed; says nothing about whether the
+/// proof itself holds (see `verifyProofBundle`).
+export function parseProofBundle(json: unknown): ProofBundle {
+    const bundle = (typeof json === 'string' ? JSON.parse(json) : json) as Record<string, unknown>
+    if (typeof bundle !== 'object' || bundle === null) {
+        throw new Error('Invalid proof bundle: expected a JSON object')
+    }
+    if (bundle.version !== PROOF_BUNDLE_VERSION) {
+        throw new Error(`Unsupported proof bundle version: ${bundle.version}`)
+    }
+    const check = (field: string, value: unknown, re: RegExp) => {
+        if (typeof value !== 'string' || !re.test(value)) {
+            throw new Error(`Invalid proof bundle: malformed ${field}`)
+        }
+        return value
+    }
+    const signature = bundle.signature
+    if (!Array.isArray(signature) || signature.length !== 2) {
+        throw new Error('Invalid proof bundle: malformed signature')
+    }
+    return {
+        version: PROOF_BUNDLE_VERSION,
+        chainId: check('chainId', bundle.chainId, UINT_RE),
+        anyrand: check('anyrand', bundle.anyrand, ADDRESS_RE),
+        requestId: check('requestId', bundle.requestId, UINT_RE),
+        requester: check('requester', bundle.requester, ADDRESS_RE),
+        beaconPublicKey: check('beaconPublicKey', bundle.beaconPublicKey, PUBLIC_KEY_RE),
+        round: check('round', bundle.round, UINT_RE),
+        signature: [
+            check('signature', signature[0], UINT_RE),
+            check('signature', signature[1], UINT_RE),
+        ],
+        randomness: check('randomness', bundle.randomness, UINT_RE),
+    }
+}
+
+/// Re-check a proof bundle offline: that the signature is the beacon's
+/// signature of the round, and that the randomness was derived from it for this
+/// request. Note that this can't tell whether the beacon is the one that the
+/// coordinator trusts; compare `beaconPubKeyHash` against it for that.
+export function verifyProofBundle(bundle: ProofBundle): ProofVerification {
+    const signature = [BigInt(bundle.signature[0]), BigInt(bundle.signature[1])] as const
+    let isSignatureValid: boolean
+    try {
+        isSignatureValid = verifyBeaconRound(
+            bundle.beaconPublicKey,
+            BigInt(bundle.round),
+            signature,
+        )
+    } catch {
+        // Public key isn't a point on the curve
+        isSignatureValid = false
+    }
+    const expectedRandomness = deriveRandomness({
+        signature,
+        chainId: BigInt(bundle.chainId),
+        anyrand: bundle.anyrand,
+        requestId: BigInt(bundle.requestId),
+        requester: bundle.requester,
+    })
+    const isRandomnessValid = expectedRandomness === BigInt(bundle.randomness)
+    return {
+        isSignatureValid,
+        isRandomnessValid,
+        isValid: isSignatureValid && isRandomnessValid,
+        expectedRandomness,
+        beaconPubKeyHash: toHex(keccak_256(toBytes(bundle.beaconPublicKey))),
+    }
+}
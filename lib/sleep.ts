@@ -0,0 +1,12 @@
+import { setTimeout } from 'node:timers/promises'
+
+/// Wait for `ms`, or until `signal` is aborted, whichever comes first. Unlike a
+/// hand-rolled timer, this doesn't leave an `abort` listener behind on the
+/// signal when the timer fires, so long-running loops can share one signal.
+export async function sleep(ms: number, signal?: AbortSignal) {
+    try {
+        await setTimeout(ms, undefined, { signal })
+    } catch (err) {
+        if (!signal?.aborted) throw err
+    }
+}
@@ -1,6 +1,6 @@
 import { ethers, ignition, run } from 'hardhat'
 import { parseUnits } from 'ethers'
-import { getDrandBeaconInfo } from '../lib/drand'
+import { getDrandBeaconInfo, getDrandUrl } from '../lib/drand'
 import { bn254 } from '@kevincharm/noble-bn254-drand'
 import { Anyrand__factory } from '../typechain-types'
 import Anyrand from '../ignition/modules/Anyrand'
@@ -44,7 +44,8 @@ async function main() {
     // Wipe any existing deployment
     await wipeDeployment(deploymentId)
 
-    // Beacon
+    // Beacon (set DRAND_URL to deploy against a local drand simulator)
+    console.log(`Fetching evmnet beacon info from ${getDrandUrl()}`)
     const evmnet = await getDrandBeaconInfo('evmnet')
     const publicKey = bn254.G2.ProjectivePoint.fromHex(evmnet.public_key).toAffine()
     const { drandBeacon } = await ignition.deploy(DrandBeacon, {
@@ -0,0 +1,52 @@
+import * as dotenv from 'dotenv'
+import { DrandSimulator } from '../lib/drandSimulator'
+
+// Local drand beacon simulator for offline development. Point the deploy
+// scripts, quickstart, keeper and frontend at it by setting
+// DRAND_URL=http://127.0.0.1:<port> (the frontend also accepts NEXT_PUBLIC_DRAND_URL).
+//
+// Configured with the following env vars:
+//  DRAND_SIMULATOR_PORT        Default 8787
+//  DRAND_SIMULATOR_SEED        Seed for the beacon secret key (default "anyrand")
+//  DRAND_SIMULATOR_GENESIS     Genesis timestamp
+//  DRAND_SIMULATOR_PERIOD      Seconds between rounds (default 3)
+//  DRAND_BEACON_ID             Beacon id to serve (default evmnet)
+//
+// NB: Beacons deployed against the simulator must be redeployed if the seed,
+// genesis or period change.
+
+dotenv.config()
+
+async function main() {
+    const simulator = new DrandSimulator({
+        seed: process.env.DRAND_SIMULATOR_SEED || 'anyrand',
+        genesisTime: Number(process.env.DRAND_SIMULATOR_GENESIS) || undefined,
+        period: Number(process.env.DRAND_SIMULATOR_PERIOD) || undefined,
+        beaconId: process.env.DRAND_BEACON_ID,
+    })
+    const { address, port } = await simulator.listen(
+        Number(process.env.DRAND_SIMULATOR_PORT || 8787),
+    )
+    const { info } = simulator
+    console.log(`drand simulator listening on http://${address}:${port}`)
+    console.log(`- Beacon ID: ${info.beacon_id}`)
+    console.log(`- Chain hash: ${info.chain_hash}`)
+    console.log(`- Public key: ${info.public_key}`)
+    console.log(`- Genesis: ${info.genesis_time}, period: ${info.period}s`)
+    console.log(`- Latest round: ${simulator.latestRound()}`)
+
+    await new Promise<void>((resolve) => {
+        process.once('SIGINT', resolve)
+        process.once('SIGTERM', resolve)
+    })
+    await simulator.close()
+}
+
+main()
+    .then(() => {
+        console.log('Done')
+    })
+    .catch((err) => {
+        console.error(err)
+        process.exit(1)
+    })
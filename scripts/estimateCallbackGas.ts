@@ -0,0 +1,53 @@
+import { ethers } from 'hardhat'
+import { AnyrandEthersClient } from '../sdk/src/ethers'
+import { ANYRAND_CONSUMER_RANDOMNESS_SLOT } from '../sdk/src'
+import { requireDeployment } from '../lib/deployments'
+
+// Recommends a callback gas limit for a consumer contract, by simulating Anyrand
+// calling its `receiveRandomness`. Configured with the following env vars:
+//  CONSUMER_ADDRESS            Consumer to estimate for (default: the AnyrandConsumer in the
+//                              deployment registry)
+//  INFLIGHT_MAPPING_SLOT       Storage slot of a `mapping(uint256 => uint256)` that the consumer
+//                              sets to 1 for in-flight requests (default: the slot used by
+//                              AnyrandConsumer, if estimating for it)
+//  CALLBACK_GAS_MARGIN_BPS     Safety margin on top of the simulated gas (default 2500)
+
+async function main() {
+    const { chainId } = await ethers.provider.getNetwork()
+    const deployment = requireDeployment(chainId)
+    const consumer = process.env.CONSUMER_ADDRESS || deployment.consumer
+    if (!consumer) {
+        throw new Error(`CONSUMER_ADDRESS not set and no AnyrandConsumer deployed on ${chainId}`)
+    }
+    const isAnyrandConsumer = consumer.toLowerCase() === deployment.consumer?.toLowerCase()
+    const inflightMappingSlot = process.env.INFLIGHT_MAPPING_SLOT
+        ? BigInt(process.env.INFLIGHT_MAPPING_SLOT)
+        : isAnyrandConsumer
+          ? ANYRAND_CONSUMER_RANDOMNESS_SLOT
+          : undefined
+
+    const anyrand = new AnyrandEthersClient(deployment.anyrand, ethers.provider)
+    const { gasUsed, recommended, capped } = await anyrand.estimateCallbackGas({
+        consumer: consumer as `0x${string}`,
+        inflightMappingSlot,
+        marginBps: process.env.CALLBACK_GAS_MARGIN_BPS
+            ? BigInt(process.env.CALLBACK_GAS_MARGIN_BPS)
+            : undefined,
+    })
+    console.log(`Simulated callback to ${consumer} used ${gasUsed} gas`)
+    console.log(`Recommended callbackGasLimit: ${recommended}`)
+    if (capped) {
+        console.warn(
+            'Warning: capped at the coordinator maxCallbackGasLimit, so there is less headroom than requested',
+        )
+    }
+}
+
+main()
+    .then(() => {
+        console.log('Done')
+    })
+    .catch((err) => {
+        console.error(err)
+        process.exit(1)
+    })
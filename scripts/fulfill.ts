@@ -1,6 +1,7 @@
 import { ethers } from 'hardhat'
-import { Anyrand__factory } from '../typechain-types'
+import { AnyrandEthersClient, getAnyrandError } from '../sdk/src/ethers'
 import { decodeG1 } from '../lib/drand'
+import { verifyBeaconRound } from '../lib/bls'
 
 const ANYRAND_ADDRESS = '0x4e330f5b246cf5c8a063929d034f237f8d178e87'
 const REQUEST = {
@@ -19,17 +20,27 @@ const REQUEST = {
 
 async function main() {
     const [deployer] = await ethers.getSigners()
-    const anyrand = await Anyrand__factory.connect(ANYRAND_ADDRESS, deployer).waitForDeployment()
+    const anyrand = new AnyrandEthersClient(ANYRAND_ADDRESS, deployer)
 
     const { requestId, beaconPubKeyHash, requester, round, callbackGasLimit, beacon } = REQUEST
+    const signature = decodeG1(beacon.signature)
+
+    // Verify locally first; an invalid signature would just revert on-chain
+    const { publicKey } = await anyrand.getBeacon(beaconPubKeyHash)
+    if (!verifyBeaconRound(publicKey, BigInt(round), signature)) {
+        throw new Error(`Invalid beacon signature for round ${round}`)
+    }
+
     const tx = await anyrand
         .fulfillRandomness(
-            requestId,
-            requester,
-            beaconPubKeyHash,
-            round,
-            callbackGasLimit,
-            decodeG1(beacon.signature),
+            {
+                requestId,
+                requester: requester as `0x${string}`,
+                pubKeyHash: beaconPubKeyHash as `0x${string}`,
+                round: BigInt(round),
+                callbackGasLimit: BigInt(callbackGasLimit),
+            },
+            signature,
         )
         .then((tx) => tx.wait(1))
     console.log(`Confirmed tx: ${tx?.hash}`)
@@ -40,6 +51,7 @@ main()
         console.log('Done')
     })
     .catch((err) => {
-        console.error(err)
+        const decoded = getAnyrandError(err)
+        console.error(decoded ? `${decoded.name}: ${decoded.userMessage}` : err)
         process.exit(1)
     })
@@ -0,0 +1,137 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { format, resolveConfig } from 'prettier'
+
+// Regenerates the parts of the SDK that are derived from build & deployment
+// artifacts, so that they never drift from the contracts:
+//  sdk/src/abi.ts       from the ABIs exported by `yarn build` (see `abiExporter`
+//                       in hardhat.config.ts)
+//  sdk/src/registry.ts  from the Ignition deployments listed in DEPLOYMENTS
+// Run with `yarn sdk:generate` after changing a contract interface or deploying.
+
+const EXPORTED_ABI_DIR = path.resolve(__dirname, '../exported/abi')
+const IGNITION_DEPLOYMENTS_DIR = path.resolve(__dirname, '../ignition/deployments')
+const ABI_OUT_PATH = path.resolve(__dirname, '../sdk/src/abi.ts')
+const REGISTRY_OUT_PATH = path.resolve(__dirname, '../sdk/src/registry.ts')
+
+/// Exported ABI file -> name of the generated const
+const ABIS = {
+    Anyrand: 'anyrandAbi',
+    AnyrandConsumer: 'anyrandConsumerAbi',
+    DrandBeacon: 'drandBeaconAbi',
+}
+
+/// The current Ignition deployment on each chain. Adding a chain (or moving a
+/// chain to a new deployment) only requires changing this list. Local nodes
+/// aren't listed, as their deployments are configured through env vars.
+const DEPLOYMENTS = [
+    { name: 'Scroll', envName: 'SCROLL', deploymentId: 'chain-534352-v1_0_0' },
+    { name: 'Base', envName: 'BASE', deploymentId: 'chain-8453-v1_0_0' },
+    {
+        name: 'Scroll Sepolia',
+        envName: 'SCROLL_SEPOLIA',
+        deploymentId: 'chain-534351-v1_0_0-test_2',
+    },
+]
+
+async function formatSource(source: string, filepath: string) {
+    return format(source, { ...(await resolveConfig(filepath)), filepath })
+}
+
+export async function generateSdkAbi() {
+    let source = '// Generated by scripts/generateSdk.ts from exported/abi. Do not edit manually.\n'
+    for (const [contractName, constName] of Object.entries(ABIS)) {
+        const abi = JSON.parse(
+            await fs.readFile(path.join(EXPORTED_ABI_DIR, `${contractName}.json`), 'utf-8'),
+        )
+        source += `\nexport const ${constName} = ${JSON.stringify(abi)} as const\n`
+    }
+    return formatSource(source, ABI_OUT_PATH)
+}
+
+async function readIgnitionDeployment(deploymentId: string) {
+    const match = deploymentId.match(/^chain-(\d+)-v(\d+)_(\d+)_(\d+)(.*)$/)
+    if (!match) {
+        throw new Error(`Unexpected deployment id: ${deploymentId}`)
+    }
+    const [, chainId, major, minor, patch, suffix] = match
+    const deploymentDir = path.join(IGNITION_DEPLOYMENTS_DIR, deploymentId)
+    const addresses: Record<string, string> = JSON.parse(
+        await fs.readFile(path.join(deploymentDir, 'deployed_addresses.json'), 'utf-8'),
+    )
+    const findAddress = (pattern: RegExp) =>
+        Object.entries(addresses).find(([futureId]) => pattern.test(futureId))?.[1]
+
+    // The proxy's deployment receipt is recorded in the journal
+    const journal = await fs.readFile(path.join(deploymentDir, 'journal.jsonl'), 'utf-8')
+    const deployBlock = journal
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => JSON.parse(line))
+        .find(
+            (entry) =>
+                entry.type === 'TRANSACTION_CONFIRM' && entry.futureId === 'Anyrand#ERC1967Proxy',
+        )?.receipt?.blockNumber
+
+    const deployment = {
+        chainId: Number(chainId),
+        version: `${major}.${minor}.${patch}${suffix}`,
+        anyrand: findAddress(/^Anyrand#ERC1967Proxy$/),
+        beacon: findAddress(/^DrandBeacon#/),
+        gasStation: findAddress(/^GasStation\w+#/),
+        consumer: findAddress(/^AnyrandConsumer#/),
+        deployBlock,
+    }
+    for (const key of ['anyrand', 'beacon', 'gasStation', 'deployBlock'] as const) {
+        if (typeof deployment[key] === 'undefined') {
+            throw new Error(`Deployment ${deploymentId} is missing ${key}`)
+        }
+    }
+    return deployment
+}
+
+export async function generateSdkRegistry() {
+    const entries: string[] = []
+    for (const { name, envName, deploymentId } of DEPLOYMENTS) {
+        const { chainId, version, anyrand, beacon, gasStation, consumer, deployBlock } =
+            await readIgnitionDeployment(deploymentId)
+        entries.push(`{
+            chainId: ${chainId},
+            name: '${name}',
+            envName: '${envName}',
+            version: '${version}',
+            anyrand: '${anyrand}',
+            beacon: '${beacon}',
+            gasStation: '${gasStation}',
+            ${consumer ? `consumer: '${consumer}',` : ''}
+            deployBlock: ${deployBlock}n,
+        }`)
+    }
+    const source = `// Generated by scripts/generateSdk.ts from ignition/deployments. Do not edit manually.
+import type { AnyrandDeployment } from './deployments'
+
+export const ANYRAND_DEPLOYMENTS: ReadonlyArray<AnyrandDeployment> = [${entries.join(',')}]
+`
+    return formatSource(source, REGISTRY_OUT_PATH)
+}
+
+async function main() {
+    for (const [outPath, generate] of [
+        [ABI_OUT_PATH, generateSdkAbi],
+        [REGISTRY_OUT_PATH, generateSdkRegistry],
+    ] as const) {
+        await fs.writeFile(outPath, await generate())
+        console.log(`Wrote ${path.relative(process.cwd(), outPath)}`)
+    }
+}
+
+if (require.main === module) {
+    main()
+        .then(() => {
+            console.log('Done')
+        })
+        .catch((err) => {
+            console.error(err)
+            process.exit(1)
+        })
+}
@@ -0,0 +1,81 @@
+import { ethers } from 'hardhat'
+import { Anyrand__factory } from '../typechain-types'
+import { Keeper } from '../lib/keeper/keeper'
+import { FileCheckpointStore } from '../lib/keeper/checkpoint'
+import { getDeployment } from '../lib/deployments'
+import path from 'node:path'
+
+// Long-running keeper that fulfils pending Anyrand requests once their drand
+// round is available. Configured with the following env vars:
+//  ANYRAND_ADDRESS             Anyrand coordinator (proxy) address (default: from the
+//                              deployment registry, see lib/deployments.ts)
+//  KEEPER_START_BLOCK          Block to start scanning from if no checkpoint exists
+//                              (default: the block the coordinator was deployed in)
+//  KEEPER_CHECKPOINT_PATH      Defaults to .keeper/checkpoint-<chainId>.json
+//  KEEPER_CONFIRMATIONS        Blocks to wait before picking up a request (default 0)
+//  KEEPER_POLL_INTERVAL_MS     Default 5000
+//  DRAND_BEACON_ID             drand beacon to fetch signatures from (default evmnet)
+// Profitability policy (see lib/keeper/profitability.ts):
+//  KEEPER_MIN_PROFIT_WEI       Minimum profit to fulfil outright (default 0)
+//  KEEPER_MAX_LOSS_WEI         Absolute loss tolerated per request
+//  KEEPER_MAX_LOSS_BPS         Loss tolerated per request, relative to the fee paid
+//  KEEPER_MAX_FEE_PER_GAS      Never fulfil at a loss above this fee per gas
+//                              (default: the coordinator's maxFeePerGas)
+//  KEEPER_MAX_DEFERRAL         Seconds after a round is published after which a request is
+//                              fulfilled regardless of cost (default 3600)
+
+function getOptionalBigInt(envVar: string) {
+    const value = process.env[envVar]
+    return value ? BigInt(value) : undefined
+}
+
+async function main() {
+    const [keeper] = await ethers.getSigners()
+    const chainId = await ethers.provider.getNetwork().then((network) => network.chainId)
+    const deployment = getDeployment(chainId)
+    const anyrandAddress = process.env.ANYRAND_ADDRESS || deployment?.anyrand
+    if (!anyrandAddress) {
+        throw new Error(`ANYRAND_ADDRESS not set and no deployment known on chain ${chainId}`)
+    }
+    const anyrand = await Anyrand__factory.connect(anyrandAddress, keeper).waitForDeployment()
+
+    const checkpointPath =
+        process.env.KEEPER_CHECKPOINT_PATH ||
+        path.resolve(__dirname, `../.keeper/checkpoint-${chainId}.json`)
+    console.log(`Keeper ${keeper.address} watching Anyrand at ${anyrandAddress}`)
+    console.log(`Checkpoint: ${checkpointPath}`)
+
+    const abortController = new AbortController()
+    process.on('SIGINT', () => abortController.abort())
+    process.on('SIGTERM', () => abortController.abort())
+
+    await new Keeper({
+        anyrand,
+        store: new FileCheckpointStore(checkpointPath),
+        beaconId: process.env.DRAND_BEACON_ID,
+        policy: {
+            minProfit: getOptionalBigInt('KEEPER_MIN_PROFIT_WEI'),
+            maxLoss: getOptionalBigInt('KEEPER_MAX_LOSS_WEI'),
+            maxLossBps: getOptionalBigInt('KEEPER_MAX_LOSS_BPS'),
+            maxFeePerGas: getOptionalBigInt('KEEPER_MAX_FEE_PER_GAS'),
+            maxDeferral: getOptionalBigInt('KEEPER_MAX_DEFERRAL') ?? 3600n,
+        },
+        startBlock: Number(
+            process.env.KEEPER_START_BLOCK ||
+                (deployment?.anyrand.toLowerCase() === anyrandAddress.toLowerCase()
+                    ? deployment.deployBlock
+                    : 0),
+        ),
+        confirmations: Number(process.env.KEEPER_CONFIRMATIONS || 0),
+        pollIntervalMs: Number(process.env.KEEPER_POLL_INTERVAL_MS || 5000),
+    }).run(abortController.signal)
+}
+
+main()
+    .then(() => {
+        console.log('Done')
+    })
+    .catch((err) => {
+        console.error(err)
+        process.exit(1)
+    })
@@ -0,0 +1,81 @@
+import { ethers } from 'hardhat'
+import { Anyrand__factory } from '../typechain-types'
+import { Notifier } from '../lib/notifier/notifier'
+import { FileDeadLetterLog, FileNotifierCheckpointStore } from '../lib/notifier/store'
+import { loadWebhooks } from '../lib/notifier/webhooks'
+import { getDeployment } from '../lib/deployments'
+import path from 'node:path'
+
+// Long-running notifier that POSTs Anyrand request lifecycle events to webhooks.
+// Configured with the following env vars:
+//  NOTIFIER_WEBHOOKS_PATH      JSON file with an array of webhooks, each
+//                              `{ "url", "secret", "requesters"?: [address] }` (required)
+//  ANYRAND_ADDRESS             Anyrand coordinator (proxy) address (default: from the
+//                              deployment registry, see lib/deployments.ts)
+//  NOTIFIER_START_BLOCK        Block to start scanning from if no checkpoint exists
+//                              (default: the block the coordinator was deployed in)
+//  NOTIFIER_CHECKPOINT_PATH    Defaults to .notifier/checkpoint-<chainId>.json
+//  NOTIFIER_DEAD_LETTER_PATH   Defaults to .notifier/dead-letters-<chainId>.jsonl
+//  NOTIFIER_CONFIRMATIONS      Blocks to wait before notifying about an event (default 0)
+//  NOTIFIER_POLL_INTERVAL_MS   Default 5000
+//  NOTIFIER_MAX_ATTEMPTS       Delivery attempts per webhook before dead-lettering (default 5)
+
+async function main() {
+    const webhooksPath = process.env.NOTIFIER_WEBHOOKS_PATH
+    if (!webhooksPath) {
+        throw new Error('NOTIFIER_WEBHOOKS_PATH not set')
+    }
+    const webhooks = await loadWebhooks(webhooksPath)
+
+    const chainId = await ethers.provider.getNetwork().then((network) => network.chainId)
+    const deployment = getDeployment(chainId)
+    const anyrandAddress = process.env.ANYRAND_ADDRESS || deployment?.anyrand
+    if (!anyrandAddress) {
+        throw new Error(`ANYRAND_ADDRESS not set and no deployment known on chain ${chainId}`)
+    }
+    const anyrand = await Anyrand__factory.connect(
+        anyrandAddress,
+        ethers.provider,
+    ).waitForDeployment()
+
+    const checkpointPath =
+        process.env.NOTIFIER_CHECKPOINT_PATH ||
+        path.resolve(__dirname, `../.notifier/checkpoint-${chainId}.json`)
+    const deadLetterPath =
+        process.env.NOTIFIER_DEAD_LETTER_PATH ||
+        path.resolve(__dirname, `../.notifier/dead-letters-${chainId}.jsonl`)
+    console.log(`Notifying ${webhooks.length} webhook(s) about Anyrand at ${anyrandAddress}`)
+    console.log(`Checkpoint: ${checkpointPath}`)
+    console.log(`Dead letters: ${deadLetterPath}`)
+
+    const abortController = new AbortController()
+    process.on('SIGINT', () => abortController.abort())
+    process.on('SIGTERM', () => abortController.abort())
+
+    await new Notifier({
+        anyrand,
+        webhooks,
+        store: new FileNotifierCheckpointStore(checkpointPath),
+        deadLetters: new FileDeadLetterLog(deadLetterPath),
+        retry: {
+            maxAttempts: Number(process.env.NOTIFIER_MAX_ATTEMPTS || 5),
+        },
+        startBlock: Number(
+            process.env.NOTIFIER_START_BLOCK ||
+                (deployment?.anyrand.toLowerCase() === anyrandAddress.toLowerCase()
+                    ? deployment.deployBlock
+                    : 0),
+        ),
+        confirmations: Number(process.env.NOTIFIER_CONFIRMATIONS || 0),
+        pollIntervalMs: Number(process.env.NOTIFIER_POLL_INTERVAL_MS || 5000),
+    }).run(abortController.signal)
+}
+
+main()
+    .then(() => {
+        console.log('Done')
+    })
+    .catch((err) => {
+        console.error(err)
+        process.exit(1)
+    })
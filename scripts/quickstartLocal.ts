@@ -4,8 +4,11 @@ import {
     AnyrandConsumer__factory,
     DrandBeacon__factory
 } from '../typechain-types'
-import { formatEther, formatUnits, getBytes, keccak256, parseEther } from 'ethers'
-import { bn254 } from '@kevincharm/noble-bn254-drand'
+import { formatEther, formatUnits, parseEther } from 'ethers'
+import { DrandRequestError, decodeG1, getDrandBeaconRound, getDrandUrl } from '../lib/drand'
+import { sleep } from '../lib/sleep'
+import { getRoundTimestamp } from '../sdk/src'
+import { getDeployment } from '../lib/deployments'
 import * as dotenv from 'dotenv'
 
 /**
@@ -20,6 +23,8 @@ import * as dotenv from 'dotenv'
  * Prerequisites:
  * - Hardhat node running: yarn hardhat node
  * - Anyrand contracts deployed: yarn deploy:local
+ * - Either api.drand.sh is reachable, or a local drand simulator is running
+ *   (yarn drand:simulator) and DRAND_URL points at it for both deploy & quickstart
  *
  * Usage:
  * yarn quickstart:local
@@ -56,9 +61,11 @@ async function main() {
     }
     console.log('')
 
-    // Get contract addresses from .env file (required)
-    const ANYRAND_ADDRESS = process.env.ANYRAND_LOCAL_ADDRESS
-    const BEACON_ADDRESS = process.env.BEACON_LOCAL_ADDRESS
+    // Get contract addresses of the local deployment (configured in the .env file)
+    const { chainId } = await ethers.provider.getNetwork()
+    const deployment = getDeployment(chainId)
+    const ANYRAND_ADDRESS = deployment?.anyrand
+    const BEACON_ADDRESS = deployment?.beacon
 
     if (!ANYRAND_ADDRESS || !BEACON_ADDRESS) {
         console.error('❌ Missing required contract addresses in .env file')
@@ -69,11 +76,12 @@ async function main() {
         console.error('This will create a .env file with the required addresses:')
         console.error('  ANYRAND_LOCAL_ADDRESS=0x...')
         console.error('  BEACON_LOCAL_ADDRESS=0x...')
+        console.error('  GAS_STATION_LOCAL_ADDRESS=0x...')
         console.error('')
         process.exit(1)
     }
 
-    console.log('Using contract addresses from .env file:')
+    console.log('Using local deployment from .env file:')
     console.log('- Anyrand:', ANYRAND_ADDRESS)
     console.log('- Beacon:', BEACON_ADDRESS)
     console.log('✅ Addresses loaded from deployment')
@@ -182,17 +190,22 @@ async function main() {
     console.log('')
 
     // ========================================================================
-    // STEP 4: GENERATE BEACON SIGNATURE (SKIP WAIT FOR LOCAL TESTING)
+    // STEP 4: FETCH BEACON SIGNATURE
     // ========================================================================
-    console.log('STEP 4: Generate Beacon Signature')
+    console.log('STEP 4: Fetch Beacon Signature')
     console.log('-------------------------------------\n')
 
-    console.log('Generating test signature for local environment...')
-    console.log('(Production would fetch from drand API after waiting for beacon round)')
-    console.log('Note: Skipping beacon round wait since fulfillment will fail with test signature')
-
-    const signature = await generateLocalBeaconSignature(round, beacon)
-    console.log('✅ Signature generated for round', round.toString())
+    const beaconId = process.env.DRAND_BEACON_ID || 'evmnet'
+    console.log(`Fetching round ${round} of the ${beaconId} beacon from ${getDrandUrl()}`)
+    console.log('(Set DRAND_URL to a local drand simulator to run offline: yarn drand:simulator)')
+
+    const signature = await waitForBeaconSignature(
+        beaconId,
+        round,
+        await beacon.genesisTimestamp(),
+        await beacon.period()
+    )
+    console.log('✅ Signature fetched for round', round.toString())
     console.log('')
 
     // ========================================================================
@@ -247,26 +260,16 @@ async function main() {
         console.log('')
 
     } catch (error: any) {
-        console.log('❌ Fulfillment failed (expected in local testing):', error.message)
+        console.log('❌ Fulfillment failed:', error.message)
 
-        if (error.message.includes('InvalidRequestHash')) {
-            console.log('')
-            console.log('This failure is expected because:')
-            console.log('1. We\'re using a test signature for local development')
-            console.log('2. The beacon expects a valid BLS signature from drand')
-            console.log('3. In production, real signatures would be fetched from drand API')
+        if (error.message.includes('InvalidSignature')) {
             console.log('')
-            console.log('✅ The request/fulfillment flow structure is working correctly!')
-            console.log('✅ Contract deployment and integration successful!')
+            console.log('The beacon signature was rejected. The beacon at', BEACON_ADDRESS)
+            console.log('was probably deployed with a different drand network than the one at')
+            console.log(getDrandUrl(), '- redeploy with `yarn deploy:local` using the same DRAND_URL.')
             console.log('')
-
-            // Set dummy values for final summary
-            randomness = 123456789n
-            callbackSuccess = false
-            actualGasUsed = 0n
-        } else {
-            throw error // Re-throw if it's a different error
         }
+        throw error
     }
 
     // ========================================================================
@@ -284,7 +287,7 @@ async function main() {
         if (callbackSuccess) {
             console.log('- Matches generated value:', storedRandomness === randomness ? '✅ Yes' : '❌ No')
         } else {
-            console.log('- Expected no stored value due to fulfillment failure')
+            console.log('- Expected no stored value due to callback failure')
         }
     } catch (error) {
         console.log('- Consumer randomness check: Could not retrieve (normal for failed fulfillment)')
@@ -307,7 +310,7 @@ async function main() {
     if (callbackSuccess) {
         console.log('✅ Random value generated:', randomness.toString())
     } else {
-        console.log('ℹ️  Fulfillment failed (expected in local testing with test signatures)')
+        console.log('ℹ️  Randomness was delivered, but the consumer callback failed')
     }
 
     console.log('✅ Total cost:', formatEther(paymentAmount), 'ETH')
@@ -326,10 +329,9 @@ async function main() {
         console.log('⚖️  Unbiasable - Cannot be manipulated by any party')
         console.log('')
     } else {
-        console.log('Note about local testing:')
-        console.log('🔧 In production, real drand signatures enable actual randomness generation')
-        console.log('🔧 Local testing demonstrates the complete request/fulfillment flow')
-        console.log('🔧 All contract integrations are working correctly')
+        console.log('Note about callback failures:')
+        console.log('🔧 Check that the callback gas limit is sufficient for the consumer')
+        console.log('🔧 The request is marked as Failed and cannot be fulfilled again')
         console.log('')
     }
 
@@ -342,35 +344,43 @@ async function main() {
 // ============================================================================
 
 /**
- * Generate a local beacon signature for testing purposes
- * WARNING: This is for LOCAL TESTING ONLY and is not cryptographically secure!
+ * How many periods past a round's scheduled time to keep waiting for it
+ */
+const ROUND_WAIT_PERIODS = 5n
+
+/**
+ * Poll the drand API until the round has been published, then decode its signature.
+ * Only retries while the relays report that the round isn't available yet; anything
+ * else (e.g. a wrong DRAND_URL, a stopped simulator or a malformed response) won't
+ * be fixed by waiting, so it's rethrown.
  */
-async function generateLocalBeaconSignature(
+async function waitForBeaconSignature(
+    beaconId: string,
     round: bigint,
-    beacon: any
+    genesisTimestamp: bigint,
+    period: bigint
 ): Promise<[bigint, bigint]> {
-    const DST = 'BLS_SIG_BN254G1_XMD:KECCAK-256_SVDW_RO_NUL_'
-
-    // Get or use default public key hash
-    let pubKeyHash: string
-    try {
-        pubKeyHash = await beacon.publicKeyHash()
-    } catch (error) {
-        pubKeyHash = '0xed6820c99270b1f84b30b0d2973ddd6a0f460fe9fc9dcd867dd909c1c1ac20f9'
+    const roundTimestamp = getRoundTimestamp(genesisTimestamp, period, round)
+    const giveUpAt = Number(roundTimestamp + ROUND_WAIT_PERIODS * period) * 1000
+    for (;;) {
+        try {
+            const beaconRound = await getDrandBeaconRound(beaconId, Number(round))
+            return decodeG1(beaconRound.signature)
+        } catch (error) {
+            if (!(error instanceof DrandRequestError && error.isRoundUnavailable)) {
+                throw error
+            }
+            if (Date.now() >= giveUpAt) {
+                throw new Error(
+                    `Round ${round} was due at ${new Date(Number(roundTimestamp) * 1000).toISOString()} ` +
+                        `but still isn't available from ${getDrandUrl()}; ` +
+                        'check that DRAND_URL serves the beacon that Anyrand was deployed with'
+                )
+            }
+            console.log(`Waiting for round ${round}...`)
+            await sleep(Number(period) * 1000)
+        }
     }
-
-    // Generate test private key from public key hash (LOCAL TESTING ONLY!)
-    const testSecretKey = getBytes(keccak256(pubKeyHash)).slice(0, 32)
-
-    // Create message to sign
-    const roundBytes = getBytes('0x' + round.toString(16).padStart(16, '0'))
-    const hashedRound = keccak256(roundBytes)
-
-    // Generate BLS signature
-    const M = bn254.G1.hashToCurve(getBytes(hashedRound), { DST })
-    const sig = bn254.signShortSignature(M, testSecretKey).toAffine()
-
-    return [sig.x, sig.y]
 }
 
 /**
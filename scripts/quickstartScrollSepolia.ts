@@ -8,6 +8,7 @@ import { formatEther, formatUnits, getBytes, keccak256, parseEther } from 'ether
 import { bn254 } from '@kevincharm/noble-bn254-drand'
 import * as dotenv from 'dotenv'
 import { getDrandBeaconRound, getDrandBeaconInfo } from '../lib/drand'
+import { getDeployment } from '../lib/deployments'
 
 /**
  * Complete Anyrand Quickstart for Scroll Sepolia Testnet
@@ -68,26 +69,26 @@ async function main() {
     }
     console.log('')
 
-    // Get contract addresses from environment variables (required)
-    const ANYRAND_ADDRESS = process.env.ANYRAND_SCROLL_SEPOLIA_ADDRESS
-    const BEACON_ADDRESS = process.env.BEACON_SCROLL_SEPOLIA_ADDRESS
-    const CONSUMER_ADDRESS = process.env.CONSUMER_SCROLL_SEPOLIA_ADDRESS
+    // Get contract addresses from the deployment registry, unless overridden in .env
+    const deployment = getDeployment(network.chainId)
+    const ANYRAND_ADDRESS = deployment?.anyrand
+    const BEACON_ADDRESS = deployment?.beacon
+    const CONSUMER_ADDRESS = deployment?.consumer
 
     if (!ANYRAND_ADDRESS || !BEACON_ADDRESS) {
-        console.error('❌ Missing required contract addresses in .env file')
+        console.error('❌ Missing required contract addresses')
         console.error('')
-        console.error('Please run the deployment first:')
-        console.error('  yarn deploy:scrollSepolia')
-        console.error('')
-        console.error('This should create a .env file with the required addresses:')
+        console.error('Overriding the registered deployment in .env requires all of:')
         console.error('  ANYRAND_SCROLL_SEPOLIA_ADDRESS=0x...')
         console.error('  BEACON_SCROLL_SEPOLIA_ADDRESS=0x...')
-        console.error('  CONSUMER_SCROLL_SEPOLIA_ADDRESS=0x...')
+        console.error('  GAS_STATION_SCROLL_SEPOLIA_ADDRESS=0x...')
+        console.error('')
+        console.error('These are written by: yarn deploy:scrollSepolia')
         console.error('')
         process.exit(1)
     }
 
-    console.log('Using contract addresses from .env file:')
+    console.log(`Using contract addresses of deployment ${deployment!.version}:`)
     console.log('- Anyrand:', ANYRAND_ADDRESS)
     console.log('- Beacon:', BEACON_ADDRESS)
     if (CONSUMER_ADDRESS) {
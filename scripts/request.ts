@@ -1,49 +1,41 @@
 import { ethers } from 'hardhat'
-import { Anyrand__factory, AnyrandConsumer__factory } from '../typechain-types'
-import assert from 'node:assert'
+import { AnyrandConsumer__factory } from '../typechain-types'
+import { AnyrandEthersClient, getAnyrandError } from '../sdk/src/ethers'
+import { getQuoteTxFees } from '../sdk/src'
 import { formatUnits } from 'ethers'
-
-const ANYRAND_CONSUMER_ADDRESS = '0x2ADe7e2158C07E00b4F0e1b577743a17B8F0f4C9'
+import { requireDeployment } from '../lib/deployments'
 
 async function main() {
     const [deployer] = await ethers.getSigners()
     let nonce = await deployer.getNonce()
 
+    const { chainId } = await ethers.provider.getNetwork()
+    const consumerAddress = requireDeployment(chainId).consumer
+    if (!consumerAddress) {
+        throw new Error(`No AnyrandConsumer deployed on chain ${chainId}`)
+    }
     const consumer = await AnyrandConsumer__factory.connect(
-        ANYRAND_CONSUMER_ADDRESS,
-        deployer,
-    ).waitForDeployment()
-    const anyrand = await Anyrand__factory.connect(
-        await consumer.anyrand(),
+        consumerAddress,
         deployer,
     ).waitForDeployment()
-    const callbackGasLimit = 50_000
+    const anyrand = new AnyrandEthersClient(await consumer.anyrand(), deployer)
+    const callbackGasLimit = 50_000n
 
-    const { maxFeePerGas: _maxFeePerGas, maxPriorityFeePerGas: _maxPriorityFeePerGas } =
-        await ethers.provider.getFeeData()
-    assert(_maxFeePerGas)
-    const maxFeePerGas = (_maxFeePerGas! * 15000n) / 10000n
-    const maxPriorityFeePerGas = (_maxPriorityFeePerGas! * 15000n) / 10000n
-    console.log(`Max fee per gas: ${formatUnits(maxFeePerGas, 'gwei')} gwei`)
-
-    const [requestPrice] = await anyrand.getRequestPrice(callbackGasLimit, {
-        gasPrice: maxFeePerGas,
-        blockTag: 'pending',
-    })
+    // Fast gas: 150% of the current gas price, sent so that the quoted price is exact
+    const quote = (await anyrand.getRequestQuote(callbackGasLimit)).scenarios.fast
+    console.log(`Gas price: ${formatUnits(quote.gasPrice, 'gwei')} gwei`)
+    console.log(`Request price: ${formatUnits(quote.value, 'ether')} ETH`)
 
     const deadline = Math.floor(Date.now() / 1000) + 120
 
     // Fire off 10 random requests
     for (let i = 0; i < 10; i++) {
-        // Fast gas: 150% of estimate
-
         // Anywhere from 1-4 minutes
         // const randomMinutes = 60 + Math.floor(Math.random() * 3 * 60)
         const tx = await consumer.getRandom(deadline - 5 * i, callbackGasLimit, {
-            value: requestPrice * 2n, // excess will be refunded
+            value: quote.value,
             nonce: nonce++,
-            maxFeePerGas,
-            maxPriorityFeePerGas,
+            ...getQuoteTxFees(quote),
         })
         const receipt = await tx.wait(1)
         console.log(`Broadcasted tx: ${tx.hash}, mined in block ${receipt?.blockNumber}`)
@@ -55,6 +47,7 @@ main()
         console.log('Done')
     })
     .catch((err) => {
-        console.error(err)
+        const decoded = getAnyrandError(err)
+        console.error(decoded ? `${decoded.name}: ${decoded.userMessage}` : err)
         process.exit(1)
     })
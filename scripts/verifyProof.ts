@@ -0,0 +1,43 @@
+import { readFileSync } from 'node:fs'
+import { parseProofBundle, verifyProofBundle } from '../lib/proof'
+
+// Re-checks a proof bundle exported from the frontend's request page, without
+// talking to any chain or drand relay:
+//  yarn verify-proof <path/to/proof.json>
+//
+// Exits with a non-zero code if the proof doesn't hold.
+
+async function main() {
+    const path = process.argv[2]
+    if (!path) {
+        throw new Error('Usage: yarn verify-proof <path/to/proof.json>')
+    }
+    const bundle = parseProofBundle(readFileSync(path, 'utf8'))
+    const { isSignatureValid, isRandomnessValid, isValid, expectedRandomness, beaconPubKeyHash } =
+        verifyProofBundle(bundle)
+
+    console.log(`Request #${bundle.requestId} on chain ${bundle.chainId}`)
+    console.log(`- Coordinator: ${bundle.anyrand}`)
+    console.log(`- Requester: ${bundle.requester}`)
+    console.log(`- Beacon pubKeyHash: ${beaconPubKeyHash}`)
+    console.log(`- Round: ${bundle.round}`)
+    console.log(`- Signature: ${isSignatureValid ? 'valid' : 'INVALID'}`)
+    console.log(
+        `- Randomness: ${isRandomnessValid ? 'matches' : `MISMATCH (expected ${expectedRandomness})`}`,
+    )
+    if (!isValid) {
+        throw new Error('Proof is invalid')
+    }
+    console.log(
+        `Proof is valid, provided that ${beaconPubKeyHash} is a beacon registered with the coordinator`,
+    )
+}
+
+main()
+    .then(() => {
+        console.log('Done')
+    })
+    .catch((err) => {
+        console.error(err)
+        process.exit(1)
+    })
@@ -0,0 +1,687 @@
+// Generated by scripts/generateSdk.ts from exported/abi. Do not edit manually.
+
+export const anyrandAbi = [
+    { inputs: [], stateMutability: 'nonpayable', type: 'constructor' },
+    {
+        inputs: [{ internalType: 'address', name: 'target', type: 'address' }],
+        name: 'AddressEmptyCode',
+        type: 'error',
+    },
+    { inputs: [], name: 'AlreadyInitialized', type: 'error' },
+    {
+        inputs: [{ internalType: 'address', name: 'implementation', type: 'address' }],
+        name: 'ERC1967InvalidImplementation',
+        type: 'error',
+    },
+    { inputs: [], name: 'ERC1967NonPayable', type: 'error' },
+    { inputs: [], name: 'FailedInnerCall', type: 'error' },
+    {
+        inputs: [
+            { internalType: 'uint256', name: 'got', type: 'uint256' },
+            { internalType: 'uint256', name: 'want', type: 'uint256' },
+        ],
+        name: 'IncorrectPayment',
+        type: 'error',
+    },
+    { inputs: [], name: 'InsufficientGas', type: 'error' },
+    {
+        inputs: [{ internalType: 'address', name: 'beacon', type: 'address' }],
+        name: 'InvalidBeacon',
+        type: 'error',
+    },
+    {
+        inputs: [{ internalType: 'uint256', name: 'deadline', type: 'uint256' }],
+        name: 'InvalidDeadline',
+        type: 'error',
+    },
+    { inputs: [], name: 'InvalidInitialization', type: 'error' },
+    {
+        inputs: [{ internalType: 'bytes32', name: 'requestHash', type: 'bytes32' }],
+        name: 'InvalidRequestHash',
+        type: 'error',
+    },
+    {
+        inputs: [{ internalType: 'enum IAnyrand.RequestState', name: 'state', type: 'uint8' }],
+        name: 'InvalidRequestState',
+        type: 'error',
+    },
+    { inputs: [], name: 'NewOwnerIsZeroAddress', type: 'error' },
+    { inputs: [], name: 'NoHandoverRequest', type: 'error' },
+    { inputs: [], name: 'NotInitializing', type: 'error' },
+    {
+        inputs: [{ internalType: 'uint256', name: 'callbackGasLimit', type: 'uint256' }],
+        name: 'OverGasLimit',
+        type: 'error',
+    },
+    { inputs: [], name: 'ReentrancyGuardReentrantCall', type: 'error' },
+    {
+        inputs: [
+            { internalType: 'address', name: 'to', type: 'address' },
+            { internalType: 'uint256', name: 'value', type: 'uint256' },
+        ],
+        name: 'TransferFailed',
+        type: 'error',
+    },
+    { inputs: [], name: 'UUPSUnauthorizedCallContext', type: 'error' },
+    {
+        inputs: [{ internalType: 'bytes32', name: 'slot', type: 'bytes32' }],
+        name: 'UUPSUnsupportedProxiableUUID',
+        type: 'error',
+    },
+    { inputs: [], name: 'Unauthorized', type: 'error' },
+    {
+        anonymous: false,
+        inputs: [{ indexed: true, internalType: 'address', name: 'newBeacon', type: 'address' }],
+        name: 'BeaconUpdated',
+        type: 'event',
+    },
+    {
+        anonymous: false,
+        inputs: [{ indexed: false, internalType: 'uint256', name: 'amount', type: 'uint256' }],
+        name: 'ETHWithdrawn',
+        type: 'event',
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: 'address', name: 'newGasStation', type: 'address' },
+        ],
+        name: 'GasStationUpdated',
+        type: 'event',
+    },
+    {
+        anonymous: false,
+        inputs: [{ indexed: false, internalType: 'uint64', name: 'version', type: 'uint64' }],
+        name: 'Initialized',
+        type: 'event',
+    },
+    {
+        anonymous: false,
+        inputs: [
+            {
+                indexed: false,
+                internalType: 'uint256',
+                name: 'newMaxCallbackGasLimit',
+                type: 'uint256',
+            },
+        ],
+        name: 'MaxCallbackGasLimitUpdated',
+        type: 'event',
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: false, internalType: 'uint256', name: 'maxDeadlineDelta', type: 'uint256' },
+        ],
+        name: 'MaxDeadlineDeltaUpdated',
+        type: 'event',
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: false, internalType: 'uint256', name: 'maxFeePerGas', type: 'uint256' },
+        ],
+        name: 'MaxFeePerGasUpdated',
+        type: 'event',
+    },
+    {
+        anonymous: false,
+        inputs: [{ indexed: true, internalType: 'address', name: 'pendingOwner', type: 'address' }],
+        name: 'OwnershipHandoverCanceled',
+        type: 'event',
+    },
+    {
+        anonymous: false,
+        inputs: [{ indexed: true, internalType: 'address', name: 'pendingOwner', type: 'address' }],
+        name: 'OwnershipHandoverRequested',
+        type: 'event',
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: 'address', name: 'oldOwner', type: 'address' },
+            { indexed: true, internalType: 'address', name: 'newOwner', type: 'address' },
+        ],
+        name: 'OwnershipTransferred',
+        type: 'event',
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: 'uint256', name: 'requestId', type: 'uint256' },
+            { indexed: false, internalType: 'bytes32', name: 'retdata', type: 'bytes32' },
+            { indexed: false, internalType: 'uint256', name: 'gasLimit', type: 'uint256' },
+            { indexed: false, internalType: 'uint256', name: 'actualGasUsed', type: 'uint256' },
+        ],
+        name: 'RandomnessCallbackFailed',
+        type: 'event',
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: 'uint256', name: 'requestId', type: 'uint256' },
+            { indexed: false, internalType: 'uint256', name: 'randomness', type: 'uint256' },
+            { indexed: false, internalType: 'bool', name: 'callbackSuccess', type: 'bool' },
+            { indexed: false, internalType: 'uint256', name: 'actualGasUsed', type: 'uint256' },
+        ],
+        name: 'RandomnessFulfilled',
+        type: 'event',
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: 'uint256', name: 'requestId', type: 'uint256' },
+            { indexed: true, internalType: 'address', name: 'requester', type: 'address' },
+            { indexed: true, internalType: 'bytes32', name: 'pubKeyHash', type: 'bytes32' },
+            { indexed: false, internalType: 'uint256', name: 'round', type: 'uint256' },
+            { indexed: false, internalType: 'uint256', name: 'callbackGasLimit', type: 'uint256' },
+            { indexed: false, internalType: 'uint256', name: 'feePaid', type: 'uint256' },
+            {
+                indexed: false,
+                internalType: 'uint256',
+                name: 'effectiveFeePerGas',
+                type: 'uint256',
+            },
+        ],
+        name: 'RandomnessRequested',
+        type: 'event',
+    },
+    {
+        anonymous: false,
+        inputs: [{ indexed: false, internalType: 'uint256', name: 'newPrice', type: 'uint256' }],
+        name: 'RequestPremiumMultiplierUpdated',
+        type: 'event',
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: 'address', name: 'implementation', type: 'address' },
+        ],
+        name: 'Upgraded',
+        type: 'event',
+    },
+    {
+        inputs: [],
+        name: 'UPGRADE_INTERFACE_VERSION',
+        outputs: [{ internalType: 'string', name: '', type: 'string' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [{ internalType: 'bytes32', name: 'pubkeyHash', type: 'bytes32' }],
+        name: 'beacon',
+        outputs: [{ internalType: 'address', name: '', type: 'address' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'cancelOwnershipHandover',
+        outputs: [],
+        stateMutability: 'payable',
+        type: 'function',
+    },
+    {
+        inputs: [{ internalType: 'address', name: 'pendingOwner', type: 'address' }],
+        name: 'completeOwnershipHandover',
+        outputs: [],
+        stateMutability: 'payable',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'currentBeaconPubKeyHash',
+        outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [
+            { internalType: 'uint256', name: 'requestId', type: 'uint256' },
+            { internalType: 'address', name: 'requester', type: 'address' },
+            { internalType: 'bytes32', name: 'pubKeyHash', type: 'bytes32' },
+            { internalType: 'uint256', name: 'round', type: 'uint256' },
+            { internalType: 'uint256', name: 'callbackGasLimit', type: 'uint256' },
+            { internalType: 'uint256[2]', name: 'signature', type: 'uint256[2]' },
+        ],
+        name: 'fulfillRandomness',
+        outputs: [],
+        stateMutability: 'nonpayable',
+        type: 'function',
+    },
+    {
+        inputs: [
+            {
+                components: [
+                    { internalType: 'bytes32', name: 'pubKeyHash', type: 'bytes32' },
+                    { internalType: 'uint256', name: 'round', type: 'uint256' },
+                    { internalType: 'uint256[2]', name: 'signature', type: 'uint256[2]' },
+                    {
+                        components: [
+                            { internalType: 'uint256', name: 'requestId', type: 'uint256' },
+                            { internalType: 'address', name: 'requester', type: 'address' },
+                            { internalType: 'uint256', name: 'callbackGasLimit', type: 'uint256' },
+                        ],
+                        internalType: 'struct IAnyrand.BatchedRequest[]',
+                        name: 'requests',
+                        type: 'tuple[]',
+                    },
+                ],
+                internalType: 'struct IAnyrand.RoundFulfilment[]',
+                name: 'fulfilments',
+                type: 'tuple[]',
+            },
+        ],
+        name: 'fulfillRandomnessBatch',
+        outputs: [],
+        stateMutability: 'nonpayable',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'gasStation',
+        outputs: [{ internalType: 'address', name: '', type: 'address' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [{ internalType: 'uint256', name: 'callbackGasLimit', type: 'uint256' }],
+        name: 'getRequestPrice',
+        outputs: [
+            { internalType: 'uint256', name: '', type: 'uint256' },
+            { internalType: 'uint256', name: '', type: 'uint256' },
+        ],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [{ internalType: 'uint256', name: 'requestId', type: 'uint256' }],
+        name: 'getRequestState',
+        outputs: [{ internalType: 'enum IAnyrand.RequestState', name: '', type: 'uint8' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [
+            { internalType: 'uint256', name: 'genesis', type: 'uint256' },
+            { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+            { internalType: 'uint256', name: 'period', type: 'uint256' },
+        ],
+        name: 'getRound',
+        outputs: [{ internalType: 'uint64', name: '', type: 'uint64' }],
+        stateMutability: 'pure',
+        type: 'function',
+    },
+    {
+        inputs: [
+            { internalType: 'address', name: 'beacon_', type: 'address' },
+            { internalType: 'uint256', name: 'requestPremiumMultiplierBps_', type: 'uint256' },
+            { internalType: 'uint256', name: 'maxCallbackGasLimit_', type: 'uint256' },
+            { internalType: 'uint256', name: 'maxDeadlineDelta_', type: 'uint256' },
+            { internalType: 'address', name: 'gasStation_', type: 'address' },
+            { internalType: 'uint256', name: 'maxFeePerGas_', type: 'uint256' },
+        ],
+        name: 'init',
+        outputs: [],
+        stateMutability: 'nonpayable',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'maxCallbackGasLimit',
+        outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'maxDeadlineDelta',
+        outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'maxFeePerGas',
+        outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'nextRequestId',
+        outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'owner',
+        outputs: [{ internalType: 'address', name: 'result', type: 'address' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [{ internalType: 'address', name: 'pendingOwner', type: 'address' }],
+        name: 'ownershipHandoverExpiresAt',
+        outputs: [{ internalType: 'uint256', name: 'result', type: 'uint256' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'proxiableUUID',
+        outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'renounceOwnership',
+        outputs: [],
+        stateMutability: 'payable',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'requestOwnershipHandover',
+        outputs: [],
+        stateMutability: 'payable',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'requestPremiumMultiplierBps',
+        outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [
+            { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+            { internalType: 'uint256', name: 'callbackGasLimit', type: 'uint256' },
+        ],
+        name: 'requestRandomness',
+        outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+        stateMutability: 'payable',
+        type: 'function',
+    },
+    {
+        inputs: [{ internalType: 'uint256', name: 'requestId', type: 'uint256' }],
+        name: 'requests',
+        outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [{ internalType: 'address', name: 'newBeacon', type: 'address' }],
+        name: 'setBeacon',
+        outputs: [],
+        stateMutability: 'nonpayable',
+        type: 'function',
+    },
+    {
+        inputs: [{ internalType: 'address', name: 'newGasStation', type: 'address' }],
+        name: 'setGasStation',
+        outputs: [],
+        stateMutability: 'nonpayable',
+        type: 'function',
+    },
+    {
+        inputs: [{ internalType: 'uint256', name: 'newMaxCallbackGasLimit', type: 'uint256' }],
+        name: 'setMaxCallbackGasLimit',
+        outputs: [],
+        stateMutability: 'nonpayable',
+        type: 'function',
+    },
+    {
+        inputs: [{ internalType: 'uint256', name: 'newMaxDeadlineDelta', type: 'uint256' }],
+        name: 'setMaxDeadlineDelta',
+        outputs: [],
+        stateMutability: 'nonpayable',
+        type: 'function',
+    },
+    {
+        inputs: [
+            { internalType: 'uint256', name: 'newRequestPremiumMultiplierBps', type: 'uint256' },
+        ],
+        name: 'setRequestPremiumMultiplierBps',
+        outputs: [],
+        stateMutability: 'nonpayable',
+        type: 'function',
+    },
+    {
+        inputs: [{ internalType: 'address', name: 'newOwner', type: 'address' }],
+        name: 'transferOwnership',
+        outputs: [],
+        stateMutability: 'payable',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'typeAndVersion',
+        outputs: [{ internalType: 'string', name: '', type: 'string' }],
+        stateMutability: 'pure',
+        type: 'function',
+    },
+    {
+        inputs: [
+            { internalType: 'address', name: 'newImplementation', type: 'address' },
+            { internalType: 'bytes', name: 'data', type: 'bytes' },
+        ],
+        name: 'upgradeToAndCall',
+        outputs: [],
+        stateMutability: 'payable',
+        type: 'function',
+    },
+    {
+        inputs: [{ internalType: 'uint256', name: 'amount', type: 'uint256' }],
+        name: 'withdrawETH',
+        outputs: [],
+        stateMutability: 'nonpayable',
+        type: 'function',
+    },
+] as const
+
+export const anyrandConsumerAbi = [
+    {
+        inputs: [{ internalType: 'address', name: 'anyrand_', type: 'address' }],
+        stateMutability: 'nonpayable',
+        type: 'constructor',
+    },
+    {
+        inputs: [{ internalType: 'address', name: 'owner', type: 'address' }],
+        name: 'OwnableInvalidOwner',
+        type: 'error',
+    },
+    {
+        inputs: [{ internalType: 'address', name: 'account', type: 'address' }],
+        name: 'OwnableUnauthorizedAccount',
+        type: 'error',
+    },
+    {
+        anonymous: false,
+        inputs: [
+            { indexed: true, internalType: 'address', name: 'previousOwner', type: 'address' },
+            { indexed: true, internalType: 'address', name: 'newOwner', type: 'address' },
+        ],
+        name: 'OwnershipTransferred',
+        type: 'event',
+    },
+    {
+        anonymous: false,
+        inputs: [{ indexed: false, internalType: 'uint256', name: 'randomness', type: 'uint256' }],
+        name: 'RandomnessReceived',
+        type: 'event',
+    },
+    {
+        inputs: [],
+        name: 'anyrand',
+        outputs: [{ internalType: 'address', name: '', type: 'address' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [
+            { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+            { internalType: 'uint256', name: 'callbackGasLimit', type: 'uint256' },
+        ],
+        name: 'getRandom',
+        outputs: [],
+        stateMutability: 'payable',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'owner',
+        outputs: [{ internalType: 'address', name: '', type: 'address' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [{ internalType: 'uint256', name: 'requestId', type: 'uint256' }],
+        name: 'randomness',
+        outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [
+            { internalType: 'uint256', name: 'requestId', type: 'uint256' },
+            { internalType: 'uint256', name: 'randomWord', type: 'uint256' },
+        ],
+        name: 'receiveRandomness',
+        outputs: [],
+        stateMutability: 'nonpayable',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'renounceOwnership',
+        outputs: [],
+        stateMutability: 'nonpayable',
+        type: 'function',
+    },
+    {
+        inputs: [{ internalType: 'address', name: 'newOwner', type: 'address' }],
+        name: 'transferOwnership',
+        outputs: [],
+        stateMutability: 'nonpayable',
+        type: 'function',
+    },
+] as const
+
+export const drandBeaconAbi = [
+    {
+        inputs: [
+            { internalType: 'uint256[4]', name: 'publicKey_', type: 'uint256[4]' },
+            { internalType: 'uint256', name: 'genesisTimestamp_', type: 'uint256' },
+            { internalType: 'uint256', name: 'period_', type: 'uint256' },
+        ],
+        stateMutability: 'nonpayable',
+        type: 'constructor',
+    },
+    {
+        inputs: [{ internalType: 'uint256[4]', name: 'input', type: 'uint256[4]' }],
+        name: 'BNAddFailed',
+        type: 'error',
+    },
+    {
+        inputs: [
+            { internalType: 'uint256', name: 'genesisTimestamp', type: 'uint256' },
+            { internalType: 'uint256', name: 'period', type: 'uint256' },
+        ],
+        name: 'InvalidBeaconConfiguration',
+        type: 'error',
+    },
+    {
+        inputs: [{ internalType: 'bytes', name: 'dst', type: 'bytes' }],
+        name: 'InvalidDSTLength',
+        type: 'error',
+    },
+    {
+        inputs: [{ internalType: 'uint256', name: 'x', type: 'uint256' }],
+        name: 'InvalidFieldElement',
+        type: 'error',
+    },
+    {
+        inputs: [{ internalType: 'uint256[4]', name: 'pubKey', type: 'uint256[4]' }],
+        name: 'InvalidPublicKey',
+        type: 'error',
+    },
+    {
+        inputs: [
+            { internalType: 'uint256[4]', name: 'pubKey', type: 'uint256[4]' },
+            { internalType: 'uint256[2]', name: 'message', type: 'uint256[2]' },
+            { internalType: 'uint256[2]', name: 'signature', type: 'uint256[2]' },
+        ],
+        name: 'InvalidSignature',
+        type: 'error',
+    },
+    {
+        inputs: [{ internalType: 'uint256', name: 'noSqrt', type: 'uint256' }],
+        name: 'MapToPointFailed',
+        type: 'error',
+    },
+    {
+        inputs: [
+            { internalType: 'uint256', name: 'base', type: 'uint256' },
+            { internalType: 'uint256', name: 'exponent', type: 'uint256' },
+            { internalType: 'uint256', name: 'modulus', type: 'uint256' },
+        ],
+        name: 'ModExpFailed',
+        type: 'error',
+    },
+    {
+        inputs: [],
+        name: 'DST',
+        outputs: [{ internalType: 'bytes', name: '', type: 'bytes' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'data',
+        outputs: [{ internalType: 'address', name: '', type: 'address' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'genesisTimestamp',
+        outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'period',
+        outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'publicKey',
+        outputs: [{ internalType: 'bytes', name: '', type: 'bytes' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [],
+        name: 'publicKeyHash',
+        outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }],
+        stateMutability: 'view',
+        type: 'function',
+    },
+    {
+        inputs: [
+            { internalType: 'uint256', name: 'round', type: 'uint256' },
+            { internalType: 'uint256[2]', name: 'signature', type: 'uint256[2]' },
+        ],
+        name: 'verifyBeaconRound',
+        outputs: [],
+        stateMutability: 'view',
+        type: 'function',
+    },
+] as const
@@ -0,0 +1,92 @@
+import { Hex } from './types'
+
+/// Margin added on top of the gas a simulated callback used, in basis points.
+/// Callbacks can take other code paths (and storage can be warmer or colder)
+/// when they actually run.
+export const DEFAULT_CALLBACK_GAS_MARGIN_BPS = 2500n
+
+/// Storage slot of `AnyrandConsumer.randomness`, whose entries are set to 1
+/// while a request is in flight
+export const ANYRAND_CONSUMER_RANDOMNESS_SLOT = 1n
+
+/// Non-zero stand-in for the random word passed to simulated callbacks. Storing
+/// a zero word would be cheaper than storing a real one.
+export const SIMULATED_RANDOMNESS = 2n ** 255n + 1n
+
+/// Gas resolution of `findMinimumGas`
+const GAS_SEARCH_PRECISION = 500n
+
+export interface CallbackGasEstimate {
+    /// Least gas the simulated callback succeeded with
+    gasUsed: bigint
+    /// Callback gas limit to request with
+    recommended: bigint
+    /// Whether `recommended` was capped at the coordinator's
+    /// `maxCallbackGasLimit`, i.e. the margin couldn't be fully applied
+    capped: boolean
+}
+
+export interface EstimateCallbackGasParams {
+    /// Contract that will receive the callback
+    consumer: Hex
+    /// Request ID to simulate the callback for. Defaults to the next request ID,
+    /// i.e. the one a request made now would get.
+    requestId?: bigint
+    /// Slot of a `mapping(uint256 => uint256)` in the consumer that marks a
+    /// request as in flight with the value 1, as `AnyrandConsumer.randomness`
+    /// does. If set, the entry for `requestId` is overridden during the
+    /// simulation, so that the callback doesn't reject an unknown request.
+    inflightMappingSlot?: bigint
+    /// Defaults to `DEFAULT_CALLBACK_GAS_MARGIN_BPS`
+    marginBps?: bigint
+}
+
+/// Base cost of a transaction with this calldata (EIP-2028). Simulated
+/// callbacks are sent as transactions, which pay it, whereas Anyrand's call to
+/// the consumer doesn't.
+export function getIntrinsicGas(data: string) {
+    let gas = 21_000n
+    for (let i = 2; i < data.length; i += 2) {
+        gas += data.slice(i, i + 2) === '00' ? 4n : 16n
+    }
+    return gas
+}
+
+/// Callback gas limit to request with, given the gas a simulated callback used
+export function recommendCallbackGasLimit(
+    gasUsed: bigint,
+    maxCallbackGasLimit: bigint,
+    marginBps = DEFAULT_CALLBACK_GAS_MARGIN_BPS,
+): CallbackGasEstimate {
+    const withMargin = (gasUsed * (10_000n + marginBps) + 9_999n) / 10_000n
+    // Round up to a multiple of 1000 so it's easier on the eye
+    const rounded = ((withMargin + 999n) / 1000n) * 1000n
+    return {
+        gasUsed,
+        recommended: rounded > maxCallbackGasLimit ? maxCallbackGasLimit : rounded,
+        capped: rounded > maxCallbackGasLimit,
+    }
+}
+
+/// Binary search for the least gas, up to `max`, that `succeeds` with. Nodes
+/// don't support state overrides in `eth_estimateGas` consistently, so
+/// callbacks are estimated by repeated `eth_call`s instead. Returns null if it
+/// doesn't succeed even with `max`.
+export async function findMinimumGas(
+    succeeds: (gas: bigint) => Promise<boolean>,
+    max: bigint,
+    precision = GAS_SEARCH_PRECISION,
+): Promise<bigint | null> {
+    if (!(await succeeds(max))) return null
+    let lo = 0n
+    let hi = max
+    while (hi - lo > precision) {
+        const mid = (lo + hi) / 2n
+        if (await succeeds(mid)) {
+            hi = mid
+        } else {
+            lo = mid
+        }
+    }
+    return hi
+}
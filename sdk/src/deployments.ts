@@ -0,0 +1,82 @@
+import type { Hex } from './types'
+import { ANYRAND_DEPLOYMENTS } from './registry'
+
+export { ANYRAND_DEPLOYMENTS }
+
+export const LOCAL_CHAIN_ID = 31337
+
+export interface AnyrandDeployment {
+    chainId: number
+    name: string
+    /// Suffix of the env vars that override this deployment's addresses in
+    /// scripts, e.g. `ANYRAND_SCROLL_SEPOLIA_ADDRESS`
+    envName: string
+    /// Deployment version, e.g. 1.0.0
+    version: string
+    /// Anyrand proxy
+    anyrand: Hex
+    beacon: Hex
+    gasStation: Hex
+    /// Example consumer
+    consumer?: Hex
+    /// Block the Anyrand proxy was deployed in; no earlier block has any of its events
+    deployBlock: bigint
+}
+
+export type DeploymentOverrides = Partial<Omit<AnyrandDeployment, 'chainId'>>
+
+/// Details of a chain that doesn't have a registered deployment
+function getUnregisteredDefaults(chainId: number) {
+    return chainId === LOCAL_CHAIN_ID
+        ? { chainId, name: 'Localhost', envName: 'LOCAL', version: 'local', deployBlock: 0n }
+        : {
+              chainId,
+              name: `Chain ${chainId}`,
+              envName: `CHAIN_${chainId}`,
+              version: 'unknown',
+              deployBlock: 0n,
+          }
+}
+
+/// Suffix of the env vars that configure the deployment on a chain
+export function getDeploymentEnvName(chainId: number | bigint) {
+    const id = Number(chainId)
+    return (
+        ANYRAND_DEPLOYMENTS.find((deployment) => deployment.chainId === id)?.envName ||
+        getUnregisteredDefaults(id).envName
+    )
+}
+
+/// Get the deployment on a chain. Defined fields of `overrides` take precedence
+/// over the registry, which also allows describing chains that aren't in the
+/// registry at all, such as a local node.
+export function getDeployment(
+    chainId: number | bigint,
+    overrides: DeploymentOverrides = {},
+): AnyrandDeployment | undefined {
+    const id = Number(chainId)
+    const registered = ANYRAND_DEPLOYMENTS.find((deployment) => deployment.chainId === id)
+    const defined = Object.fromEntries(
+        Object.entries(overrides).filter(
+            ([, value]) => typeof value !== 'undefined' && value !== '',
+        ),
+    ) as DeploymentOverrides
+    // A different coordinator is a different deployment, so none of the other
+    // registered addresses apply to it
+    const isRegistered =
+        registered &&
+        (!defined.anyrand || defined.anyrand.toLowerCase() === registered.anyrand.toLowerCase())
+    const deployment: Partial<AnyrandDeployment> = {
+        ...(isRegistered
+            ? registered
+            : {
+                  ...getUnregisteredDefaults(id),
+                  ...(registered && { name: registered.name, envName: registered.envName }),
+              }),
+        ...defined,
+    }
+    if (!deployment.anyrand || !deployment.beacon || !deployment.gasStation) {
+        return undefined
+    }
+    return deployment as AnyrandDeployment
+}
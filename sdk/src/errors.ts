@@ -0,0 +1,145 @@
+import { anyrandAbi, anyrandConsumerAbi, drandBeaconAbi } from './abi'
+import { RequestState } from './types'
+
+type AbiItem =
+    | (typeof anyrandAbi)[number]
+    | (typeof anyrandConsumerAbi)[number]
+    | (typeof drandBeaconAbi)[number]
+type ErrorAbiItem = Extract<AbiItem, { type: 'error' }>
+
+/// Custom errors of every exported contract. Errors of contracts that
+/// Anyrand calls (e.g. `DrandBeacon.InvalidSignature`) bubble up through it,
+/// so they're decoded together.
+export const anyrandErrorAbi: ReadonlyArray<ErrorAbiItem> = [
+    ...anyrandAbi,
+    ...anyrandConsumerAbi,
+    ...drandBeaconAbi,
+].filter((item): item is ErrorAbiItem => item.type === 'error')
+
+export type AnyrandErrorName = ErrorAbiItem['name']
+
+export interface DecodedAnyrandError {
+    /// Error name, e.g. `InvalidRequestState`, or `Error`/`Panic` for reason
+    /// strings and panics
+    name: string
+    /// Stable identifier of the error, e.g. `INVALID_REQUEST_STATE`
+    code: string
+    /// Decoded arguments, by name
+    args: Record<string, unknown>
+    /// Explanation that a user can act on
+    userMessage: string
+}
+
+const REQUEST_STATE_MESSAGES: Record<RequestState, string> = {
+    [RequestState.Nonexistent]: "The request doesn't exist",
+    [RequestState.Pending]: 'The request is still pending',
+    [RequestState.Fulfilled]: 'The request has already been fulfilled',
+    [RequestState.Failed]: 'The request has already been fulfilled (its callback failed)',
+}
+
+/// User-facing message for each custom error. Typed so that a contract error
+/// can't be added without a message.
+const ERROR_MESSAGES: Record<AnyrandErrorName, (args: Record<string, unknown>) => string> = {
+    // Anyrand
+    AddressEmptyCode: ({ target }) => `There is no contract at ${target}.`,
+    AlreadyInitialized: () => 'The contract has already been initialised.',
+    ERC1967InvalidImplementation: ({ implementation }) =>
+        `${implementation} is not a valid implementation for the proxy.`,
+    ERC1967NonPayable: () => "The proxy doesn't accept ETH with this call.",
+    FailedInnerCall: () => 'A call made by the contract failed.',
+    IncorrectPayment: ({ got, want }) =>
+        `The payment of ${formatEther(got as bigint)} ETH doesn't match the request price of ${formatEther(want as bigint)} ETH. The price depends on the gas price, so the request must be sent with the gas price it was quoted at.`,
+    InsufficientGas: () =>
+        "The transaction doesn't have enough gas left to call the callback with its full gas limit. Send it with a higher gas limit.",
+    InvalidBeacon: ({ beacon }) => `${beacon} is not a valid drand beacon.`,
+    InvalidDeadline: ({ deadline }) =>
+        `The deadline (${new Date(Number(deadline) * 1000).toISOString()}) is out of range. It must be at least one beacon period from now, and no further ahead than the coordinator's maximum deadline delta.`,
+    InvalidInitialization: () => "The contract can't be initialised again.",
+    InvalidRequestHash: () =>
+        "The requester, beacon, round or callback gas limit don't match the request that was made.",
+    InvalidRequestState: ({ state }) => `${REQUEST_STATE_MESSAGES[Number(state) as RequestState]}.`,
+    NewOwnerIsZeroAddress: () => "The new owner can't be the zero address.",
+    NoHandoverRequest: () => 'There is no pending ownership handover for this account.',
+    NotInitializing: () => 'The contract is not being initialised.',
+    OverGasLimit: ({ callbackGasLimit }) =>
+        `The callback gas limit of ${callbackGasLimit} is above the coordinator's maximum callback gas limit.`,
+    ReentrancyGuardReentrantCall: () => "The coordinator can't be called reentrantly.",
+    TransferFailed: ({ to, value }) =>
+        `Transferring ${formatEther(value as bigint)} ETH to ${to} failed.`,
+    UUPSUnauthorizedCallContext: () => 'Upgrades must be called through the proxy.',
+    UUPSUnsupportedProxiableUUID: () => "The new implementation isn't UUPS-compatible.",
+    Unauthorized: () => 'Only the owner can do this.',
+    // AnyrandConsumer
+    OwnableInvalidOwner: ({ owner }) => `${owner} can't be the owner.`,
+    OwnableUnauthorizedAccount: ({ account }) => `${account} is not the owner.`,
+    // DrandBeacon
+    BNAddFailed: () => 'Adding points on the BN254 curve failed.',
+    InvalidBeaconConfiguration: ({ genesisTimestamp, period }) =>
+        `Invalid beacon configuration (genesis timestamp ${genesisTimestamp}, period ${period}).`,
+    InvalidDSTLength: () => 'The domain separation tag has an invalid length.',
+    InvalidFieldElement: ({ x }) => `${x} is not a valid field element.`,
+    InvalidPublicKey: () => 'The beacon public key is not a valid BN254 G2 point.',
+    InvalidSignature: () =>
+        "The beacon signature isn't valid. It must be the signature of the request's round, from the beacon that the request was made against.",
+    MapToPointFailed: () => 'Hashing the round to a point on the curve failed.',
+    ModExpFailed: () => 'The modexp precompile call failed.',
+}
+
+/// Wei as ETH, e.g. `1500000000000000000n` -> `1.5`, as viem's & ethers'
+/// `formatEther` do. This module is shared by both clients, so uses neither.
+function formatEther(wei: bigint) {
+    const sign = wei < 0n ? '-' : ''
+    const abs = wei < 0n ? -wei : wei
+    const fraction = (abs % 10n ** 18n).toString().padStart(18, '0').replace(/0+$/, '')
+    return `${sign}${abs / 10n ** 18n}${fraction ? `.${fraction}` : ''}`
+}
+
+/// e.g. `InvalidRequestState` -> `INVALID_REQUEST_STATE`
+function toErrorCode(name: string) {
+    return name
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+        .toUpperCase()
+}
+
+/// Describe a decoded contract error. `Error(string)` and `Panic(uint256)` are
+/// described too, as `REVERTED` (with a `reason` arg) and `PANIC` (with a
+/// `code` arg).
+export function describeAnyrandError(
+    name: string,
+    args: Record<string, unknown>,
+): DecodedAnyrandError {
+    // Libraries name the builtin errors' arguments differently
+    const [first] = Object.values(args)
+    if (name === 'Error') {
+        return {
+            name,
+            code: 'REVERTED',
+            args: { reason: first },
+            userMessage: `Reverted: ${first}`,
+        }
+    }
+    if (name === 'Panic') {
+        return {
+            name,
+            code: 'PANIC',
+            args: { code: first },
+            userMessage: `Panicked with code 0x${Number(first).toString(16)}`,
+        }
+    }
+    const message = ERROR_MESSAGES[name as AnyrandErrorName]
+    return {
+        name,
+        code: toErrorCode(name),
+        args,
+        userMessage: message ? message(args) : `Reverted with ${name}`,
+    }
+}
+
+/// Name the positional arguments of a decoded error by its ABI inputs
+export function nameErrorArgs(
+    inputs: ReadonlyArray<{ name?: string }>,
+    values: ReadonlyArray<unknown>,
+): Record<string, unknown> {
+    return Object.fromEntries(inputs.map((input, i) => [input.name || String(i), values[i]]))
+}
@@ -0,0 +1,343 @@
+import {
+    AbiCoder,
+    Contract,
+    ContractRunner,
+    ContractTransactionResponse,
+    Interface,
+    Overrides,
+    ZeroAddress,
+    isHexString,
+    keccak256,
+    toBeHex,
+    toQuantity,
+} from 'ethers'
+import { anyrandAbi, anyrandConsumerAbi, drandBeaconAbi } from './abi'
+import {
+    CallbackGasEstimate,
+    EstimateCallbackGasParams,
+    SIMULATED_RANDOMNESS,
+    findMinimumGas,
+    getIntrinsicGas,
+    recommendCallbackGasLimit,
+} from './callbackGas'
+import { DecodedAnyrandError, anyrandErrorAbi, describeAnyrandError, nameErrorArgs } from './errors'
+import {
+    FEE_SCENARIOS,
+    GetRequestQuoteOptions,
+    RequestQuote,
+    buildRequestQuote,
+    getQuoteGasPrices,
+    getQuoteTxFees,
+} from './quote'
+import { getRound } from './round'
+import {
+    ANYRAND_EVENT_NAMES,
+    AnyrandEvent,
+    BeaconInfo,
+    BeaconSignature,
+    FulfilmentRequest,
+    Hex,
+    RequestPrice,
+    RequestRandomnessParams,
+    RequestState,
+    RoundFulfilment,
+} from './types'
+
+export const anyrandInterface = new Interface(anyrandAbi)
+export const drandBeaconInterface = new Interface(drandBeaconAbi)
+export const anyrandConsumerInterface = new Interface(anyrandConsumerAbi)
+export const anyrandErrorInterface = new Interface(anyrandErrorAbi)
+
+/// Decode a log into one of the request lifecycle events, or null if the log
+/// is some other event. Does not check the emitting address.
+export function decodeAnyrandLog(log: {
+    topics: ReadonlyArray<string>
+    data: string
+}): AnyrandEvent | null {
+    let parsed
+    try {
+        parsed = anyrandInterface.parseLog(log)
+    } catch {
+        return null
+    }
+    if (!parsed || !(ANYRAND_EVENT_NAMES as string[]).includes(parsed.name)) {
+        return null
+    }
+    return { eventName: parsed.name, args: parsed.args.toObject() } as AnyrandEvent
+}
+
+/// Decode revert data into one of the exported contracts' errors (or a reason
+/// string or panic), or null if it's none of them
+export function decodeAnyrandError(data: string): DecodedAnyrandError | null {
+    let parsed
+    try {
+        parsed = anyrandErrorInterface.parseError(data)
+    } catch {
+        return null
+    }
+    if (!parsed) return null
+    return describeAnyrandError(
+        parsed.name,
+        nameErrorArgs(parsed.fragment.inputs, [...parsed.args]),
+    )
+}
+
+/// Revert data of a failed call or transaction, if the provider returned any.
+/// Providers nest the underlying RPC error in different places.
+export function getRevertData(error: unknown): string | undefined {
+    const seen = new Set<unknown>()
+    const queue = [error]
+    while (queue.length > 0) {
+        const err = queue.shift()
+        if (typeof err !== 'object' || err === null || seen.has(err)) continue
+        seen.add(err)
+        const { data, error: inner, info, cause } = err as Record<string, unknown>
+        if (isHexString(data) && data !== '0x') return data
+        queue.push(data, inner, info, cause)
+    }
+    return undefined
+}
+
+/// Decode the contract error that an ethers call or transaction failed with
+export function getAnyrandError(error: unknown): DecodedAnyrandError | null {
+    const data = getRevertData(error)
+    return data ? decodeAnyrandError(data) : null
+}
+
+type JsonRpcSend = (method: string, params: unknown[]) => Promise<unknown>
+
+/// Anyrand client for ethers v6 runners (providers or signers). Writes require
+/// the runner to be a signer.
+export class AnyrandEthersClient {
+    public readonly contract: Contract
+    /// Beacons are immutable, so their details only need to be fetched once
+    private readonly beacons = new Map<string, Promise<BeaconInfo>>()
+
+    constructor(
+        public readonly address: string,
+        public readonly runner: ContractRunner,
+    ) {
+        this.contract = new Contract(address, anyrandInterface, runner)
+    }
+
+    connect(runner: ContractRunner) {
+        return new AnyrandEthersClient(this.address, runner)
+    }
+
+    /// Price of a request at the given gas price. The contract prices requests
+    /// using the gas price of the call, so this should be the gas price the
+    /// request will be sent with.
+    async getRequestPrice(
+        callbackGasLimit: bigint,
+        overrides: Overrides = {},
+    ): Promise<RequestPrice> {
+        const [totalPrice, effectiveFeePerGas] = await this.contract.getRequestPrice(
+            callbackGasLimit,
+            overrides,
+        )
+        return { totalPrice, effectiveFeePerGas }
+    }
+
+    /// Quote the exact request price in each fee scenario. A request is only
+    /// priced as quoted if it's sent with the scenario's gas price, see
+    /// `getQuoteTxFees`.
+    async getRequestQuote(
+        callbackGasLimit: bigint,
+        { gasPrice, fastGasPriceBps }: GetRequestQuoteOptions = {},
+    ): Promise<RequestQuote> {
+        const [currentGasPrice, maxFeePerGas]: [bigint | null, bigint] = await Promise.all([
+            gasPrice ?? this.runner.provider!.getFeeData().then((fee) => fee.gasPrice),
+            this.contract.maxFeePerGas(),
+        ])
+        if (currentGasPrice === null) {
+            throw new Error('Provider did not return a gas price')
+        }
+        const gasPrices = getQuoteGasPrices(currentGasPrice, maxFeePerGas, fastGasPriceBps)
+        const [l1Price, current, fast, capped] = await Promise.all(
+            [0n, ...FEE_SCENARIOS.map((scenario) => gasPrices[scenario])].map((price) =>
+                this.getRequestPrice(callbackGasLimit, { gasPrice: price }),
+            ),
+        )
+        return buildRequestQuote(
+            callbackGasLimit,
+            maxFeePerGas,
+            gasPrices,
+            { current, fast, capped },
+            l1Price,
+        )
+    }
+
+    async getRequestState(requestId: bigint): Promise<RequestState> {
+        return Number(await this.contract.getRequestState(requestId))
+    }
+
+    /// Details of the beacon with this public key hash, or the current beacon
+    async getBeacon(pubKeyHash?: string): Promise<BeaconInfo> {
+        const publicKeyHash = pubKeyHash || (await this.contract.currentBeaconPubKeyHash())
+        const key = publicKeyHash.toLowerCase()
+        let beacon = this.beacons.get(key)
+        if (!beacon) {
+            beacon = this.fetchBeacon(publicKeyHash)
+            this.beacons.set(key, beacon)
+            beacon.catch(() => this.beacons.delete(key))
+        }
+        return beacon
+    }
+
+    private async fetchBeacon(publicKeyHash: string): Promise<BeaconInfo> {
+        const address: string = await this.contract.beacon(publicKeyHash)
+        if (address === ZeroAddress) {
+            throw new Error(`Unknown beacon: ${publicKeyHash}`)
+        }
+        const beacon = new Contract(address, drandBeaconInterface, this.runner)
+        const [publicKey, genesisTimestamp, period] = await Promise.all([
+            beacon.publicKey(),
+            beacon.genesisTimestamp(),
+            beacon.period(),
+        ])
+        return {
+            address: address as Hex,
+            publicKey,
+            publicKeyHash: publicKeyHash as Hex,
+            genesisTimestamp,
+            period,
+        }
+    }
+
+    /// Round that a request made now with this deadline would be assigned
+    async getRound(deadline: bigint) {
+        const { genesisTimestamp, period } = await this.getBeacon()
+        return getRound(genesisTimestamp, deadline, period)
+    }
+
+    /// Recommend a callback gas limit for a consumer, by simulating Anyrand
+    /// calling its `receiveRandomness`. Throws if the callback reverts even
+    /// with `maxCallbackGasLimit`. State overrides are sent as a raw
+    /// `eth_call`, so the runner's provider must be a JSON-RPC provider.
+    async estimateCallbackGas({
+        consumer,
+        requestId,
+        inflightMappingSlot,
+        marginBps,
+    }: EstimateCallbackGasParams): Promise<CallbackGasEstimate> {
+        const provider = this.runner.provider as { send?: JsonRpcSend } | null
+        if (!provider?.send) {
+            throw new Error('Estimating callback gas requires a JSON-RPC provider')
+        }
+        const send = provider.send.bind(provider)
+        const maxCallbackGasLimit: bigint = await this.contract.maxCallbackGasLimit()
+        const id: bigint = requestId ?? (await this.contract.nextRequestId())
+        const data = anyrandConsumerInterface.encodeFunctionData('receiveRandomness', [
+            id,
+            SIMULATED_RANDOMNESS,
+        ])
+        const intrinsicGas = getIntrinsicGas(data)
+        const stateOverride =
+            typeof inflightMappingSlot === 'undefined'
+                ? []
+                : [
+                      {
+                          [consumer]: {
+                              stateDiff: {
+                                  [keccak256(
+                                      AbiCoder.defaultAbiCoder().encode(
+                                          ['uint256', 'uint256'],
+                                          [id, inflightMappingSlot],
+                                      ),
+                                  )]: toBeHex(1, 32),
+                              },
+                          },
+                      },
+                  ]
+
+        let lastError: unknown
+        const gasUsed = await findMinimumGas(async (gas) => {
+            try {
+                await send('eth_call', [
+                    {
+                        from: this.address,
+                        to: consumer,
+                        data,
+                        gas: toQuantity(gas + intrinsicGas),
+                    },
+                    'latest',
+                    ...stateOverride,
+                ])
+                return true
+            } catch (err) {
+                lastError = err
+                return false
+            }
+        }, maxCallbackGasLimit)
+        if (gasUsed === null) {
+            throw new Error(
+                `Callback reverts even with the maximum gas limit of ${maxCallbackGasLimit}: ${lastError}`,
+            )
+        }
+        return recommendCallbackGasLimit(gasUsed, maxCallbackGasLimit, marginBps)
+    }
+
+    async requestRandomness(
+        { deadline, callbackGasLimit, value, gasPrice }: RequestRandomnessParams,
+        overrides: Overrides = {},
+    ): Promise<ContractTransactionResponse> {
+        if (typeof value === 'undefined') {
+            const pricedAt =
+                gasPrice ??
+                overrides.gasPrice ??
+                overrides.maxFeePerGas ??
+                (await this.runner.provider!.getFeeData()).gasPrice
+            ;({ totalPrice: value } = await this.getRequestPrice(callbackGasLimit, {
+                gasPrice: pricedAt,
+            }))
+        }
+        return this.contract.requestRandomness(deadline, callbackGasLimit, {
+            ...(typeof gasPrice === 'undefined' ? {} : getQuoteTxFees({ gasPrice })),
+            ...overrides,
+            value,
+        })
+    }
+
+    async fulfillRandomness(
+        { requestId, requester, pubKeyHash, round, callbackGasLimit }: FulfilmentRequest,
+        signature: BeaconSignature,
+        overrides: Overrides = {},
+    ): Promise<ContractTransactionResponse> {
+        return this.contract.fulfillRandomness(
+            requestId,
+            requester,
+            pubKeyHash,
+            round,
+            callbackGasLimit,
+            [...signature],
+            overrides,
+        )
+    }
+
+    /// Fulfil requests in a single transaction, verifying each round's
+    /// signature once (see `groupByRound`). Requests that are no longer
+    /// pending are skipped by the contract.
+    async fulfillRandomnessBatch(
+        fulfilments: ReadonlyArray<RoundFulfilment>,
+        overrides: Overrides = {},
+    ): Promise<ContractTransactionResponse> {
+        return this.contract.fulfillRandomnessBatch(
+            fulfilments.map((fulfilment) => ({
+                ...fulfilment,
+                signature: [...fulfilment.signature],
+            })),
+            overrides,
+        )
+    }
+
+    /// Decode the request lifecycle events emitted by this contract, e.g. from
+    /// a transaction receipt
+    decodeEvents(
+        logs: ReadonlyArray<{ address: string; topics: ReadonlyArray<string>; data: string }>,
+    ) {
+        return logs
+            .filter((log) => log.address.toLowerCase() === this.address.toLowerCase())
+            .map(decodeAnyrandLog)
+            .filter((event): event is AnyrandEvent => event !== null)
+    }
+}
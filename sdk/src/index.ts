@@ -0,0 +1,9 @@
+// Library-agnostic entrypoint. Clients live in `anyrand-sdk/viem` and
+// `anyrand-sdk/ethers` so that consumers only need one of the two installed.
+export * from './abi'
+export * from './callbackGas'
+export * from './deployments'
+export * from './errors'
+export * from './quote'
+export * from './round'
+export * from './types'
@@ -0,0 +1,104 @@
+import { RequestPrice } from './types'
+
+/// Gas prices a request can be quoted at:
+///  current  The node's suggested gas price
+///  fast     A premium on the suggested gas price, to be included sooner
+///  capped   The coordinator's `maxFeePerGas`, above which the price is capped
+export const FEE_SCENARIOS = ['current', 'fast', 'capped'] as const
+export type FeeScenario = (typeof FEE_SCENARIOS)[number]
+
+/// Gas overhead of `fulfillRandomness` excluding the callback, as assumed by
+/// `Anyrand.getRequestPrice`
+export const FULFILL_GAS_OVERHEAD = 200_000n
+
+/// Gas price of the `fast` scenario relative to `current`, in basis points
+export const DEFAULT_FAST_GAS_PRICE_BPS = 15000n
+
+export interface ScenarioQuote {
+    scenario: FeeScenario
+    /// Gas price the request must be sent with, see `getQuoteTxFees`
+    gasPrice: bigint
+    /// Exact `msg.value` for a request sent with `gasPrice`. The coordinator
+    /// rejects any other value.
+    value: bigint
+    effectiveFeePerGas: bigint
+    /// Part of `value` paying for the fulfilment's L1 data fee, on L2s whose
+    /// gas station charges one (incl. the request premium)
+    l1Fee: bigint
+    /// Part of `value` paying for execution gas (incl. the request premium)
+    l2Fee: bigint
+    /// Whether the coordinator capped the price at `maxFeePerGas`
+    capped: boolean
+}
+
+export interface RequestQuote {
+    callbackGasLimit: bigint
+    /// Coordinator's `maxFeePerGas`
+    maxFeePerGas: bigint
+    scenarios: Record<FeeScenario, ScenarioQuote>
+}
+
+export interface GetRequestQuoteOptions {
+    /// Gas price of the `current` scenario. Defaults to the node's gas price.
+    gasPrice?: bigint
+    /// Defaults to `DEFAULT_FAST_GAS_PRICE_BPS`
+    fastGasPriceBps?: bigint
+}
+
+/// Gas price to quote each scenario at
+export function getQuoteGasPrices(
+    currentGasPrice: bigint,
+    maxFeePerGas: bigint,
+    fastGasPriceBps = DEFAULT_FAST_GAS_PRICE_BPS,
+): Record<FeeScenario, bigint> {
+    return {
+        current: currentGasPrice,
+        fast: (currentGasPrice * fastGasPriceBps) / 10_000n,
+        capped: maxFeePerGas,
+    }
+}
+
+/// Assemble a quote from `getRequestPrice` called at each scenario's gas
+/// price, and at a gas price of 0. Gas stations only charge the L1 data fee
+/// when the gas price is 0, which separates it from the execution gas fee.
+export function buildRequestQuote(
+    callbackGasLimit: bigint,
+    maxFeePerGas: bigint,
+    gasPrices: Record<FeeScenario, bigint>,
+    prices: Record<FeeScenario, RequestPrice>,
+    l1Price: RequestPrice,
+): RequestQuote {
+    const cappedPrice = maxFeePerGas * callbackGasLimit
+    const quote = (scenario: FeeScenario): ScenarioQuote => {
+        const { totalPrice, effectiveFeePerGas } = prices[scenario]
+        const capped = effectiveFeePerGas === maxFeePerGas && totalPrice === cappedPrice
+        // A capped price is a flat fee per callback gas, with no L1 component
+        const l1Fee = capped ? 0n : l1Price.totalPrice
+        return {
+            scenario,
+            gasPrice: gasPrices[scenario],
+            value: totalPrice,
+            effectiveFeePerGas,
+            l1Fee,
+            l2Fee: totalPrice - l1Fee,
+            capped,
+        }
+    }
+    return {
+        callbackGasLimit,
+        maxFeePerGas,
+        scenarios: {
+            current: quote('current'),
+            fast: quote('fast'),
+            capped: quote('capped'),
+        },
+    }
+}
+
+/// EIP-1559 fees that make a transaction's `tx.gasprice` exactly the quoted
+/// gas price, which the coordinator prices the request at. The effective gas
+/// price is `min(maxFeePerGas, baseFee + maxPriorityFeePerGas)`, so it can only
+/// be pinned by setting both to the same value.
+export function getQuoteTxFees({ gasPrice }: Pick<ScenarioQuote, 'gasPrice'>) {
+    return { maxFeePerGas: gasPrice, maxPriorityFeePerGas: gasPrice }
+}
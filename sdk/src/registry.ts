@@ -0,0 +1,38 @@
+// Generated by scripts/generateSdk.ts from ignition/deployments. Do not edit manually.
+import type { AnyrandDeployment } from './deployments'
+
+export const ANYRAND_DEPLOYMENTS: ReadonlyArray<AnyrandDeployment> = [
+    {
+        chainId: 534352,
+        name: 'Scroll',
+        envName: 'SCROLL',
+        version: '1.0.0',
+        anyrand: '0x7ED45287f817842d72753FE02617629c4c7c2FBE',
+        beacon: '0x98754ced5328f627636349b88366f26A9E1a8655',
+        gasStation: '0x7303316Df59563D1Ddc869A399eC98F78cDC9491',
+        consumer: '0xEFDD17a7CD50394F7d9D7516c73e7D484e3f04A1',
+        deployBlock: 10155373n,
+    },
+    {
+        chainId: 8453,
+        name: 'Base',
+        envName: 'BASE',
+        version: '1.0.0',
+        anyrand: '0xF6baf607AC2971EE6A3C47981E7176134628e36C',
+        beacon: '0x419232D8cd554a3Bcce2D72c6D50956933AA178C',
+        gasStation: '0x014BCf94ab370e5B8963a957c96A7e1e5FD46e8b',
+        consumer: '0x1eE75756cca4611222748d8bd252879Baec5d2EA',
+        deployBlock: 21639071n,
+    },
+    {
+        chainId: 534351,
+        name: 'Scroll Sepolia',
+        envName: 'SCROLL_SEPOLIA',
+        version: '1.0.0-test_2',
+        anyrand: '0x86d8C50E04DDd04cdaafaC9672cf1D00b6057AF5',
+        beacon: '0x3b41d0A5E90d46c26361885D4562D6aB71E67380',
+        gasStation: '0x83de6642650Cdf1BC350A5a636269B8e1CA0469F',
+        consumer: '0x60075aE6a7f5631B50109846b80B021dBd2c308D',
+        deployBlock: 6990037n,
+    },
+]
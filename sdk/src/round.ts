@@ -0,0 +1,43 @@
+/// Beacon round that a request with this deadline will be fulfilled with,
+/// i.e. the first round published at or after the deadline. Mirrors
+/// `Anyrand.getRound`.
+export function getRound(genesisTimestamp: bigint, deadline: bigint, period: bigint) {
+    const delta = deadline - genesisTimestamp
+    return delta / period + (delta % period > 0n ? 1n : 0n)
+}
+
+/// Timestamp at which a beacon round is published
+export function getRoundTimestamp(genesisTimestamp: bigint, period: bigint, round: bigint) {
+    return genesisTimestamp + (round - 1n) * period
+}
+
+/// Latest beacon round published at or before `timestamp`, or 0 if the beacon
+/// hadn't started yet. Inverse of `getRoundTimestamp`.
+export function getLatestRound(genesisTimestamp: bigint, period: bigint, timestamp: bigint) {
+    if (timestamp < genesisTimestamp) return 0n
+    return (timestamp - genesisTimestamp) / period + 1n
+}
+
+export interface RoundGroup<T> {
+    pubKeyHash: string
+    round: bigint
+    requests: T[]
+}
+
+/// Group requests by the beacon round they're fulfilled with, in order of
+/// round, so that each round's signature only has to be fetched once
+export function groupByRound<T extends { pubKeyHash: string; round: bigint }>(
+    requests: Iterable<T>,
+): RoundGroup<T>[] {
+    const groups = new Map<string, RoundGroup<T>>()
+    for (const request of requests) {
+        const key = `${request.pubKeyHash.toLowerCase()}:${request.round}`
+        let group = groups.get(key)
+        if (!group) {
+            group = { pubKeyHash: request.pubKeyHash, round: request.round, requests: [] }
+            groups.set(key, group)
+        }
+        group.requests.push(request)
+    }
+    return [...groups.values()].sort((a, b) => (a.round < b.round ? -1 : a.round > b.round ? 1 : 0))
+}
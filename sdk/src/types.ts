@@ -0,0 +1,97 @@
+export type Hex = `0x${string}`
+
+// From IAnyrand
+export enum RequestState {
+    Nonexistent,
+    Pending,
+    Fulfilled,
+    Failed,
+}
+
+/// Result of `Anyrand.getRequestPrice`
+export interface RequestPrice {
+    totalPrice: bigint
+    effectiveFeePerGas: bigint
+}
+
+export interface RequestRandomnessParams {
+    /// Timestamp after which the request may be fulfilled
+    deadline: bigint
+    callbackGasLimit: bigint
+    /// Payment to send with the request, which must be exactly the request
+    /// price at the transaction's gas price. Defaults to the request price at
+    /// `gasPrice`.
+    value?: bigint
+    /// Gas price to send the request with, e.g. a quoted one (see
+    /// `getQuoteTxFees`). Defaults to the current gas price if `value` isn't
+    /// given.
+    gasPrice?: bigint
+}
+
+/// Everything `Anyrand.fulfillRandomness` needs to identify a request, as
+/// emitted in `RandomnessRequested`
+export interface FulfilmentRequest {
+    requestId: bigint
+    requester: Hex
+    pubKeyHash: Hex
+    round: bigint
+    callbackGasLimit: bigint
+}
+
+export type BeaconSignature = readonly [bigint, bigint]
+
+/// A round's signature along with the requests it fulfils, as taken by
+/// `Anyrand.fulfillRandomnessBatch`. A type rather than an interface, as viem
+/// only infers contract args from types with an implicit index signature.
+export type RoundFulfilment = {
+    pubKeyHash: Hex
+    round: bigint
+    signature: BeaconSignature
+    requests: ReadonlyArray<Pick<FulfilmentRequest, 'requestId' | 'requester' | 'callbackGasLimit'>>
+}
+
+export interface BeaconInfo {
+    address: Hex
+    publicKey: Hex
+    publicKeyHash: Hex
+    genesisTimestamp: bigint
+    period: bigint
+}
+
+export interface RandomnessRequestedEvent {
+    eventName: 'RandomnessRequested'
+    args: FulfilmentRequest & {
+        feePaid: bigint
+        effectiveFeePerGas: bigint
+    }
+}
+
+export interface RandomnessFulfilledEvent {
+    eventName: 'RandomnessFulfilled'
+    args: {
+        requestId: bigint
+        randomness: bigint
+        callbackSuccess: boolean
+        actualGasUsed: bigint
+    }
+}
+
+export interface RandomnessCallbackFailedEvent {
+    eventName: 'RandomnessCallbackFailed'
+    args: {
+        requestId: bigint
+        retdata: Hex
+        gasLimit: bigint
+        actualGasUsed: bigint
+    }
+}
+
+/// Request lifecycle events emitted by `Anyrand`
+export type AnyrandEvent =
+    RandomnessRequestedEvent | RandomnessFulfilledEvent | RandomnessCallbackFailedEvent
+
+export const ANYRAND_EVENT_NAMES: ReadonlyArray<AnyrandEvent['eventName']> = [
+    'RandomnessRequested',
+    'RandomnessFulfilled',
+    'RandomnessCallbackFailed',
+]
@@ -0,0 +1,378 @@
+import {
+    Abi,
+    Address,
+    BaseError,
+    ContractFunctionRevertedError,
+    PublicClient,
+    WalletClient,
+    decodeErrorResult,
+    decodeEventLog,
+    decodeFunctionResult,
+    encodeAbiParameters,
+    encodeFunctionData,
+    isAddressEqual,
+    isHex,
+    keccak256,
+    numberToHex,
+    zeroAddress,
+} from 'viem'
+import { anyrandAbi, anyrandConsumerAbi, drandBeaconAbi } from './abi'
+import {
+    CallbackGasEstimate,
+    EstimateCallbackGasParams,
+    SIMULATED_RANDOMNESS,
+    findMinimumGas,
+    getIntrinsicGas,
+    recommendCallbackGasLimit,
+} from './callbackGas'
+import { DecodedAnyrandError, anyrandErrorAbi, describeAnyrandError, nameErrorArgs } from './errors'
+import {
+    FEE_SCENARIOS,
+    GetRequestQuoteOptions,
+    RequestQuote,
+    buildRequestQuote,
+    getQuoteGasPrices,
+    getQuoteTxFees,
+} from './quote'
+import { getRound } from './round'
+import {
+    ANYRAND_EVENT_NAMES,
+    AnyrandEvent,
+    BeaconInfo,
+    BeaconSignature,
+    FulfilmentRequest,
+    Hex,
+    RequestPrice,
+    RequestRandomnessParams,
+    RequestState,
+    RoundFulfilment,
+} from './types'
+
+/// Decode a log into one of the request lifecycle events, or null if the log
+/// is some other event. Does not check the emitting address.
+export function decodeAnyrandLog(log: { topics: readonly Hex[]; data: Hex }): AnyrandEvent | null {
+    let decoded
+    try {
+        decoded = decodeEventLog({
+            abi: anyrandAbi,
+            topics: log.topics as [Hex, ...Hex[]],
+            data: log.data,
+        })
+    } catch {
+        return null
+    }
+    if (!(ANYRAND_EVENT_NAMES as string[]).includes(decoded.eventName)) {
+        return null
+    }
+    return decoded as AnyrandEvent
+}
+
+/// Decode revert data into one of the exported contracts' errors (or a reason
+/// string or panic), or null if it's none of them
+export function decodeAnyrandError(data: Hex): DecodedAnyrandError | null {
+    let decoded
+    try {
+        decoded = decodeErrorResult({ abi: anyrandErrorAbi, data })
+    } catch {
+        return null
+    }
+    return describeAnyrandError(
+        decoded.errorName,
+        nameErrorArgs(decoded.abiItem.inputs, decoded.args ?? []),
+    )
+}
+
+/// Revert data of a failed call or transaction, if the node returned any
+export function getRevertData(error: unknown): Hex | undefined {
+    if (!(error instanceof BaseError)) return undefined
+    const withData = error.walk(
+        (err) => typeof (err as { data?: unknown }).data !== 'undefined',
+    ) as { data?: Hex | { data?: Hex } } | null
+    const data = typeof withData?.data === 'object' ? withData.data.data : withData?.data
+    return isHex(data) && data !== '0x' ? data : undefined
+}
+
+/// Decode the contract error that a viem call or transaction failed with. Custom
+/// errors of other contracts that a call reverts with (e.g. the beacon's) can
+/// only be decoded if they're in the ABI it was called with, e.g. by including
+/// `anyrandErrorAbi`.
+export function getAnyrandError(error: unknown): DecodedAnyrandError | null {
+    // Reverts of contract calls are already decoded, with the called contract's ABI
+    const reverted =
+        error instanceof BaseError
+            ? error.walk((err) => err instanceof ContractFunctionRevertedError)
+            : null
+    if (reverted instanceof ContractFunctionRevertedError && reverted.data) {
+        const { errorName, abiItem, args } = reverted.data
+        const { inputs } = abiItem as Extract<Abi[number], { type: 'error' }>
+        return describeAnyrandError(errorName, nameErrorArgs(inputs, args ?? []))
+    }
+    const data = getRevertData(error)
+    return data ? decodeAnyrandError(data) : null
+}
+
+/// Anyrand client for viem. Writes require a wallet client with an account.
+export class AnyrandViemClient {
+    /// Beacons are immutable, so their details only need to be fetched once
+    private readonly beacons = new Map<string, Promise<BeaconInfo>>()
+
+    constructor(
+        public readonly address: Address,
+        public readonly publicClient: PublicClient,
+        public readonly walletClient?: WalletClient,
+    ) {}
+
+    /// Price of a request at the given gas price. The contract prices requests
+    /// using the gas price of the call, so this should be the gas price the
+    /// request will be sent with.
+    async getRequestPrice(callbackGasLimit: bigint, gasPrice?: bigint): Promise<RequestPrice> {
+        const { data } = await this.publicClient.call({
+            to: this.address,
+            data: encodeFunctionData({
+                abi: anyrandAbi,
+                functionName: 'getRequestPrice',
+                args: [callbackGasLimit],
+            }),
+            gasPrice,
+        })
+        const [totalPrice, effectiveFeePerGas] = decodeFunctionResult({
+            abi: anyrandAbi,
+            functionName: 'getRequestPrice',
+            data: data!,
+        })
+        return { totalPrice, effectiveFeePerGas }
+    }
+
+    /// Quote the exact request price in each fee scenario. A request is only
+    /// priced as quoted if it's sent with the scenario's gas price, see
+    /// `getQuoteTxFees`.
+    async getRequestQuote(
+        callbackGasLimit: bigint,
+        { gasPrice, fastGasPriceBps }: GetRequestQuoteOptions = {},
+    ): Promise<RequestQuote> {
+        const [currentGasPrice, maxFeePerGas] = await Promise.all([
+            gasPrice ?? this.publicClient.getGasPrice(),
+            this.publicClient.readContract({
+                address: this.address,
+                abi: anyrandAbi,
+                functionName: 'maxFeePerGas',
+            }),
+        ])
+        const gasPrices = getQuoteGasPrices(currentGasPrice, maxFeePerGas, fastGasPriceBps)
+        const [l1Price, current, fast, capped] = await Promise.all(
+            [0n, ...FEE_SCENARIOS.map((scenario) => gasPrices[scenario])].map((price) =>
+                this.getRequestPrice(callbackGasLimit, price),
+            ),
+        )
+        return buildRequestQuote(
+            callbackGasLimit,
+            maxFeePerGas,
+            gasPrices,
+            { current, fast, capped },
+            l1Price,
+        )
+    }
+
+    async getRequestState(requestId: bigint): Promise<RequestState> {
+        return this.publicClient.readContract({
+            address: this.address,
+            abi: anyrandAbi,
+            functionName: 'getRequestState',
+            args: [requestId],
+        })
+    }
+
+    /// Details of the beacon with this public key hash, or the current beacon
+    async getBeacon(pubKeyHash?: Hex): Promise<BeaconInfo> {
+        const publicKeyHash =
+            pubKeyHash ||
+            (await this.publicClient.readContract({
+                address: this.address,
+                abi: anyrandAbi,
+                functionName: 'currentBeaconPubKeyHash',
+            }))
+        const key = publicKeyHash.toLowerCase()
+        let beacon = this.beacons.get(key)
+        if (!beacon) {
+            beacon = this.fetchBeacon(publicKeyHash)
+            this.beacons.set(key, beacon)
+            beacon.catch(() => this.beacons.delete(key))
+        }
+        return beacon
+    }
+
+    private async fetchBeacon(publicKeyHash: Hex): Promise<BeaconInfo> {
+        const address = await this.publicClient.readContract({
+            address: this.address,
+            abi: anyrandAbi,
+            functionName: 'beacon',
+            args: [publicKeyHash],
+        })
+        if (address === zeroAddress) {
+            throw new Error(`Unknown beacon: ${publicKeyHash}`)
+        }
+        const read = (functionName: 'publicKey' | 'genesisTimestamp' | 'period') =>
+            this.publicClient.readContract({ address, abi: drandBeaconAbi, functionName })
+        const [publicKey, genesisTimestamp, period] = await Promise.all([
+            read('publicKey'),
+            read('genesisTimestamp'),
+            read('period'),
+        ])
+        return {
+            address,
+            publicKey: publicKey as Hex,
+            publicKeyHash,
+            genesisTimestamp: genesisTimestamp as bigint,
+            period: period as bigint,
+        }
+    }
+
+    /// Round that a request made now with this deadline would be assigned
+    async getRound(deadline: bigint) {
+        const { genesisTimestamp, period } = await this.getBeacon()
+        return getRound(genesisTimestamp, deadline, period)
+    }
+
+    /// Recommend a callback gas limit for a consumer, by simulating Anyrand
+    /// calling its `receiveRandomness`. Throws if the callback reverts even
+    /// with `maxCallbackGasLimit`.
+    async estimateCallbackGas({
+        consumer,
+        requestId,
+        inflightMappingSlot,
+        marginBps,
+    }: EstimateCallbackGasParams): Promise<CallbackGasEstimate> {
+        const [maxCallbackGasLimit, id] = await Promise.all([
+            this.publicClient.readContract({
+                address: this.address,
+                abi: anyrandAbi,
+                functionName: 'maxCallbackGasLimit',
+            }),
+            requestId ??
+                this.publicClient.readContract({
+                    address: this.address,
+                    abi: anyrandAbi,
+                    functionName: 'nextRequestId',
+                }),
+        ])
+        const data = encodeFunctionData({
+            abi: anyrandConsumerAbi,
+            functionName: 'receiveRandomness',
+            args: [id, SIMULATED_RANDOMNESS],
+        })
+        const intrinsicGas = getIntrinsicGas(data)
+        const stateOverride =
+            typeof inflightMappingSlot === 'undefined'
+                ? undefined
+                : [
+                      {
+                          address: consumer,
+                          stateDiff: [
+                              {
+                                  slot: keccak256(
+                                      encodeAbiParameters(
+                                          [{ type: 'uint256' }, { type: 'uint256' }],
+                                          [id, inflightMappingSlot],
+                                      ),
+                                  ),
+                                  value: numberToHex(1, { size: 32 }),
+                              },
+                          ],
+                      },
+                  ]
+
+        let lastError: unknown
+        const gasUsed = await findMinimumGas(async (gas) => {
+            try {
+                await this.publicClient.call({
+                    account: this.address,
+                    to: consumer,
+                    data,
+                    gas: gas + intrinsicGas,
+                    stateOverride,
+                })
+                return true
+            } catch (err) {
+                lastError = err
+                return false
+            }
+        }, maxCallbackGasLimit)
+        if (gasUsed === null) {
+            throw new Error(
+                `Callback reverts even with the maximum gas limit of ${maxCallbackGasLimit}: ${lastError}`,
+            )
+        }
+        return recommendCallbackGasLimit(gasUsed, maxCallbackGasLimit, marginBps)
+    }
+
+    /// Send a request, returning the transaction hash
+    async requestRandomness({
+        deadline,
+        callbackGasLimit,
+        value,
+        gasPrice,
+    }: RequestRandomnessParams) {
+        const walletClient = this.getWalletClient()
+        if (typeof value === 'undefined') {
+            gasPrice ??= await this.publicClient.getGasPrice()
+            ;({ totalPrice: value } = await this.getRequestPrice(callbackGasLimit, gasPrice))
+        }
+        return walletClient.writeContract({
+            address: this.address,
+            abi: anyrandAbi,
+            functionName: 'requestRandomness',
+            args: [deadline, callbackGasLimit],
+            value,
+            ...(typeof gasPrice === 'undefined' ? {} : getQuoteTxFees({ gasPrice })),
+            account: walletClient.account!,
+            chain: walletClient.chain,
+        })
+    }
+
+    /// Fulfil a request, returning the transaction hash
+    async fulfillRandomness(
+        { requestId, requester, pubKeyHash, round, callbackGasLimit }: FulfilmentRequest,
+        signature: BeaconSignature,
+    ) {
+        const walletClient = this.getWalletClient()
+        return walletClient.writeContract({
+            address: this.address,
+            abi: anyrandAbi,
+            functionName: 'fulfillRandomness',
+            args: [requestId, requester, pubKeyHash, round, callbackGasLimit, signature],
+            account: walletClient.account!,
+            chain: walletClient.chain,
+        })
+    }
+
+    /// Fulfil requests in a single transaction, verifying each round's
+    /// signature once (see `groupByRound`), returning the transaction hash.
+    /// Requests that are no longer pending are skipped by the contract.
+    async fulfillRandomnessBatch(fulfilments: ReadonlyArray<RoundFulfilment>) {
+        const walletClient = this.getWalletClient()
+        return walletClient.writeContract({
+            address: this.address,
+            abi: anyrandAbi,
+            functionName: 'fulfillRandomnessBatch',
+            args: [fulfilments],
+            account: walletClient.account!,
+            chain: walletClient.chain,
+        })
+    }
+
+    /// Decode the request lifecycle events emitted by this contract, e.g. from
+    /// a transaction receipt
+    decodeEvents(logs: ReadonlyArray<{ address: Address; topics: readonly Hex[]; data: Hex }>) {
+        return logs
+            .filter((log) => isAddressEqual(log.address, this.address))
+            .map(decodeAnyrandLog)
+            .filter((event): event is AnyrandEvent => event !== null)
+    }
+
+    private getWalletClient() {
+        if (!this.walletClient?.account) {
+            throw new Error('A wallet client with an account is required to send transactions')
+        }
+        return this.walletClient
+    }
+}
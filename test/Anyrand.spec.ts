@@ -25,6 +25,7 @@ import {
 import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
 import { Wallet, ZeroAddress, keccak256, parseEther, parseUnits, randomBytes } from 'ethers'
 import { expect } from 'chai'
+import { anyValue } from '@nomicfoundation/hardhat-chai-matchers/withArgs'
 import { bn254 } from '@kevincharm/noble-bn254-drand'
 import { deployAnyrandStack, G2, getHashedRoundMsg, getRound } from './helpers'
 import { RequestState } from '../lib/RequestState'
@@ -648,6 +649,245 @@ describe('Anyrand', () => {
         })
     })
 
+    describe('fulfillRandomnessBatch', () => {
+        let gasPrice: bigint
+        let callbackGasLimit: bigint
+        let requestPrice: bigint
+        beforeEach(async () => {
+            ;({ gasPrice } = await ethers.provider.getFeeData().then((res) => ({
+                gasPrice: res.gasPrice!,
+            })))
+            callbackGasLimit = 100_000n
+            ;[requestPrice] = await anyrand.getRequestPrice(callbackGasLimit, { gasPrice })
+        })
+
+        /// Make a request from `requester` (the consumer by default), returning
+        /// what's needed to fulfil it in a batch
+        async function request(
+            deadline: bigint,
+            requester: { getAddress(): Promise<string> } & Pick<
+                AnyrandConsumer,
+                'getRandom'
+            > = consumer,
+        ) {
+            const requestId = await anyrand.nextRequestId()
+            await requester.getRandom(deadline, callbackGasLimit, { value: requestPrice, gasPrice })
+            return {
+                requestId,
+                requester: await requester.getAddress(),
+                callbackGasLimit,
+                round: getRound(beaconGenesisTimestamp, deadline, beaconPeriod),
+            }
+        }
+
+        function sign(round: bigint, secretKey = beaconSecretKey): [bigint, bigint] {
+            const signature = bn254
+                .signShortSignature(getHashedRoundMsg(round), secretKey)
+                .toAffine()
+            return [signature.x, signature.y]
+        }
+
+        /// Group requests into fulfilments of the rounds they target
+        function fulfilments(requests: Awaited<ReturnType<typeof request>>[]) {
+            const rounds = [...new Set(requests.map((req) => req.round))]
+            return rounds.map((round) => ({
+                pubKeyHash,
+                round,
+                signature: sign(round),
+                requests: requests
+                    .filter((req) => req.round === round)
+                    .map(({ requestId, requester, callbackGasLimit }) => ({
+                        requestId,
+                        requester,
+                        callbackGasLimit,
+                    })),
+            }))
+        }
+
+        async function expectedRandomness(
+            { requestId, requester }: { requestId: bigint; requester: string },
+            [sig0, sig1]: [bigint, bigint],
+        ) {
+            const chainId = await ethers.provider.getNetwork().then((network) => network.chainId)
+            return BigInt(
+                keccak256(
+                    abi.encode(
+                        ['uint256', 'uint256', 'uint256', 'address', 'uint256', 'address'],
+                        [sig0, sig1, chainId, await anyrand.getAddress(), requestId, requester],
+                    ),
+                ),
+            )
+        }
+
+        it('should fulfil requests across multiple rounds', async () => {
+            const deadline = BigInt(await time.latest()) + 30n
+            const requests = [
+                await request(deadline),
+                await request(deadline + 10n),
+                await request(deadline),
+                await request(deadline + 10n),
+            ]
+            const batch = fulfilments(requests)
+            expect(batch).to.have.length(2)
+
+            const tx = anyrand.fulfillRandomnessBatch(batch)
+            for (const req of requests) {
+                const signature = batch.find((f) => f.round === req.round)!.signature
+                const randomness = await expectedRandomness(req, signature)
+                await expect(tx)
+                    .to.emit(anyrand, 'RandomnessFulfilled')
+                    .withArgs(req.requestId, randomness, true, (x: bigint) => x <= callbackGasLimit)
+                expect(await consumer.randomness(req.requestId)).to.eq(randomness)
+                expect(await anyrand.getRequestState(req.requestId)).to.eq(RequestState.Fulfilled)
+            }
+        })
+
+        it('should not revert if a callback fails', async () => {
+            const deadline = BigInt(await time.latest()) + 30n
+            const revertingCallback = await new RevertingCallback__factory(deployer).deploy(
+                await anyrand.getAddress(),
+            )
+            const failing = await request(deadline, revertingCallback)
+            const succeeding = await request(deadline)
+
+            const tx = anyrand.fulfillRandomnessBatch(fulfilments([failing, succeeding]))
+            await expect(tx)
+                .to.emit(anyrand, 'RandomnessCallbackFailed')
+                .withArgs(
+                    failing.requestId,
+                    /** AlwaysBeErroring() */
+                    '0x3166292600000000000000000000000000000000000000000000000000000000',
+                    callbackGasLimit,
+                    (x: bigint) => x <= callbackGasLimit,
+                )
+            await expect(tx)
+                .to.emit(anyrand, 'RandomnessFulfilled')
+                .withArgs(succeeding.requestId, anyValue, true, anyValue)
+            expect(await anyrand.getRequestState(failing.requestId)).to.eq(RequestState.Failed)
+            expect(await anyrand.getRequestState(succeeding.requestId)).to.eq(
+                RequestState.Fulfilled,
+            )
+        })
+
+        it('should skip requests that are no longer pending', async () => {
+            const deadline = BigInt(await time.latest()) + 30n
+            const alreadyFulfilled = await request(deadline)
+            const pending = await request(deadline)
+            await anyrand.fulfillRandomness(
+                alreadyFulfilled.requestId,
+                alreadyFulfilled.requester,
+                pubKeyHash,
+                alreadyFulfilled.round,
+                callbackGasLimit,
+                sign(alreadyFulfilled.round),
+            )
+
+            const receipt = await anyrand
+                .fulfillRandomnessBatch(fulfilments([alreadyFulfilled, pending]))
+                .then((tx) => tx.wait())
+            const fulfilled = receipt!.logs
+                .map((log) => anyrand.interface.parseLog(log))
+                .filter((log) => log?.name === 'RandomnessFulfilled')
+                .map((log) => log!.args.requestId)
+            expect(fulfilled).to.deep.eq([pending.requestId])
+            expect(await anyrand.getRequestState(pending.requestId)).to.eq(RequestState.Fulfilled)
+        })
+
+        it('should revert if callback tries to reenter', async () => {
+            const reentrantFulfiller = await new ReentrantFulfiller__factory(deployer).deploy(
+                await anyrand.getAddress(),
+            )
+            await setBalance(await reentrantFulfiller.getAddress(), parseEther('10'))
+            const deadline = BigInt(await time.latest()) + 30n
+            const requestId = await anyrand.nextRequestId()
+            await reentrantFulfiller.getRandom(deadline, callbackGasLimit)
+            const round = getRound(beaconGenesisTimestamp, deadline, beaconPeriod)
+
+            await expect(
+                anyrand.fulfillRandomnessBatch(
+                    fulfilments([
+                        {
+                            requestId,
+                            requester: await reentrantFulfiller.getAddress(),
+                            callbackGasLimit,
+                            round,
+                        },
+                    ]),
+                ),
+            )
+                .to.emit(anyrand, 'RandomnessCallbackFailed')
+                .withArgs(
+                    requestId,
+                    /** ReentrancyGuardReentrantCall() */
+                    '0x3ee5aeb500000000000000000000000000000000000000000000000000000000',
+                    callbackGasLimit,
+                    (x: bigint) => x <= callbackGasLimit,
+                )
+        })
+
+        it('should revert if a round signature is invalid', async () => {
+            const deadline = BigInt(await time.latest()) + 30n
+            const requests = [await request(deadline), await request(deadline + 10n)]
+            const batch = fulfilments(requests)
+            batch[1].signature = sign(batch[1].round, bn254.utils.randomPrivateKey())
+
+            await expect(anyrand.fulfillRandomnessBatch(batch)).to.be.revertedWithCustomError(
+                drandBeacon,
+                'InvalidSignature',
+            )
+            for (const { requestId } of requests) {
+                expect(await anyrand.getRequestState(requestId)).to.eq(RequestState.Pending)
+            }
+        })
+
+        it('should revert if request hash is invalid', async () => {
+            const deadline = BigInt(await time.latest()) + 30n
+            const requests = [await request(deadline), await request(deadline)]
+            const batch = fulfilments(requests)
+            batch[0].requests[1].callbackGasLimit += 1n /** wrong gas limit */
+
+            await expect(anyrand.fulfillRandomnessBatch(batch)).to.be.revertedWithCustomError(
+                anyrand,
+                'InvalidRequestHash',
+            )
+            for (const { requestId } of requests) {
+                expect(await anyrand.getRequestState(requestId)).to.eq(RequestState.Pending)
+            }
+        })
+
+        it('should cost less gas than fulfilling each request on its own', async () => {
+            const n = 5
+            const deadline = BigInt(await time.latest()) + 60n
+            const requests: Awaited<ReturnType<typeof request>>[] = []
+            for (let i = 0; i < 2 * n; i++) {
+                requests.push(await request(deadline))
+            }
+            const [single, batched] = [requests.slice(0, n), requests.slice(n)]
+
+            let singleGasUsed = 0n
+            for (const req of single) {
+                const receipt = await anyrand
+                    .fulfillRandomness(
+                        req.requestId,
+                        req.requester,
+                        pubKeyHash,
+                        req.round,
+                        callbackGasLimit,
+                        sign(req.round),
+                    )
+                    .then((tx) => tx.wait())
+                singleGasUsed += receipt!.gasUsed
+            }
+            const batchReceipt = await anyrand
+                .fulfillRandomnessBatch(fulfilments(batched))
+                .then((tx) => tx.wait())
+
+            // Each request in a batch saves a BLS pairing check & a tx's
+            // intrinsic gas, so it should come in under half the cost
+            expect(batchReceipt!.gasUsed * 2n).to.be.lt(singleGasUsed)
+        })
+    })
+
     describe('setBeacon', () => {
         let newBeacon: DrandBeacon
         beforeEach(async () => {
@@ -0,0 +1,324 @@
+import { ethers } from 'hardhat'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { bn254 } from '@kevincharm/noble-bn254-drand'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { Anyrand, AnyrandConsumer__factory } from '../typechain-types'
+import { deployAnyrandStack, getHashedRoundMsg } from './helpers'
+import { generateSdkAbi, generateSdkRegistry } from '../scripts/generateSdk'
+import {
+    ANYRAND_CONSUMER_RANDOMNESS_SLOT,
+    ANYRAND_DEPLOYMENTS,
+    Hex,
+    RandomnessRequestedEvent,
+    RequestState,
+    getLatestRound,
+    getRound,
+    getQuoteTxFees,
+    getRoundTimestamp,
+    groupByRound,
+    recommendCallbackGasLimit,
+} from '../sdk/src'
+import { getDeployment } from '../lib/deployments'
+import { AnyrandEthersClient, getAnyrandError } from '../sdk/src/ethers'
+
+describe('anyrand-sdk', () => {
+    let deployer: SignerWithAddress
+    let anyrand: Anyrand
+    let client: AnyrandEthersClient
+    let beaconSecretKey: Uint8Array
+    let genesisTimestamp: bigint
+    const period = 3n
+    const callbackGasLimit = 100_000n
+
+    beforeEach(async () => {
+        ;[deployer] = await ethers.getSigners()
+        beaconSecretKey = bn254.utils.randomPrivateKey()
+        genesisTimestamp = BigInt(await time.latest())
+        ;({ anyrand } = await deployAnyrandStack({
+            deployer,
+            beacon: {
+                pubKey: bn254.G2.ProjectivePoint.fromPrivateKey(beaconSecretKey).toHex(),
+                genesisTimestamp,
+                period,
+            },
+        }))
+        client = new AnyrandEthersClient(await anyrand.getAddress(), deployer)
+    })
+
+    it('is generated from the exported ABIs', async () => {
+        const abiPath = path.resolve(__dirname, '../sdk/src/abi.ts')
+        expect(await fs.readFile(abiPath, 'utf-8')).to.eq(
+            await generateSdkAbi(),
+            'sdk/src/abi.ts is stale, run `yarn sdk:generate`',
+        )
+    })
+
+    it('is generated from the Ignition deployments', async () => {
+        const registryPath = path.resolve(__dirname, '../sdk/src/registry.ts')
+        expect(await fs.readFile(registryPath, 'utf-8')).to.eq(
+            await generateSdkRegistry(),
+            'sdk/src/registry.ts is stale, run `yarn sdk:generate`',
+        )
+    })
+
+    it('resolves deployments from the registry and env', async () => {
+        const [scrollSepolia] = ANYRAND_DEPLOYMENTS.filter(({ chainId }) => chainId === 534351)
+        expect(getDeployment(534351n, {})).to.deep.eq(scrollSepolia)
+        // Overriding the coordinator drops the registered addresses of other contracts
+        expect(getDeployment(534351, { ANYRAND_SCROLL_SEPOLIA_ADDRESS: deployer.address })).to.eq(
+            undefined,
+        )
+
+        expect(getDeployment(31337, {})).to.eq(undefined)
+        const local = getDeployment(31337, {
+            ANYRAND_LOCAL_ADDRESS: await anyrand.getAddress(),
+            BEACON_LOCAL_ADDRESS: deployer.address,
+            GAS_STATION_LOCAL_ADDRESS: deployer.address,
+        })
+        expect(local?.anyrand).to.eq(await anyrand.getAddress())
+        expect(local?.deployBlock).to.eq(0n)
+    })
+
+    it('computes rounds like the contract', async () => {
+        for (const deadline of [
+            genesisTimestamp + 1n,
+            genesisTimestamp + 3n,
+            genesisTimestamp + 31n,
+        ]) {
+            const round = getRound(genesisTimestamp, deadline, period)
+            expect(round).to.eq(await anyrand.getRound(genesisTimestamp, deadline, period))
+        }
+        expect(await client.getRound(genesisTimestamp + 31n)).to.eq(11n)
+    })
+
+    it('converts between rounds and timestamps', async () => {
+        expect(getLatestRound(genesisTimestamp, period, genesisTimestamp - 1n)).to.eq(0n)
+        for (const round of [1n, 2n, 11n]) {
+            const timestamp = getRoundTimestamp(genesisTimestamp, period, round)
+            expect(getLatestRound(genesisTimestamp, period, timestamp)).to.eq(round)
+            expect(getLatestRound(genesisTimestamp, period, timestamp + period - 1n)).to.eq(round)
+            // Every deadline that rounds up to this round is at or after the round is published
+            const latestDeadline = genesisTimestamp + round * period
+            expect(getRound(genesisTimestamp, latestDeadline, period)).to.eq(round)
+            expect(getRound(genesisTimestamp, timestamp + 1n, period)).to.eq(round)
+        }
+    })
+
+    it('requests randomness', async () => {
+        const gasPrice = await ethers.provider.getFeeData().then((fee) => fee.gasPrice!)
+        const price = await client.getRequestPrice(callbackGasLimit, { gasPrice })
+        expect(price.totalPrice).to.eq(
+            (await anyrand.getRequestPrice(callbackGasLimit, { gasPrice }))[0],
+        )
+
+        const deadline = BigInt(await time.latest()) + 30n
+        const receipt = await client
+            .requestRandomness({ deadline, callbackGasLimit }, { gasPrice })
+            .then((tx) => tx.wait(1))
+        const [requested] = client.decodeEvents(receipt!.logs) as [RandomnessRequestedEvent]
+        expect(requested.eventName).to.eq('RandomnessRequested')
+        expect(requested.args.requester).to.eq(deployer.address)
+        expect(requested.args.round).to.eq(await client.getRound(deadline))
+        expect(requested.args.feePaid).to.eq(price.totalPrice)
+        expect(await client.getRequestState(requested.args.requestId)).to.eq(RequestState.Pending)
+
+        const beacon = await client.getBeacon(requested.args.pubKeyHash)
+        expect(beacon.address).to.eq(await anyrand.beacon(requested.args.pubKeyHash))
+    })
+
+    it('quotes exact request prices', async () => {
+        const gasPrice = await ethers.provider.getFeeData().then((fee) => fee.gasPrice!)
+        const maxFeePerGas = await anyrand.maxFeePerGas()
+        const quote = await client.getRequestQuote(callbackGasLimit, { gasPrice })
+        expect(quote.maxFeePerGas).to.eq(maxFeePerGas)
+        const { current, fast, capped } = quote.scenarios
+        expect(current.gasPrice).to.eq(gasPrice)
+        expect(fast.gasPrice).to.eq((gasPrice * 15000n) / 10000n)
+        expect(capped.gasPrice).to.eq(maxFeePerGas)
+        for (const scenario of [current, fast, capped]) {
+            expect(scenario.value).to.eq(
+                (
+                    await anyrand.getRequestPrice(callbackGasLimit, { gasPrice: scenario.gasPrice })
+                )[0],
+            )
+            expect(scenario.capped).to.eq(false)
+            // GasStationEthereum doesn't charge an L1 data fee
+            expect(scenario.l1Fee).to.eq(0n)
+            expect(scenario.l2Fee).to.eq(scenario.value)
+        }
+
+        // Above maxFeePerGas, the price is capped
+        const expensive = await client.getRequestQuote(callbackGasLimit, {
+            gasPrice: maxFeePerGas * 2n,
+        })
+        expect(expensive.scenarios.current.capped).to.eq(true)
+        expect(expensive.scenarios.current.value).to.eq(maxFeePerGas * callbackGasLimit)
+
+        // The coordinator accepts exactly the quoted value when sent at the quoted gas price
+        const deadline = BigInt(await time.latest()) + 30n
+        const receipt = await client
+            .requestRandomness(
+                { deadline, callbackGasLimit, value: fast.value },
+                getQuoteTxFees(fast),
+            )
+            .then((tx) => tx.wait(1))
+        expect(receipt?.status).to.eq(1)
+    })
+
+    it('fulfils randomness', async () => {
+        const consumer = await new AnyrandConsumer__factory(deployer).deploy(client.address)
+        const gasPrice = await ethers.provider.getFeeData().then((fee) => fee.gasPrice!)
+        const { totalPrice } = await client.getRequestPrice(callbackGasLimit, { gasPrice })
+        const receipt = await consumer
+            .getRandom(BigInt(await time.latest()) + 30n, callbackGasLimit, {
+                value: totalPrice,
+                gasPrice,
+            })
+            .then((tx) => tx.wait(1))
+        const [{ args: request }] = client.decodeEvents(receipt!.logs) as [RandomnessRequestedEvent]
+        expect(request.requester).to.eq(await consumer.getAddress())
+
+        await time.increaseTo(getRoundTimestamp(genesisTimestamp, period, request.round))
+        const { x, y } = bn254
+            .signShortSignature(getHashedRoundMsg(request.round), beaconSecretKey)
+            .toAffine()
+        const fulfilReceipt = await client
+            .fulfillRandomness(request, [x, y])
+            .then((tx) => tx.wait(1))
+        const [fulfilled] = client.decodeEvents(fulfilReceipt!.logs)
+        expect(fulfilled.eventName).to.eq('RandomnessFulfilled')
+        expect(fulfilled.args.requestId).to.eq(request.requestId)
+        expect(await client.getRequestState(request.requestId)).to.eq(RequestState.Fulfilled)
+    })
+
+    it('fulfils randomness in batches', async () => {
+        const consumer = await new AnyrandConsumer__factory(deployer).deploy(client.address)
+        const gasPrice = await ethers.provider.getFeeData().then((fee) => fee.gasPrice!)
+        const { totalPrice } = await client.getRequestPrice(callbackGasLimit, { gasPrice })
+        const deadline = BigInt(await time.latest()) + 30n
+        const requests: RandomnessRequestedEvent['args'][] = []
+        for (const delta of [0n, 0n, period]) {
+            const receipt = await consumer
+                .getRandom(deadline + delta, callbackGasLimit, { value: totalPrice, gasPrice })
+                .then((tx) => tx.wait(1))
+            const [{ args }] = client.decodeEvents(receipt!.logs) as [RandomnessRequestedEvent]
+            requests.push(args)
+        }
+
+        const groups = groupByRound(requests)
+        expect(groups.map((group) => group.requests.length)).to.deep.eq([2, 1])
+        await time.increaseTo(getRoundTimestamp(genesisTimestamp, period, groups[1].round))
+        const fulfilments = groups.map(({ pubKeyHash, round, requests }) => {
+            const { x, y } = bn254
+                .signShortSignature(getHashedRoundMsg(round), beaconSecretKey)
+                .toAffine()
+            return { pubKeyHash: pubKeyHash as Hex, round, signature: [x, y] as const, requests }
+        })
+        const receipt = await client.fulfillRandomnessBatch(fulfilments).then((tx) => tx.wait(1))
+        const fulfilled = client
+            .decodeEvents(receipt!.logs)
+            .filter((event) => event.eventName === 'RandomnessFulfilled')
+        expect(fulfilled.map((event) => event.args.requestId)).to.deep.eq(
+            groups.flatMap((group) => group.requests.map((request) => request.requestId)),
+        )
+    })
+
+    it('decodes contract errors', async () => {
+        const fast = (await client.getRequestQuote(callbackGasLimit)).scenarios.fast
+        const deadline = BigInt(await time.latest()) + 30n
+        const underpaid = await client
+            .requestRandomness({ deadline, callbackGasLimit, value: 1n }, getQuoteTxFees(fast))
+            .catch((err) => err)
+        expect(getAnyrandError(underpaid)).to.deep.include({
+            name: 'IncorrectPayment',
+            code: 'INCORRECT_PAYMENT',
+            args: { got: 1n, want: fast.value },
+        })
+        expect(getAnyrandError(underpaid)!.userMessage).to.match(
+            /^The payment of 0\.000000000000000001 ETH doesn't match the request price of 0\.\d+ ETH\./,
+        )
+
+        const consumer = await new AnyrandConsumer__factory(deployer).deploy(client.address)
+        const receipt = await consumer
+            .getRandom(deadline, callbackGasLimit, { value: fast.value, ...getQuoteTxFees(fast) })
+            .then((tx) => tx.wait(1))
+        const [{ args: request }] = client.decodeEvents(receipt!.logs) as [RandomnessRequestedEvent]
+        await time.increaseTo(getRoundTimestamp(genesisTimestamp, period, request.round))
+
+        // Errors of the beacon bubble up through the coordinator
+        const wrongRound = bn254
+            .signShortSignature(getHashedRoundMsg(request.round + 1n), beaconSecretKey)
+            .toAffine()
+        const invalidSignature = await client
+            .fulfillRandomness(request, [wrongRound.x, wrongRound.y])
+            .catch((err) => err)
+        expect(getAnyrandError(invalidSignature)).to.deep.include({
+            code: 'INVALID_SIGNATURE',
+        })
+
+        const { x, y } = bn254
+            .signShortSignature(getHashedRoundMsg(request.round), beaconSecretKey)
+            .toAffine()
+        await client.fulfillRandomness(request, [x, y]).then((tx) => tx.wait(1))
+        const fulfilledTwice = await client.fulfillRandomness(request, [x, y]).catch((err) => err)
+        expect(getAnyrandError(fulfilledTwice)).to.deep.include({
+            code: 'INVALID_REQUEST_STATE',
+            args: { state: BigInt(RequestState.Fulfilled) },
+            userMessage: 'The request has already been fulfilled.',
+        })
+    })
+
+    it('estimates callback gas limits', async () => {
+        expect(recommendCallbackGasLimit(40_000n, 1_000_000n, 2500n)).to.deep.eq({
+            gasUsed: 40_000n,
+            recommended: 50_000n,
+            capped: false,
+        })
+        expect(recommendCallbackGasLimit(900_000n, 1_000_000n).recommended).to.eq(1_000_000n)
+
+        const consumer = await new AnyrandConsumer__factory(deployer).deploy(client.address)
+        const consumerAddress = (await consumer.getAddress()) as `0x${string}`
+        // AnyrandConsumer rejects callbacks for requests it didn't make
+        await expect(client.estimateCallbackGas({ consumer: consumerAddress })).to.be.rejectedWith(
+            'Callback reverts',
+        )
+        const { gasUsed, recommended, capped } = await client.estimateCallbackGas({
+            consumer: consumerAddress,
+            inflightMappingSlot: ANYRAND_CONSUMER_RANDOMNESS_SLOT,
+        })
+        expect(capped).to.eq(false)
+        expect(recommended).to.be.gt(gasUsed)
+
+        // Callbacks succeed with the recommended limit, and run out of gas well below it
+        const gasPrice = await ethers.provider.getFeeData().then((fee) => fee.gasPrice!)
+        for (const [limit, callbackSuccess] of [
+            [recommended, true],
+            [gasUsed / 2n, false],
+        ] as const) {
+            const { totalPrice } = await client.getRequestPrice(limit, { gasPrice })
+            const receipt = await consumer
+                .getRandom(BigInt(await time.latest()) + 30n, limit, {
+                    value: totalPrice,
+                    gasPrice,
+                })
+                .then((tx) => tx.wait(1))
+            const [{ args: request }] = client.decodeEvents(receipt!.logs) as [
+                RandomnessRequestedEvent,
+            ]
+            await time.increaseTo(getRoundTimestamp(genesisTimestamp, period, request.round))
+            const { x, y } = bn254
+                .signShortSignature(getHashedRoundMsg(request.round), beaconSecretKey)
+                .toAffine()
+            const fulfilReceipt = await client
+                .fulfillRandomness(request, [x, y])
+                .then((tx) => tx.wait(1))
+            const fulfilled = client
+                .decodeEvents(fulfilReceipt!.logs)
+                .find(({ eventName }) => eventName === 'RandomnessFulfilled')!
+            expect(fulfilled.args).to.include({ callbackSuccess })
+        }
+    })
+})
@@ -4,6 +4,7 @@ import { ethers } from 'hardhat'
 import { bn254 } from '@kevincharm/noble-bn254-drand'
 import { expect } from 'chai'
 import { G2, getHashedRoundMsg } from './helpers'
+import { hashRound, verifyBeaconRound } from '../lib/bls'
 
 describe('DrandBeacon', () => {
     let deployer: SignerWithAddress
@@ -111,5 +112,32 @@ describe('DrandBeacon', () => {
                 beacon.verifyBeaconRound(round, invalidSignature),
             ).to.be.revertedWithCustomError(beacon, 'InvalidSignature')
         })
+
+        it('should agree with off-chain verification in lib/bls', async () => {
+            const publicKey = await beacon.publicKey()
+            const round = BigInt(Math.floor(Math.random() * 1000))
+            const sign = (key: Uint8Array, r: bigint) => {
+                const { x, y } = bn254.signShortSignature(getHashedRoundMsg(r), key).toAffine()
+                return [x, y] as [bigint, bigint]
+            }
+            expect(hashRound(round).equals(getHashedRoundMsg(round))).to.eq(true)
+
+            const cases: [string, bigint, [bigint, bigint]][] = [
+                ['valid', round, sign(secretKey, round)],
+                ['wrong key', round, sign(bn254.utils.randomPrivateKey(), round)],
+                ['wrong round', round + 1n, sign(secretKey, round)],
+                ['invalid point', round, [2n, 2n]],
+                ['point at infinity', round, [0n, 0n]],
+                // Only the low 64 bits of the round are hashed
+                ['truncated round', round + 2n ** 64n, sign(secretKey, round)],
+            ]
+            for (const [name, r, signature] of cases) {
+                const isValidOnChain = await beacon.verifyBeaconRound(r, signature).then(
+                    () => true,
+                    () => false,
+                )
+                expect(verifyBeaconRound(publicKey, r, signature), name).to.eq(isValidOnChain)
+            }
+        })
     })
 })
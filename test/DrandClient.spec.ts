@@ -0,0 +1,80 @@
+import { expect } from 'chai'
+import http from 'node:http'
+import { AddressInfo } from 'node:net'
+import { DrandSimulator } from '../lib/drandSimulator'
+import { DrandClient, DrandRequestError } from '../lib/drand'
+
+describe('DrandClient', () => {
+    const genesisTime = 1_700_000_000
+    let simulator: DrandSimulator
+    let simulatorUrl: string
+    let faultyServer: http.Server
+    let faultyUrl: string
+    let faultyStatus: number | undefined
+    let faultyHits: number
+
+    beforeEach(async () => {
+        simulator = new DrandSimulator({ seed: 'test', genesisTime, now: () => genesisTime + 30 })
+        simulatorUrl = `http://127.0.0.1:${(await simulator.listen()).port}`
+
+        // Responds with `faultyStatus`, or never responds at all if unset
+        faultyHits = 0
+        faultyStatus = 500
+        faultyServer = http.createServer((_req, res) => {
+            faultyHits++
+            if (typeof faultyStatus !== 'undefined') {
+                res.writeHead(faultyStatus)
+                res.end()
+            }
+        })
+        await new Promise<void>((resolve) => faultyServer.listen(0, '127.0.0.1', resolve))
+        faultyUrl = `http://127.0.0.1:${(faultyServer.address() as AddressInfo).port}`
+    })
+
+    afterEach(async () => {
+        faultyServer.closeAllConnections()
+        await new Promise((resolve) => faultyServer.close(resolve))
+        await simulator.close()
+    })
+
+    it('fails over to the next relay', async () => {
+        const client = new DrandClient({ relays: [faultyUrl, simulatorUrl], backoffMs: 1 })
+        const round = await client.getBeaconRound('evmnet', 5)
+        expect(round.signature).to.eq(simulator.getRound(5).signature)
+        // Initial attempt + 2 retries
+        expect(faultyHits).to.eq(3)
+
+        // Sticks with the relay that worked
+        await client.getBeaconLatestRound('evmnet')
+        expect(faultyHits).to.eq(3)
+    })
+
+    it('does not retry client errors', async () => {
+        faultyStatus = 404
+        const client = new DrandClient({ relays: [faultyUrl, simulatorUrl], backoffMs: 1 })
+        await client.getBeaconInfo('evmnet')
+        expect(faultyHits).to.eq(1)
+    })
+
+    it('times out unresponsive relays', async () => {
+        faultyStatus = undefined
+        const client = new DrandClient({
+            relays: [faultyUrl, simulatorUrl],
+            timeoutMs: 100,
+            retries: 0,
+        })
+        const info = await client.getBeaconInfo('evmnet')
+        expect(info.public_key).to.eq(simulator.info.public_key)
+    })
+
+    it('reports which round and relays failed', async () => {
+        const client = new DrandClient({ relays: [faultyUrl, simulatorUrl], backoffMs: 1 })
+        const err = await client.getBeaconRound('evmnet', 1000).catch((err) => err)
+        expect(err).to.be.instanceOf(DrandRequestError)
+        expect(err.round).to.eq(1000)
+        expect(err.errors.map((e: any) => e.relay)).to.deep.eq([faultyUrl, simulatorUrl])
+        expect(err.errors.map((e: any) => e.status)).to.deep.eq([500, 425])
+        expect(err.message).to.contain(`drand round 1000 of evmnet from ${simulatorUrl}`)
+        expect(err.isRoundUnavailable).to.eq(false)
+    })
+})
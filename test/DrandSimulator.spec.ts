@@ -0,0 +1,82 @@
+import { ethers } from 'hardhat'
+import { expect } from 'chai'
+import { bn254 } from '@kevincharm/noble-bn254-drand'
+import { DrandBeacon, DrandBeacon__factory } from '../typechain-types'
+import { DrandSimulator } from '../lib/drandSimulator'
+import { decodeG1, getDrandBeaconInfo, getDrandBeaconRound } from '../lib/drand'
+
+describe('DrandSimulator', () => {
+    const genesisTime = 1_700_000_000
+    let now: number
+    let simulator: DrandSimulator
+    let drandUrl: string
+    let prevDrandUrl: string | undefined
+    let drandBeacon: DrandBeacon
+
+    beforeEach(async () => {
+        now = genesisTime + 30
+        simulator = new DrandSimulator({
+            seed: 'test',
+            genesisTime,
+            period: 3,
+            now: () => now,
+        })
+        const { port } = await simulator.listen()
+        drandUrl = `http://127.0.0.1:${port}`
+        prevDrandUrl = process.env.DRAND_URL
+        process.env.DRAND_URL = drandUrl
+
+        const info = await getDrandBeaconInfo('evmnet')
+        const pubKey = bn254.G2.ProjectivePoint.fromHex(info.public_key).toAffine()
+        const [deployer] = await ethers.getSigners()
+        drandBeacon = await new DrandBeacon__factory(deployer).deploy(
+            [pubKey.x.c0, pubKey.x.c1, pubKey.y.c0, pubKey.y.c1],
+            info.genesis_time,
+            info.period,
+        )
+    })
+
+    afterEach(async () => {
+        if (typeof prevDrandUrl === 'undefined') {
+            delete process.env.DRAND_URL
+        } else {
+            process.env.DRAND_URL = prevDrandUrl
+        }
+        await simulator.close()
+    })
+
+    it('derives the same key from the same seed', async () => {
+        expect(new DrandSimulator({ seed: 'test' }).info.public_key).to.eq(
+            simulator.info.public_key,
+        )
+        expect(new DrandSimulator({ seed: 'other' }).info.public_key).to.not.eq(
+            simulator.info.public_key,
+        )
+    })
+
+    it('serves rounds that verify on-chain', async () => {
+        const beaconRound = await getDrandBeaconRound('evmnet', 11)
+        expect(beaconRound.round).to.eq(11)
+        await expect(drandBeacon.verifyBeaconRound(11, decodeG1(beaconRound.signature))).to.not.be
+            .reverted
+    })
+
+    it('only serves rounds that have been published', async () => {
+        expect(simulator.latestRound()).to.eq(11)
+        await expect(getDrandBeaconRound('evmnet', 12)).to.be.rejected
+        now += 3
+        expect((await getDrandBeaconRound('evmnet', 12)).round).to.eq(12)
+    })
+
+    it('serves the legacy endpoints', async () => {
+        const latest = await fetch(`${drandUrl}/${simulator.info.chain_hash}/public/latest`).then(
+            (res) => res.json(),
+        )
+        expect(latest.round).to.eq(11)
+        expect(latest.signature).to.eq(simulator.getRound(11).signature)
+        expect(latest.randomness).to.have.lengthOf(64)
+
+        const res = await fetch(`${drandUrl}/public/100`)
+        expect(res.status).to.eq(425)
+    })
+})
@@ -0,0 +1,243 @@
+import { ethers } from 'hardhat'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { bn254 } from '@kevincharm/noble-bn254-drand'
+import { getEventListeners } from 'node:events'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { Anyrand, AnyrandConsumer, AnyrandConsumer__factory } from '../typechain-types'
+import { deployAnyrandStack, getHashedRoundMsg } from './helpers'
+import { GetBeaconSignature, Keeper } from '../lib/keeper/keeper'
+import { FileCheckpointStore } from '../lib/keeper/checkpoint'
+import { ProfitabilityPolicy, decideFulfilment } from '../lib/keeper/profitability'
+import { RequestState } from '../lib/RequestState'
+
+describe('Keeper', () => {
+    let deployer: SignerWithAddress
+    let anyrand: Anyrand
+    let consumer: AnyrandConsumer
+    let beaconSecretKey: Uint8Array
+    let getSignature: GetBeaconSignature
+    let checkpointPath: string
+    const beaconPeriod = 3n
+    const callbackGasLimit = 100_000
+
+    beforeEach(async () => {
+        ;[deployer] = await ethers.getSigners()
+        beaconSecretKey = bn254.utils.randomPrivateKey()
+        ;({ anyrand } = await deployAnyrandStack({
+            deployer,
+            beacon: {
+                pubKey: bn254.G2.ProjectivePoint.fromPrivateKey(beaconSecretKey).toHex(),
+                genesisTimestamp: BigInt(await time.latest()),
+                period: beaconPeriod,
+            },
+        }))
+        consumer = await new AnyrandConsumer__factory(deployer).deploy(await anyrand.getAddress())
+        // Fake beacon: sign rounds locally with the beacon secret key
+        getSignature = async (_pubKeyHash, round) => {
+            const sig = bn254.signShortSignature(getHashedRoundMsg(round), beaconSecretKey)
+            const { x, y } = sig.toAffine()
+            return [x, y]
+        }
+        checkpointPath = path.join(
+            await fs.mkdtemp(path.join(os.tmpdir(), 'anyrand-keeper-')),
+            'checkpoint.json',
+        )
+    })
+
+    async function request(deadlineDelta: bigint) {
+        const [requestPrice] = await anyrand.getRequestPrice(callbackGasLimit, {
+            gasPrice: await ethers.provider.getFeeData().then((fee) => fee.gasPrice!),
+        })
+        const requestId = await anyrand.nextRequestId()
+        const deadline = BigInt(await time.latest()) + deadlineDelta
+        await consumer.getRandom(deadline, callbackGasLimit, { value: requestPrice })
+        return requestId
+    }
+
+    function createKeeper(startBlock?: number, policy?: ProfitabilityPolicy) {
+        return new Keeper({
+            anyrand,
+            getSignature,
+            startBlock,
+            policy,
+            store: new FileCheckpointStore(checkpointPath),
+            log: () => {},
+        })
+    }
+
+    it('fulfils a request once its round is published', async () => {
+        const requestId = await request(30n)
+        const keeper = createKeeper()
+
+        await keeper.tick()
+        expect(keeper.pending.map((req) => req.requestId)).to.deep.eq([requestId])
+        expect(await anyrand.getRequestState(requestId)).to.eq(RequestState.Pending)
+
+        await time.increase(60)
+        await keeper.tick()
+        expect(keeper.pending).to.have.lengthOf(0)
+        expect(await anyrand.getRequestState(requestId)).to.eq(RequestState.Fulfilled)
+        expect(await consumer.randomness(requestId)).to.not.eq(1n)
+    })
+
+    it("fetches each round's signature once", async () => {
+        const [requestPrice] = await anyrand.getRequestPrice(callbackGasLimit, {
+            gasPrice: await ethers.provider.getFeeData().then((fee) => fee.gasPrice!),
+        })
+        const deadline = BigInt(await time.latest()) + 30n
+        const requestIds: bigint[] = []
+        for (const requestDeadline of [deadline, deadline, deadline, deadline + 30n]) {
+            requestIds.push(await anyrand.nextRequestId())
+            await consumer.getRandom(requestDeadline, callbackGasLimit, { value: requestPrice })
+        }
+        const fetchedRounds: bigint[] = []
+        const validGetSignature = getSignature
+        getSignature = async (pubKeyHash, round) => {
+            fetchedRounds.push(round)
+            return validGetSignature(pubKeyHash, round)
+        }
+        const keeper = createKeeper()
+
+        await time.increase(90)
+        await keeper.tick()
+        expect(keeper.pending).to.have.lengthOf(0)
+        for (const requestId of requestIds) {
+            expect(await anyrand.getRequestState(requestId)).to.eq(RequestState.Fulfilled)
+        }
+        expect(fetchedRounds).to.have.lengthOf(2)
+        expect(fetchedRounds[0]).to.be.lt(fetchedRounds[1])
+    })
+
+    it('resumes from checkpoint after restart', async () => {
+        const requestId = await request(30n)
+        await createKeeper().sync()
+        const lastBlock = await ethers.provider.getBlockNumber()
+
+        // New keeper instance picks up where the previous one left off; the start
+        // block is only used when there is no checkpoint
+        const keeper = createKeeper(lastBlock + 1)
+        await time.increase(60)
+        await keeper.tick()
+        expect(await anyrand.getRequestState(requestId)).to.eq(RequestState.Fulfilled)
+
+        const checkpoint = await new FileCheckpointStore(checkpointPath).load()
+        expect(checkpoint!.lastBlock).to.be.gte(lastBlock)
+        expect(checkpoint!.pending).to.have.lengthOf(0)
+    })
+
+    it('drops requests that were fulfilled by someone else', async () => {
+        const requestId = await request(30n)
+        const keeper = createKeeper()
+        await keeper.sync()
+        expect(keeper.pending).to.have.lengthOf(1)
+
+        const [{ requester, pubKeyHash, round }] = keeper.pending
+        await anyrand.fulfillRandomness(
+            requestId,
+            requester,
+            pubKeyHash,
+            round,
+            callbackGasLimit,
+            await getSignature(pubKeyHash, round),
+        )
+
+        await keeper.fulfillReady()
+        expect(keeper.pending).to.have.lengthOf(0)
+    })
+
+    it('does not submit invalid signatures', async () => {
+        const requestId = await request(30n)
+        const validGetSignature = getSignature
+        getSignature = async (pubKeyHash, round) => validGetSignature(pubKeyHash, round + 1n)
+        const keeper = createKeeper()
+
+        await time.increase(60)
+        const nonce = await deployer.getNonce()
+        await keeper.tick()
+        expect(keeper.pending).to.have.lengthOf(1)
+        expect(await anyrand.getRequestState(requestId)).to.eq(RequestState.Pending)
+        // Rejected before a tx was sent
+        expect(await deployer.getNonce()).to.eq(nonce)
+    })
+
+    it('defers underpriced requests until the max deferral has elapsed', async () => {
+        // The default stack charges a 0.2x multiplier, so every request is underpriced
+        const requestId = await request(30n)
+        const keeper = createKeeper(undefined, { maxDeferral: 120n })
+
+        await time.increase(60)
+        await keeper.tick()
+        expect(keeper.pending).to.have.lengthOf(1)
+        expect(await anyrand.getRequestState(requestId)).to.eq(RequestState.Pending)
+
+        await time.increase(120)
+        await keeper.tick()
+        expect(keeper.pending).to.have.lengthOf(0)
+        expect(await anyrand.getRequestState(requestId)).to.eq(RequestState.Fulfilled)
+    })
+
+    it('does not leak abort listeners while running', async () => {
+        const keeper = new Keeper({
+            anyrand,
+            getSignature,
+            pollIntervalMs: 1,
+            store: new FileCheckpointStore(checkpointPath),
+            log: () => {},
+        })
+        const controller = new AbortController()
+        const listeners: number[] = []
+        keeper.tick = async () => {
+            listeners.push(getEventListeners(controller.signal, 'abort').length)
+            if (listeners.length === 5) controller.abort()
+        }
+        await keeper.run(controller.signal)
+        expect(listeners).to.deep.eq([0, 0, 0, 0, 0])
+        expect(getEventListeners(controller.signal, 'abort')).to.have.lengthOf(0)
+    })
+
+    describe('decideFulfilment', () => {
+        const params = {
+            feePaid: 1000n,
+            effectiveFeePerGas: 10n,
+            waited: 0n,
+        }
+
+        it('fulfils profitable requests', async () => {
+            expect(decideFulfilment({ ...params, txCost: 1000n, policy: {} })).to.eq('fulfil')
+            expect(
+                decideFulfilment({ ...params, txCost: 900n, policy: { minProfit: 200n } }),
+            ).to.eq('defer')
+        })
+
+        it('fulfils at a loss within tolerance', async () => {
+            expect(decideFulfilment({ ...params, txCost: 1100n, policy: {} })).to.eq('defer')
+            expect(decideFulfilment({ ...params, txCost: 1100n, policy: { maxLoss: 100n } })).to.eq(
+                'fulfil-at-loss',
+            )
+            expect(
+                decideFulfilment({ ...params, txCost: 1100n, policy: { maxLossBps: 5_00n } }),
+            ).to.eq('defer')
+            expect(
+                decideFulfilment({
+                    ...params,
+                    txCost: 1100n,
+                    policy: { maxLoss: 100n, maxFeePerGas: 9n },
+                }),
+            ).to.eq('defer')
+        })
+
+        it('fulfils at a loss once max deferral has elapsed', async () => {
+            const policy = { maxDeferral: 60n }
+            expect(decideFulfilment({ ...params, txCost: 5000n, waited: 59n, policy })).to.eq(
+                'defer',
+            )
+            expect(decideFulfilment({ ...params, txCost: 5000n, waited: 60n, policy })).to.eq(
+                'fulfil-at-loss',
+            )
+        })
+    })
+})
@@ -0,0 +1,208 @@
+import { ethers } from 'hardhat'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { bn254 } from '@kevincharm/noble-bn254-drand'
+import { getEventListeners } from 'node:events'
+import http from 'node:http'
+import { AddressInfo } from 'node:net'
+import { Anyrand, AnyrandConsumer, AnyrandConsumer__factory } from '../typechain-types'
+import { deployAnyrandStack, getHashedRoundMsg } from './helpers'
+import { Keeper } from '../lib/keeper/keeper'
+import { Notifier } from '../lib/notifier/notifier'
+import { MemoryNotifierStore } from '../lib/notifier/store'
+import {
+    DELIVERY_HEADER,
+    EVENT_HEADER,
+    SIGNATURE_HEADER,
+    Webhook,
+    verifyPayloadSignature,
+} from '../lib/notifier/webhooks'
+
+interface Delivery {
+    path: string
+    headers: http.IncomingHttpHeaders
+    body: string
+}
+
+/// Local HTTP server that records every POST and responds with `status`
+async function startSink(status: () => number) {
+    const deliveries: Delivery[] = []
+    const server = http.createServer((req, res) => {
+        let body = ''
+        req.on('data', (chunk) => (body += chunk))
+        req.on('end', () => {
+            deliveries.push({ path: req.url!, headers: req.headers, body })
+            res.writeHead(status()).end()
+        })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    return {
+        url: `http://127.0.0.1:${port}`,
+        deliveries,
+        close: () => new Promise((resolve) => server.close(resolve)),
+    }
+}
+
+describe('Notifier', () => {
+    let deployer: SignerWithAddress
+    let anyrand: Anyrand
+    let consumer: AnyrandConsumer
+    let keeper: Keeper
+    let sink: Awaited<ReturnType<typeof startSink>>
+    let sinkStatus: number
+    const secret = 'sink-secret'
+    const callbackGasLimit = 100_000
+
+    beforeEach(async () => {
+        ;[deployer] = await ethers.getSigners()
+        const beaconSecretKey = bn254.utils.randomPrivateKey()
+        ;({ anyrand } = await deployAnyrandStack({
+            deployer,
+            beacon: {
+                pubKey: bn254.G2.ProjectivePoint.fromPrivateKey(beaconSecretKey).toHex(),
+                genesisTimestamp: BigInt(await time.latest()),
+                period: 3n,
+            },
+        }))
+        consumer = await new AnyrandConsumer__factory(deployer).deploy(await anyrand.getAddress())
+        keeper = new Keeper({
+            anyrand,
+            getSignature: async (_pubKeyHash, round) => {
+                const sig = bn254.signShortSignature(getHashedRoundMsg(round), beaconSecretKey)
+                const { x, y } = sig.toAffine()
+                return [x, y]
+            },
+            log: () => {},
+        })
+        sinkStatus = 200
+        sink = await startSink(() => sinkStatus)
+    })
+
+    afterEach(async () => {
+        await sink.close()
+    })
+
+    async function request() {
+        const [requestPrice] = await anyrand.getRequestPrice(callbackGasLimit, {
+            gasPrice: await ethers.provider.getFeeData().then((fee) => fee.gasPrice!),
+        })
+        const requestId = await anyrand.nextRequestId()
+        const deadline = BigInt(await time.latest()) + 30n
+        await consumer.getRandom(deadline, callbackGasLimit, { value: requestPrice })
+        return requestId
+    }
+
+    function createNotifier(webhooks: Webhook[], store = new MemoryNotifierStore()) {
+        return new Notifier({
+            anyrand,
+            webhooks,
+            store,
+            deadLetters: store,
+            retry: { maxAttempts: 3, initialBackoffMs: 1 },
+            log: () => {},
+        })
+    }
+
+    it('posts signed lifecycle events to subscribed webhooks', async () => {
+        const requestId = await request()
+        await time.increase(60)
+        await keeper.tick()
+
+        const notifier = createNotifier([
+            { url: `${sink.url}/all`, secret },
+            { url: `${sink.url}/consumer`, secret, requesters: [await consumer.getAddress()] },
+            { url: `${sink.url}/other`, secret, requesters: [deployer.address] },
+        ])
+        await notifier.sync()
+
+        const byPath = (path: string) => sink.deliveries.filter((d) => d.path === path)
+        expect(byPath('/other')).to.have.lengthOf(0)
+        for (const path of ['/all', '/consumer']) {
+            const deliveries = byPath(path)
+            expect(deliveries.map((d) => d.headers[EVENT_HEADER.toLowerCase()])).to.deep.eq([
+                'RandomnessRequested',
+                'RandomnessFulfilled',
+            ])
+            for (const { headers, body } of deliveries) {
+                expect(
+                    verifyPayloadSignature(
+                        secret,
+                        body,
+                        headers[SIGNATURE_HEADER.toLowerCase()] as string,
+                    ),
+                ).to.eq(true)
+                const payload = JSON.parse(body)
+                expect(payload.id).to.eq(headers[DELIVERY_HEADER.toLowerCase()])
+                expect(payload.requestId).to.eq(requestId.toString())
+                expect(payload.requester).to.eq(await consumer.getAddress())
+                expect(payload.chainId).to.eq(31337)
+            }
+        }
+        expect(notifier.lastBlock).to.eq(await ethers.provider.getBlockNumber())
+
+        // Already notified blocks aren't notified again
+        const count = sink.deliveries.length
+        await notifier.sync()
+        expect(sink.deliveries).to.have.lengthOf(count)
+    })
+
+    it('looks up the requester of requests made before the checkpoint', async () => {
+        const requestId = await request()
+        const startBlock = (await ethers.provider.getBlockNumber()) + 1
+        await time.increase(60)
+        await keeper.tick()
+
+        const store = new MemoryNotifierStore()
+        await store.save({ lastBlock: startBlock - 1, requesters: {} })
+        await createNotifier(
+            [{ url: sink.url, secret, requesters: [await consumer.getAddress()] }],
+            store,
+        ).sync()
+
+        expect(sink.deliveries).to.have.lengthOf(1)
+        const payload = JSON.parse(sink.deliveries[0].body)
+        expect(payload.event).to.eq('RandomnessFulfilled')
+        expect(payload.requestId).to.eq(requestId.toString())
+    })
+
+    it('retries failed deliveries, then dead-letters them', async () => {
+        await request()
+        sinkStatus = 503
+        const store = new MemoryNotifierStore()
+        const notifier = createNotifier([{ url: sink.url, secret }], store)
+        await notifier.sync()
+
+        expect(sink.deliveries).to.have.lengthOf(3)
+        expect(store.deadLetters).to.have.lengthOf(1)
+        expect(store.deadLetters[0]).to.include({ url: sink.url, attempts: 3, status: 503 })
+        expect(store.deadLetters[0].payload.event).to.eq('RandomnessRequested')
+        // Dead-lettered events don't hold up the checkpoint
+        expect(notifier.lastBlock).to.eq(await ethers.provider.getBlockNumber())
+
+        // Client errors aren't retried
+        await request()
+        sinkStatus = 400
+        await notifier.sync()
+        expect(sink.deliveries).to.have.lengthOf(4)
+        expect(store.deadLetters).to.have.lengthOf(2)
+    })
+
+    it('does not leak abort listeners while running', async () => {
+        const notifier = new Notifier({
+            anyrand,
+            webhooks: [],
+            pollIntervalMs: 1,
+            log: () => {},
+        })
+        const controller = new AbortController()
+        const listeners: number[] = []
+        notifier.sync = async () => {
+            listeners.push(getEventListeners(controller.signal, 'abort').length)
+            if (listeners.length === 5) controller.abort()
+        }
+        await notifier.run(controller.signal)
+        expect(listeners).to.deep.eq([0, 0, 0, 0, 0])
+    })
+})
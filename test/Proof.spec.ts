@@ -0,0 +1,132 @@
+import { ethers } from 'hardhat'
+import { time } from '@nomicfoundation/hardhat-network-helpers'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { bn254 } from '@kevincharm/noble-bn254-drand'
+import { expect } from 'chai'
+import { AnyrandConsumer__factory } from '../typechain-types'
+import { deployAnyrandStack, getHashedRoundMsg, getRound } from './helpers'
+import {
+    createProofBundle,
+    parseProofBundle,
+    ProofBundle,
+    PROOF_BUNDLE_VERSION,
+    verifyProofBundle,
+} from '../lib/proof'
+
+describe('Proof bundles', () => {
+    let deployer: SignerWithAddress
+    let bundle: ProofBundle
+    let beaconSecretKey: Uint8Array
+    beforeEach(async () => {
+        ;[deployer] = await ethers.getSigners()
+        beaconSecretKey = bn254.utils.randomPrivateKey()
+        const genesisTimestamp = BigInt(await time.latest())
+        const period = 3n
+        const { anyrand, drandBeacon } = await deployAnyrandStack({
+            deployer,
+            beacon: {
+                pubKey: bn254.G2.ProjectivePoint.fromPrivateKey(beaconSecretKey).toHex(),
+                genesisTimestamp,
+                period,
+            },
+        })
+        const consumer = await new AnyrandConsumer__factory(deployer).deploy(
+            await anyrand.getAddress(),
+        )
+
+        // Request & fulfil for real, then export the proof from what's on chain
+        const callbackGasLimit = 100_000n
+        const { gasPrice } = await ethers.provider.getFeeData()
+        const [requestPrice] = await anyrand.getRequestPrice(callbackGasLimit, { gasPrice })
+        const deadline = BigInt(await time.latest()) + 30n
+        const round = getRound(genesisTimestamp, deadline, period)
+        const requestId = await anyrand.nextRequestId()
+        await consumer.getRandom(deadline, callbackGasLimit, { value: requestPrice, gasPrice })
+        await time.increaseTo(deadline)
+        const sig = bn254.signShortSignature(getHashedRoundMsg(round), beaconSecretKey).toAffine()
+        const receipt = await anyrand
+            .fulfillRandomness(
+                requestId,
+                await consumer.getAddress(),
+                await drandBeacon.publicKeyHash(),
+                round,
+                callbackGasLimit,
+                [sig.x, sig.y],
+            )
+            .then((tx) => tx.wait())
+        const [fulfilled] = await anyrand.queryFilter(
+            anyrand.filters.RandomnessFulfilled(requestId),
+            receipt!.blockNumber,
+        )
+
+        bundle = createProofBundle({
+            chainId: (await ethers.provider.getNetwork()).chainId,
+            anyrand: await anyrand.getAddress(),
+            requestId,
+            requester: await consumer.getAddress(),
+            beaconPublicKey: await drandBeacon.publicKey(),
+            round,
+            signature: [sig.x, sig.y],
+            randomness: fulfilled.args.randomness,
+        })
+        expect(bundle.randomness).to.eq((await consumer.randomness(requestId)).toString())
+    })
+
+    it('should verify a real fulfilment', async () => {
+        const verification = verifyProofBundle(bundle)
+        expect(verification).to.include({
+            isSignatureValid: true,
+            isRandomnessValid: true,
+            isValid: true,
+            expectedRandomness: BigInt(bundle.randomness),
+        })
+        expect(verification.beaconPubKeyHash).to.eq(ethers.keccak256(bundle.beaconPublicKey))
+        // Survives a round trip through JSON
+        expect(verifyProofBundle(parseProofBundle(JSON.stringify(bundle))).isValid).to.eq(true)
+    })
+
+    it('should reject a signature of another round or beacon', async () => {
+        expect(
+            verifyProofBundle({ ...bundle, round: (BigInt(bundle.round) + 1n).toString() }),
+        ).to.include({ isSignatureValid: false, isRandomnessValid: true, isValid: false })
+
+        const otherKey = bn254.G2.ProjectivePoint.fromPrivateKey(bn254.utils.randomPrivateKey())
+        const { x, y } = otherKey.toAffine()
+        const beaconPublicKey =
+            '0x' + [x.c0, x.c1, y.c0, y.c1].map((w) => w.toString(16).padStart(64, '0')).join('')
+        expect(verifyProofBundle({ ...bundle, beaconPublicKey })).to.include({
+            isSignatureValid: false,
+            isValid: false,
+        })
+    })
+
+    it('should reject randomness that was not derived for the request', async () => {
+        // e.g. claiming another request's randomness, or on another chain
+        for (const tampered of [
+            { ...bundle, requestId: (BigInt(bundle.requestId) + 1n).toString() },
+            { ...bundle, chainId: '1' },
+            { ...bundle, requester: deployer.address },
+            { ...bundle, randomness: '42' },
+        ]) {
+            expect(verifyProofBundle(tampered)).to.include({
+                isSignatureValid: true,
+                isRandomnessValid: false,
+                isValid: false,
+            })
+        }
+    })
+
+    it('should reject malformed bundles', async () => {
+        expect(() => parseProofBundle('null')).to.throw('expected a JSON object')
+        expect(() => parseProofBundle({ ...bundle, version: PROOF_BUNDLE_VERSION + 1 })).to.throw(
+            'Unsupported proof bundle version',
+        )
+        expect(() => parseProofBundle({ ...bundle, requestId: 1 })).to.throw('malformed requestId')
+        expect(() => parseProofBundle({ ...bundle, signature: [bundle.signature[0]] })).to.throw(
+            'malformed signature',
+        )
+        expect(() => parseProofBundle({ ...bundle, beaconPublicKey: '0x1234' })).to.throw(
+            'malformed beaconPublicKey',
+        )
+    })
+})